@@ -1,11 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { UNIVERSITIES, DEFAULT_UNIVERSITY_ID, USE_BACKEND, INITIAL_BADGES } from './constants';
-import { Message, Sender, UserStats, ChatSession } from './types';
+import { Message, Sender, UserStats, ChatSession, MapPin as MapPinData, CampusEntryRef, MessageFeedback, UniversityProfile, Language, ChatImage, UsageQuota, ChatError } from './types';
 import { generateResponse } from './services/geminiService';
 import { getUserStats, processUserInteraction, generateUserContextSummary } from './services/statsService';
-import { getChatSessions, createChatSession, addMessage, deleteChatSession } from './services/chatService';
+import { getChatSessions, getSessionMessages, createChatSession, addMessage, deleteChatSession } from './services/chatService';
 import { isAuthenticated, logout, getUserProfile, getCurrentUser, isAwaitingEmailConfirmation } from './services/authService';
-import { DATA_UW, DATA_UOFT, DATA_MAC, DATA_WESTERN, DATA_QUEENS, DATA_TMU } from './services/campusData';
+import { getUniversity, getCampusData } from './services/universityRegistry';
+import { ApiError, getUsageQuota } from './services/apiService';
+import { validateMapData, logRejectedMapPins } from './services/mapValidation';
+import { getFallbackFollowUps } from './services/followUps';
+import { submitFeedback, clearFeedback, canReviewFeedback } from './services/feedbackService';
+import { getActiveBranch, getBranchPath, getLatestLeaf, getSiblings } from './services/messageBranches';
+import { toImageSrc } from './services/chatImages';
+import { classifyWellness, WellnessLevel } from './services/wellness';
 import UniversitySelector from './components/UniversitySelector';
 import MessageBubble from './components/MessageBubble';
 import GamificationPanel from './components/GamificationPanel';
@@ -17,25 +24,23 @@ import CampusMapTab from './components/CampusMapTab';
 import AuthScreen from './components/AuthScreen';
 import Aurora from './components/Aurora';
 import Sidebar from './components/Sidebar';
-import { Send, GraduationCap, Info, Trash2, Trophy, Check, Star, MessageSquare, Calendar, History, Plus, ChevronDown, Heart, LogOut, HelpCircle, MapPin } from 'lucide-react';
+import RateLimitCountdown from './components/RateLimitCountdown';
+import FollowUpChips from './components/FollowUpChips';
+import FeedbackReviewTab from './components/FeedbackReviewTab';
+import ImageAttachButton from './components/ImageAttachButton';
+import WellnessCard from './components/WellnessCard';
+import { useLanguage } from './contexts/LanguageContext';
+import { Send, GraduationCap, Info, Trash2, Trophy, Check, Star, MessageSquare, Calendar, History, Plus, ChevronDown, Heart, LogOut, HelpCircle, MapPin, X, Square } from 'lucide-react';
 
 const generateId = () => Math.random().toString(36).substring(2, 9);
 
-// LocalStorage helpers for map locations (not stored in Supabase)
-const MAP_LOCATIONS_KEY = 'unipilot_map_locations';
+const getWelcomeMessage = (university: UniversityProfile, language: Language) =>
+  university.welcomeMessages?.[language] || university.welcomeMessage;
 
-const saveMapLocation = (messageId: string, mapLocation: { lat: number; lng: number; name: string }) => {
-  try {
-    const stored = localStorage.getItem(MAP_LOCATIONS_KEY);
-    const locations = stored ? JSON.parse(stored) : {};
-    locations[messageId] = mapLocation;
-    localStorage.setItem(MAP_LOCATIONS_KEY, JSON.stringify(locations));
-  } catch (e) {
-    console.error('Failed to save map location:', e);
-  }
-};
+// Map locations used to live in localStorage; read them back for messages saved before map_data existed
+const MAP_LOCATIONS_KEY = 'unipilot_map_locations';
 
-const getMapLocations = (): Record<string, { lat: number; lng: number; name: string }> => {
+const getLegacyMapLocations = (): Record<string, MapPinData> => {
   try {
     const stored = localStorage.getItem(MAP_LOCATIONS_KEY);
     return stored ? JSON.parse(stored) : {};
@@ -45,12 +50,33 @@ const getMapLocations = (): Record<string, { lat: number; lng: number; name: str
   }
 };
 
-const getMapLocation = (messageId: string): { lat: number; lng: number; name: string } | undefined => {
-  return getMapLocations()[messageId];
+// Attach legacy pins, and check every pin before it reaches the map:
+// older answers carry coordinates the model made up
+const withCheckedMaps = (session: ChatSession, legacyMapLocations: Record<string, MapPinData>): ChatSession => {
+  const university = getUniversity(session.universityId);
+  const campusData = getCampusData(session.universityId);
+  return {
+    ...session,
+    messages: session.messages.map(msg => {
+      const legacyPin = msg.mapLocation || legacyMapLocations[msg.id];
+      const pins = msg.mapLocations || (legacyPin ? [legacyPin] : []);
+      if (pins.length === 0 && !msg.route) return msg;
+
+      const validated = validateMapData(university, campusData, pins, msg.route || null);
+      logRejectedMapPins(validated.rejected);
+      return {
+        ...msg,
+        mapLocation: undefined,
+        mapLocations: validated.locations.length > 0 ? validated.locations : undefined,
+        route: validated.route || undefined
+      };
+    })
+  };
 };
 
 const App: React.FC = () => {
   // console.log("App component is initializing...");
+  const { language, t, tOr } = useLanguage();
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [awaitingConfirmation, setAwaitingConfirmation] = useState(false);
   const [authLoading, setAuthLoading] = useState(true);
@@ -85,11 +111,15 @@ const App: React.FC = () => {
   }, []);
 
   const [selectedUniId, setSelectedUniId] = useState<string>(DEFAULT_UNIVERSITY_ID);
-  const [activeTab, setActiveTab] = useState<'chat' | 'events' | 'multifaith' | 'faq' | 'map'>('chat');
+  const [activeTab, setActiveTab] = useState<'chat' | 'events' | 'multifaith' | 'faq' | 'map' | 'review'>('chat');
 
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
+  const [pendingImage, setPendingImage] = useState<ChatImage | null>(null); // Photo attached in the composer
   const [isLoading, setIsLoading] = useState(false);
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null);
+  const [focusedEntry, setFocusedEntry] = useState<CampusEntryRef | null>(null); // Citation chip the user opened
+  const [canReview, setCanReview] = useState(false); // Admins get the feedback review tab
 
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
@@ -97,6 +127,7 @@ const App: React.FC = () => {
 
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [isStatsOpen, setIsStatsOpen] = useState(false);
+  const [usageQuota, setUsageQuota] = useState<UsageQuota | null>(null);
   const [isAboutOpen, setIsAboutOpen] = useState(false);
   // Sidebar collapsed by default on mobile (< 768px)
   const [isSidebarOpen, setIsSidebarOpen] = useState(typeof window !== 'undefined' ? window.innerWidth >= 768 : true);
@@ -107,21 +138,10 @@ const App: React.FC = () => {
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const turnRef = useRef<AbortController | null>(null); // The chat turn in flight, if any
 
   const prevUniIdRef = useRef(selectedUniId);
-  const currentUniversity = UNIVERSITIES.find(u => u.id === selectedUniId) || UNIVERSITIES[0];
-
-  const getCampusData = (id: string) => {
-    switch (id) {
-      case 'uw': return DATA_UW;
-      case 'uoft': return DATA_UOFT;
-      case 'mac': return DATA_MAC;
-      case 'western': return DATA_WESTERN;
-      case 'queens': return DATA_QUEENS;
-      case 'tmu': return DATA_TMU;
-      default: return DATA_UW;
-    }
-  };
+  const currentUniversity = getUniversity(selectedUniId);
 
   const currentCampusData = getCampusData(selectedUniId);
 
@@ -175,18 +195,20 @@ const App: React.FC = () => {
           // Load Stats
           const stats = await getUserStats();
           setUserStats(stats);
+          setCanReview(await canReviewFeedback());
 
           // Load Sessions
           const userSessions = await getChatSessions();
 
           // Hydrate dates just in case, though service should handle it
-          const hydratedSessions = userSessions.map(s => ({
+          const legacyMapLocations = getLegacyMapLocations();
+          const hydratedSessions = userSessions.map(s => withCheckedMaps({
             ...s,
             messages: s.messages.map(m => ({
               ...m,
               timestamp: new Date(m.timestamp)
             }))
-          }));
+          }, legacyMapLocations));
 
           setSessions(hydratedSessions);
 
@@ -199,12 +221,12 @@ const App: React.FC = () => {
           if (currentUniSessions.length > 0) {
             const latest = currentUniSessions[0];
             setCurrentSessionId(latest.id);
-            setMessages(latest.messages);
+            setMessages(getActiveBranch(latest.messages));
           } else {
             // No sessions - set welcome message with the correct university
             setMessages([{
               id: generateId(),
-              text: targetUniversity.welcomeMessage,
+              text: getWelcomeMessage(targetUniversity, language),
               sender: Sender.AI,
               timestamp: new Date()
             }]);
@@ -221,32 +243,41 @@ const App: React.FC = () => {
   useEffect(() => {
     if (prevUniIdRef.current !== selectedUniId) {
       prevUniIdRef.current = selectedUniId;
+      cancelTurn();
       const uniSessions = sessions.filter(s => s.universityId === selectedUniId);
 
       if (uniSessions.length > 0) {
         const latest = uniSessions[0];
         setCurrentSessionId(latest.id);
-        setMessages(latest.messages);
+        setMessages(getActiveBranch(latest.messages));
       } else {
         setCurrentSessionId(null);
         setMessages([{
           id: generateId(),
-          text: currentUniversity.welcomeMessage,
+          text: getWelcomeMessage(currentUniversity, language),
           sender: Sender.AI,
           timestamp: new Date()
         }]);
       }
       setActiveTab('chat'); // Reset to chat tab on university change
+      setFocusedEntry(null);
     }
   }, [selectedUniId, sessions, currentUniversity]);
 
+  // A chat that hasn't started yet greets in the newly picked language
+  useEffect(() => {
+    setMessages(prev => !currentSessionId && prev.length === 1 && prev[0].sender === Sender.AI
+      ? [{ ...prev[0], text: getWelcomeMessage(currentUniversity, language) }]
+      : prev);
+  }, [language]);
+
   // Default welcome message if empty
   useEffect(() => {
     if (messages.length === 0 && !currentSessionId) {
       setMessages([
         {
           id: generateId(),
-          text: currentUniversity.welcomeMessage,
+          text: getWelcomeMessage(currentUniversity, language),
           sender: Sender.AI,
           timestamp: new Date()
         }
@@ -261,6 +292,13 @@ const App: React.FC = () => {
     }
   }, [messages, isLoading, activeTab]);
 
+  // The daily AI allowance is enforced by the API, so it is only shown in backend mode; refreshed each time the panel opens
+  useEffect(() => {
+    if (isStatsOpen && USE_BACKEND) {
+      getUsageQuota().then(setUsageQuota);
+    }
+  }, [isStatsOpen]);
+
   // Notification timer
   useEffect(() => {
     if (notification) {
@@ -270,10 +308,11 @@ const App: React.FC = () => {
   }, [notification]);
 
   const handleNewChat = () => {
+    cancelTurn();
     setCurrentSessionId(null);
     setMessages([{
       id: generateId(),
-      text: currentUniversity.welcomeMessage,
+      text: getWelcomeMessage(currentUniversity, language),
       sender: Sender.AI,
       timestamp: new Date()
     }]);
@@ -282,14 +321,9 @@ const App: React.FC = () => {
   };
 
   const handleLoadSession = (session: ChatSession) => {
+    cancelTurn();
     setCurrentSessionId(session.id);
-    // Restore map locations from localStorage for each message
-    const mapLocations = getMapLocations();
-    const messagesWithMaps = session.messages.map(msg => ({
-      ...msg,
-      mapLocation: mapLocations[msg.id] || msg.mapLocation
-    }));
-    setMessages(messagesWithMaps);
+    setMessages(getActiveBranch(session.messages));
     setSelectedUniId(session.universityId);
     prevUniIdRef.current = session.universityId;
     setIsHistoryOpen(false);
@@ -310,123 +344,368 @@ const App: React.FC = () => {
     }
   };
 
-  const handleSendMessage = async () => {
-    if (!input.trim()) return;
+  // The current session's whole message tree; `messages` is the branch on screen (after the welcome bubble)
+  const currentTree = sessions.find(s => s.id === currentSessionId)?.messages || [];
 
-    const userMessageText = input;
-    setInput('');
+  // Leading messages on screen that aren't part of the session, i.e. the welcome bubble
+  const introMessages = (path: Message[], tree: Message[]) => {
+    const treeIds = new Set(tree.map(m => m.id));
+    const first = path.findIndex(m => treeIds.has(m.id));
+    return first === -1 ? path : path.slice(0, first);
+  };
+
+  // Run one chat turn after `basePath` (the conversation on screen up to the question).
+  // With `retryOf`, that saved question (and its photo) is answered again instead of a new one being sent.
+  const sendTurn = async (userMessageText: string, basePath: Message[], retryOf?: Message, image?: ChatImage) => {
+    const tree = currentTree;
+    const photo = retryOf ? retryOf.image : image;
+    const lastMessage = basePath[basePath.length - 1];
+    const parentId = retryOf
+      ? retryOf.parentId ?? null
+      : (lastMessage && tree.some(m => m.id === lastMessage.id) ? lastMessage.id : null);
 
     // 1. Optimistic UI update for user message
-    const tempUserMsgId = generateId();
-    const newUserMessage: Message = {
-      id: tempUserMsgId,
+    const newUserMessage: Message = retryOf || {
+      id: generateId(),
       text: userMessageText,
       sender: Sender.USER,
-      timestamp: new Date()
+      timestamp: new Date(),
+      parentId,
+      image: photo
     };
 
-    const updatedMessages = [...messages, newUserMessage];
-    setMessages(updatedMessages);
+    setMessages([...basePath, newUserMessage]);
     setIsLoading(true);
 
-    let activeSessionId = currentSessionId;
+    // Stop aborts the turn; leaving its chat does too, and detaches it (see cancelTurn) so nothing that
+    // arrives late is put on screen
+    const controller = new AbortController();
+    turnRef.current = controller;
+    const onThisChat = () => turnRef.current === controller;
 
-    try {
-      // 2. Ensure session exists or create one
-      let currentSession: ChatSession | null = null;
+    let activeSessionId = currentSessionId;
+    const sessionTitle = userMessageText.slice(0, 30) + (userMessageText.length > 30 ? '...' : '');
+    let savedUserMessage = newUserMessage;
+    let streamedText = '';
 
+    // Create the session if needed and save the question (a retried one is already saved)
+    const saveQuestion = async () => {
       if (!activeSessionId) {
-        const newSession = await createChatSession(
-          currentUniversity.id,
-          userMessageText.slice(0, 30) + (userMessageText.length > 30 ? '...' : '')
-        );
+        const newSession = await createChatSession(currentUniversity.id, sessionTitle);
 
         if (newSession) {
           activeSessionId = newSession.id;
-          setCurrentSessionId(activeSessionId);
-          currentSession = { ...newSession, messages: [] };
+          if (onThisChat()) setCurrentSessionId(activeSessionId);
           // Add to local state
-          setSessions(prev => [currentSession!, ...prev]);
+          setSessions(prev => [{ ...newSession, messages: [] }, ...prev]);
         }
       }
 
-      // 3. Persist user message to backend
-      if (activeSessionId) {
-        await addMessage(activeSessionId, userMessageText, Sender.USER);
+      if (activeSessionId && !retryOf) {
+        savedUserMessage = await addMessage(activeSessionId, userMessageText, Sender.USER, { parentId, image: photo }) || newUserMessage;
       }
+    };
 
-      // 4. Process Stats
-      const { newBadges, leveledUp } = await processUserInteraction(userMessageText);
-      // Reload stats to get fresh state including XP
-      const freshStats = await getUserStats();
-      setUserStats(freshStats);
+    try {
+      // 2-3. In client-side mode the browser saves the session and user message itself.
+      // With USE_BACKEND, /api/chat saves the whole turn once the answer is ready.
+      if (!USE_BACKEND) {
+        await saveQuestion();
+      }
 
-      if (newBadges.length > 0) {
-        setNotification({
-          type: 'achievement',
-          text: `Unlocked: ${newBadges[0].name}!`
-        });
+      // 4. Process Stats (a regenerated answer isn't a new question, and distress never earns XP)
+      if (!retryOf && !classifyWellness(userMessageText)) {
+        const { newBadges, leveledUp } = await processUserInteraction(userMessageText);
+        // Reload stats to get fresh state including XP
+        const freshStats = await getUserStats();
+        setUserStats(freshStats);
+
+        if (newBadges.length > 0) {
+          setNotification({
+            type: 'achievement',
+            text: t('app.badgeUnlocked', { badge: tOr(`badge.${newBadges[0].id}.name`, newBadges[0].name) })
+          });
+        }
       }
 
-      // 5. Generate AI Response
-      const userContext = await generateUserContextSummary();
+      // 5. Generate AI Response (streamed into a placeholder bubble as it arrives)
+      // The API route loads this itself; only client-side mode puts it in the prompt here
+      const userContext = USE_BACKEND ? '' : await generateUserContextSummary();
+
+      const streamingMsgId = generateId();
+      const handleDelta = (textSoFar: string) => {
+        if (controller.signal.aborted) return;
+        streamedText = textSoFar;
+        const streamingMessage: Message = {
+          id: streamingMsgId,
+          text: textSoFar,
+          sender: Sender.AI,
+          timestamp: new Date(),
+          isStreaming: true
+        };
+        setMessages(prev => prev.some(m => m.id === streamingMsgId)
+          ? prev.map(m => m.id === streamingMsgId ? streamingMessage : m)
+          : [...prev, streamingMessage]);
+      };
 
-      const { text, mapLocation } = await generateResponse(
+      controller.signal.throwIfAborted();
+      const reply = await generateResponse(
         currentUniversity.id,
-        currentUniversity.personaName,
-        currentUniversity.styleGuide,
         userContext,
         userMessageText,
-        messages,
-        activeSessionId || 'temp-id'
+        basePath,
+        activeSessionId,
+        { parentId, retryOfMessageId: retryOf?.id },
+        language,
+        photo,
+        handleDelta,
+        controller.signal
       );
-
-      // 6. Persist AI message to backend
-      let savedAiMessage: Message | null = null;
-      if (activeSessionId) {
-        savedAiMessage = await addMessage(activeSessionId, text, Sender.AI);
+      const { text, mapLocations, route } = reply;
+
+      // 6. Persist AI message (client-side mode), or adopt the ids the server saved the turn under.
+      // An answer that arrives after the student left its chat is still saved to its session, just not shown.
+      let aiMessageId = reply.aiMessageId;
+      if (!USE_BACKEND && activeSessionId) {
+        const savedAiMessage = await addMessage(activeSessionId, text, Sender.AI, {
+          parentId: savedUserMessage.id,
+          mapData: { locations: mapLocations, route },
+          citations: reply.citations,
+          context: { entries: reply.contextEntries || [], toolCalls: reply.toolCalls || [] },
+          model: reply.model
+        });
+        aiMessageId = savedAiMessage?.id;
       }
-
-      const aiMessageId = savedAiMessage?.id || generateId();
+      if (reply.userMessageId) savedUserMessage = { ...savedUserMessage, id: reply.userMessageId };
 
       const newAiMessage: Message = {
-        id: aiMessageId,
+        id: aiMessageId || generateId(),
         text: text,
         sender: Sender.AI,
         timestamp: new Date(),
-        mapLocation: mapLocation
+        parentId: savedUserMessage.id,
+        mapLocations,
+        route,
+        citations: reply.citations,
+        followUps: reply.followUps,
+        model: reply.model
       };
 
-      // Save map location to localStorage for persistence
-      if (mapLocation) {
-        saveMapLocation(aiMessageId, mapLocation);
-      }
-
-      const finalMessages = [...updatedMessages, newAiMessage];
-      setMessages(finalMessages);
-
-      // Update session in list to show latest state/time
-      if (activeSessionId) {
+      if (onThisChat()) setMessages([...basePath, savedUserMessage, newAiMessage]);
+      const newTree = [...tree, ...(retryOf ? [] : [savedUserMessage]), newAiMessage];
+
+      // A session the server just created joins the history list; otherwise refresh the existing entry
+      if (reply.sessionId && reply.sessionId !== activeSessionId) {
+        const newSessionId = reply.sessionId;
+        if (onThisChat()) setCurrentSessionId(newSessionId);
+        setSessions(prev => [{
+          id: newSessionId,
+          universityId: currentUniversity.id,
+          title: reply.sessionTitle || sessionTitle,
+          messages: newTree,
+          lastModified: Date.now()
+        }, ...prev]);
+      } else if (activeSessionId) {
         setSessions(prev => prev.map(s => s.id === activeSessionId ? {
           ...s,
-          messages: finalMessages,
+          messages: newTree,
           lastModified: Date.now(),
           universityId: currentUniversity.id
         } : s).sort((a, b) => b.lastModified - a.lastModified));
       }
 
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Stopped (or left mid-answer): the text that had arrived is kept as a cancelled answer and saved,
+        // so the history shows the question was asked. /api/chat saves nothing for a cancelled turn.
+        const stoppedMessage: Message = {
+          id: generateId(),
+          text: streamedText,
+          sender: Sender.AI,
+          timestamp: new Date(),
+          parentId: savedUserMessage.id,
+          cancelled: true
+        };
+        if (onThisChat()) setMessages([...basePath, savedUserMessage, stoppedMessage]);
+
+        try {
+          if (USE_BACKEND) await saveQuestion();
+          if (activeSessionId) {
+            const savedStopped = await addMessage(activeSessionId, streamedText, Sender.AI, { parentId: savedUserMessage.id, cancelled: true });
+            const stopped = { ...stoppedMessage, id: savedStopped?.id || stoppedMessage.id, parentId: savedUserMessage.id };
+            const newTree = [...tree, ...(retryOf ? [] : [savedUserMessage]), stopped];
+            if (onThisChat()) setMessages([...basePath, savedUserMessage, stopped]);
+            setSessions(prev => prev.map(s => s.id === activeSessionId ? {
+              ...s,
+              messages: newTree,
+              lastModified: Date.now()
+            } : s).sort((a, b) => b.lastModified - a.lastModified));
+          }
+        } catch (saveError) {
+          console.error("Failed to save the cancelled turn", saveError);
+        }
+        return;
+      }
+
       console.error("Error in message flow", error);
-      setNotification({
-        type: 'error',
-        text: "Failed to send message. Please try again."
+      // Anything that isn't an API error (e.g. the network dropped) is worth retrying straight away
+      const failure: ChatError = error instanceof ApiError
+        ? { code: error.code, retryAfter: error.retryAfterSeconds, text: error.text }
+        : { code: 'provider_unavailable', retryAfter: 0 };
+      if (failure.code === 'rate_limited') {
+        setRateLimitedUntil(Date.now() + (failure.retryAfter || 30) * 1000);
+      }
+      // The turn ends in an error bubble that stays out of the session tree, so it is never saved.
+      // Text that had already streamed is kept in it.
+      if (!onThisChat()) return;
+      setMessages(prev => {
+        const partial = prev.find(m => m.isStreaming);
+        return [...prev.filter(m => !m.isStreaming), {
+          id: partial?.id || generateId(),
+          text: partial?.text || '',
+          sender: Sender.AI,
+          timestamp: new Date(),
+          error: failure
+        }];
       });
     } finally {
-      setIsLoading(false);
-      inputRef.current?.focus();
+      if (onThisChat()) {
+        turnRef.current = null;
+        setIsLoading(false);
+        inputRef.current?.focus();
+      }
     }
   };
 
+  // Stop the answer being generated; what had arrived stays on screen, marked as stopped
+  const handleStop = () => {
+    turnRef.current?.abort();
+  };
+
+  // Leaving a chat mid-answer cancels the turn and detaches it from the screen, so the new chat is
+  // usable straight away
+  const cancelTurn = () => {
+    if (!turnRef.current) return;
+    turnRef.current.abort();
+    turnRef.current = null;
+    setIsLoading(false);
+  };
+
+  // Sends the input box (with its photo), or a follow-up chip's question directly.
+  // A photo sent without a question asks where it is.
+  const handleSendMessage = async (messageText: string = input, image: ChatImage | null = pendingImage) => {
+    if ((!messageText.trim() && !image) || isLoading || rateLimitedUntil) return;
+    setInput('');
+    setPendingImage(null);
+    await sendTurn(messageText.trim() ? messageText : t('chat.photoQuestion'), messages, undefined, image || undefined);
+  };
+
+  // Send the question before an error bubble again. A question the server never saved goes as a new one.
+  // With the backend the turn may have been saved after all (the connection can drop between the route
+  // saving it and sending `done`), so the session is reloaded first and a saved answer is shown instead.
+  const handleRetry = async (message: Message) => {
+    const index = messages.findIndex(m => m.id === message.id);
+    const question = messages[index - 1];
+    if (isLoading || rateLimitedUntil || !question || question.sender !== Sender.USER) return;
+
+    if (USE_BACKEND && currentSessionId) {
+      const sessionId = currentSessionId;
+      const stored = await getSessionMessages(sessionId);
+      const storedQuestion = stored.find(m => m.id === question.id) || stored.find(m =>
+        m.sender === Sender.USER && m.text === question.text && m.parentId === question.parentId && !currentTree.some(c => c.id === m.id));
+      const answer = storedQuestion && stored.find(m => m.parentId === storedQuestion.id && !currentTree.some(c => c.id === m.id));
+      if (answer) {
+        setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, messages: stored, lastModified: Date.now() } : s));
+        setMessages([...introMessages(messages, currentTree), ...getBranchPath(stored, getLatestLeaf(stored, answer))]);
+        return;
+      }
+    }
+
+    const saved = currentTree.some(m => m.id === question.id);
+    sendTurn(question.text, messages.slice(0, index - 1), saved ? question : undefined, saved ? undefined : question.image);
+  };
+
+  const handleLogout = () => {
+    logout().catch(err => {
+      console.error('Logout error:', err);
+      setIsLoggedIn(false);
+      window.location.reload();
+    });
+  };
+
+  // Answer the question before an AI message again; the new answer becomes another version of it
+  const handleRegenerate = (message: Message) => {
+    const index = messages.findIndex(m => m.id === message.id);
+    const question = messages[index - 1];
+    if (isLoading || rateLimitedUntil || !question || question.sender !== Sender.USER) return;
+    sendTurn(question.text, messages.slice(0, index - 1), question);
+  };
+
+  // Send an edited question (keeping its photo) as a new branch; the original and its answers stay on their own branch
+  const handleEditMessage = (message: Message, text: string) => {
+    const index = messages.findIndex(m => m.id === message.id);
+    if (isLoading || rateLimitedUntil || index === -1) return;
+    sendTurn(text, messages.slice(0, index), undefined, message.image);
+  };
+
+  // Show another version of a message, continuing down that version's most recent branch
+  const handleSwitchBranch = (message: Message, offset: -1 | 1) => {
+    const siblings = getSiblings(currentTree, message);
+    const target = siblings[siblings.findIndex(m => m.id === message.id) + offset];
+    if (!target || isLoading) return;
+    setMessages([...introMessages(messages, currentTree), ...getBranchPath(currentTree, getLatestLeaf(currentTree, target))]);
+  };
+
+  // Apply a change to a message both on screen and in its session's tree
+  const updateMessage = (messageId: string, patch: Partial<Message>) => {
+    const apply = (list: Message[]) => list.map(m => m.id === messageId ? { ...m, ...patch } : m);
+    setMessages(apply);
+    setSessions(prev => prev.map(s => s.messages.some(m => m.id === messageId) ? { ...s, messages: apply(s.messages) } : s));
+  };
+
+  // Ratings show immediately and roll back if they can't be saved
+  const handleFeedback = async (message: Message, feedback: MessageFeedback | null) => {
+    const previous = message.feedback;
+    updateMessage(message.id, { feedback: feedback || undefined });
+    try {
+      if (feedback) {
+        await submitFeedback(message.id, feedback.rating, feedback.reasons);
+      } else {
+        await clearFeedback(message.id);
+      }
+    } catch (error) {
+      console.error('Failed to save feedback', error);
+      updateMessage(message.id, { feedback: previous });
+      setNotification({ type: 'error', text: t('app.feedbackFailed') });
+    }
+  };
+
+  const branchOf = (message: Message) => {
+    if (!currentTree.some(m => m.id === message.id)) return undefined;
+    const siblings = getSiblings(currentTree, message);
+    return { index: siblings.findIndex(m => m.id === message.id), count: siblings.length };
+  };
+
+  // Citation chips open the tab holding the cited entry (locations open as a pin on the campus map)
+  const handleCitationClick = (citation: CampusEntryRef) => {
+    const tabs = { location: 'map', faq: 'faq', event: 'events', multiFaithSpace: 'multifaith' } as const;
+    if (citation.kind === 'resource') return;
+    setFocusedEntry(citation);
+    setActiveTab(tabs[citation.kind]);
+  };
+
+  const handleTabChange = (tab: typeof activeTab) => {
+    setFocusedEntry(null);
+    setActiveTab(tab);
+  };
+
+  const focusIndexFor = (kind: CampusEntryRef['kind']) =>
+    focusedEntry?.kind === kind ? Number(focusedEntry.key.split(':')[1]) : undefined;
+
+  const focusedLocation = focusedEntry?.kind === 'location'
+    ? currentCampusData.locations[Number(focusedEntry.key.split(':')[1])]
+    : undefined;
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -434,12 +713,17 @@ const App: React.FC = () => {
     }
   };
 
-  const quickPrompts = [
-    "Where can I study late?",
-    "Where is the library?",
-    "Is there free Wi-Fi?",
-    "List food spots.",
-  ];
+  // Help card pinned for the conversation once any question in it signals distress; crisis outranks distress
+  const wellnessLevels = messages.filter(m => m.sender === Sender.USER).map(m => classifyWellness(m.text)?.level);
+  const wellnessLevel: WellnessLevel | undefined = wellnessLevels.includes('crisis') ? 'crisis' : wellnessLevels.includes('distress') ? 'distress' : undefined;
+
+  // Chips under the latest answer: the model's follow-ups, or the fixed set for this campus and time of day.
+  // None after a wellness reply - cheerful campus suggestions would be out of place there.
+  const lastMessage = messages[messages.length - 1];
+  const lastQuestion = [...messages].reverse().find(m => m.sender === Sender.USER);
+  const followUps = lastMessage?.sender === Sender.AI && !lastMessage.isStreaming && !lastMessage.error && !lastMessage.cancelled && !isLoading && !(lastQuestion && classifyWellness(lastQuestion.text))
+    ? (lastMessage.followUps?.length ? lastMessage.followUps : getFallbackFollowUps(currentCampusData, new Date(), language))
+    : [];
 
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
@@ -474,13 +758,13 @@ const App: React.FC = () => {
           <div className="inline-flex items-center justify-center w-16 h-16 bg-amber-500 text-white rounded-full mb-4 shadow-lg">
             <span className="text-3xl">📧</span>
           </div>
-          <h1 className="text-2xl font-bold text-white mb-2">Check Your Email</h1>
+          <h1 className="text-2xl font-bold text-white mb-2">{t('app.checkEmail.title')}</h1>
           <p className="text-white/70 mb-6">
-            We've sent a confirmation link to your email address. Please click the link to verify your account before continuing.
+            {t('app.checkEmail.body')}
           </p>
           <div className="bg-white/10 rounded-md p-4 mb-6">
             <p className="text-white/50 text-sm">
-              Didn't receive the email? Check your spam folder or try signing up again with a different email.
+              {t('app.checkEmail.hint')}
             </p>
           </div>
           <button
@@ -491,7 +775,7 @@ const App: React.FC = () => {
             }}
             className="w-full py-3 bg-white/10 hover:bg-white/20 text-white rounded-md transition-all font-medium"
           >
-            Back to Login
+            {t('common.backToLogin')}
           </button>
         </div>
       </div>
@@ -530,19 +814,14 @@ const App: React.FC = () => {
         selectedUniId={selectedUniId}
         onSelectUni={setSelectedUniId}
         activeTab={activeTab}
-        setActiveTab={setActiveTab}
+        setActiveTab={handleTabChange}
+        canReview={canReview}
         sessions={filteredSessions}
         currentSessionId={currentSessionId}
         onNewChat={handleNewChat}
         onLoadSession={handleLoadSession}
         onDeleteSession={handleDeleteSession}
-        onLogout={() => {
-          logout().catch(err => {
-            console.error('Logout error:', err);
-            setIsLoggedIn(false);
-            window.location.reload();
-          });
-        }}
+        onLogout={handleLogout}
         userEmail={userEmail}
         userUniversity={userUniversity}
         currentUniversity={currentUniversity}
@@ -575,7 +854,7 @@ const App: React.FC = () => {
               <button
                 onClick={() => setIsAboutOpen(true)}
                 className="p-2 rounded-md transition-all text-white/60 hover:text-white hover:bg-white/10"
-                title="About"
+                title={t('app.about')}
               >
                 <Info size={18} />
               </button>
@@ -584,7 +863,7 @@ const App: React.FC = () => {
                 className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 backdrop-blur-md border border-white/20 rounded-md transition-colors"
               >
                 <Trophy size={16} className="text-yellow-400" />
-                <span className="text-sm font-semibold text-white">Lvl {userStats.level}</span>
+                <span className="text-sm font-semibold text-white">{t('app.level', { level: userStats.level })}</span>
               </button>
             </div>
           </div>
@@ -598,11 +877,29 @@ const App: React.FC = () => {
 
           {activeTab === 'chat' && (
             <>
-              {messages.map((msg) => (
-                <MessageBubble key={msg.id} message={msg} university={currentUniversity} />
+              {wellnessLevel && <WellnessCard university={currentUniversity} level={wellnessLevel} />}
+
+              {messages.map((msg, i) => (
+                <MessageBubble
+                  key={msg.id}
+                  message={msg}
+                  university={currentUniversity}
+                  onCitationClick={handleCitationClick}
+                  branch={branchOf(msg)}
+                  onSwitchBranch={isLoading ? undefined : offset => handleSwitchBranch(msg, offset)}
+                  onRegenerate={isLoading || msg.error || i === 0 || messages[i - 1].sender !== Sender.USER ? undefined : () => handleRegenerate(msg)}
+                  onRetry={isLoading || rateLimitedUntil ? undefined : () => handleRetry(msg)}
+                  onSignIn={handleLogout}
+                  onEdit={isLoading ? undefined : text => handleEditMessage(msg, text)}
+                  onFeedback={msg.sender === Sender.AI && !msg.cancelled && currentTree.some(m => m.id === msg.id) ? feedback => handleFeedback(msg, feedback) : undefined}
+                />
               ))}
 
-              {isLoading && (
+              {followUps.length > 0 && (
+                <FollowUpChips suggestions={followUps} disabled={!!rateLimitedUntil} onSelect={text => handleSendMessage(text, null)} />
+              )}
+
+              {isLoading && !messages.some(m => m.isStreaming) && (
                 <div className="flex w-full justify-start mb-6 animate-pulse">
                   <div className="flex flex-row items-center gap-3">
                     <img 
@@ -626,19 +923,28 @@ const App: React.FC = () => {
           )}
 
           {activeTab === 'events' && (
-            <EventsTab events={currentCampusData.events} university={currentUniversity} />
+            <EventsTab events={currentCampusData.events} university={currentUniversity} focusIndex={focusIndexFor('event')} />
           )}
 
           {activeTab === 'multifaith' && (
-            <MultiFaithTab spaces={currentCampusData.multiFaithSpaces} university={currentUniversity} />
+            <MultiFaithTab spaces={currentCampusData.multiFaithSpaces} university={currentUniversity} focusIndex={focusIndexFor('multiFaithSpace')} />
           )}
 
           {activeTab === 'faq' && (
-            <FaqTab faq={currentCampusData.faq} university={currentUniversity} />
+            <FaqTab faq={currentCampusData.faq} university={currentUniversity} focusIndex={focusIndexFor('faq')} />
+          )}
+
+          {activeTab === 'review' && canReview && (
+            <FeedbackReviewTab university={currentUniversity} />
           )}
 
           {activeTab === 'map' && (
-            <CampusMapTab university={currentUniversity} />
+            <CampusMapTab
+              university={currentUniversity}
+              focusLocation={focusedLocation?.coordinates
+                ? { lat: focusedLocation.coordinates[0], lng: focusedLocation.coordinates[1], name: focusedLocation.name }
+                : null}
+            />
           )}
 
         </div>
@@ -647,28 +953,39 @@ const App: React.FC = () => {
       {activeTab === 'chat' && (
         <footer className="flex-none p-4 bg-gradient-to-t from-black/40 to-transparent z-20 animate-in slide-in-from-bottom-2">
           <div className="max-w-3xl mx-auto">
-            {/* Always show suggested prompts */}
-            <div className="flex gap-2 overflow-x-auto pb-3 mb-2 scrollbar-hide ml-14">
-              {quickPrompts.map((prompt, i) => (
+            {rateLimitedUntil && (
+              <RateLimitCountdown until={rateLimitedUntil} onExpire={() => setRateLimitedUntil(null)} />
+            )}
+
+            {pendingImage && (
+              <div className="relative inline-block mb-3 ml-14 animate-in fade-in">
+                <img src={toImageSrc(pendingImage)} alt={t('message.photo')} className="h-20 rounded-md border border-white/30 object-cover shadow-lg" />
                 <button
-                  key={i}
-                  onClick={() => setInput(prompt)}
-                  className="whitespace-nowrap px-4 py-2 text-xs font-semibold rounded-md transition-colors bg-white/20 hover:bg-white/30 text-white backdrop-blur-md border border-white/30 shadow-lg"
+                  onClick={() => setPendingImage(null)}
+                  title={t('chat.removePhoto')}
+                  className="absolute -top-2 -right-2 p-1 rounded-full bg-black/80 border border-white/30 text-white/80 hover:text-white transition-colors"
                 >
-                  {prompt}
+                  <X size={12} />
                 </button>
-              ))}
-            </div>
-
+              </div>
+            )}
 
             <div className="relative flex items-center gap-2">
               <button
-                onClick={() => setInput('')}
-                title="Clear Input"
+                onClick={() => {
+                  setInput('');
+                  setPendingImage(null);
+                }}
+                title={t('chat.clearInput')}
                 className="p-3 rounded-md transition-colors text-white/70 hover:text-white bg-white/10 hover:bg-white/20 backdrop-blur-md border border-white/20"
               >
                 <Trash2 size={20} />
               </button>
+              <ImageAttachButton
+                disabled={isLoading}
+                onAttach={setPendingImage}
+                onError={text => setNotification({ type: 'error', text })}
+              />
 
               <div className="relative flex-1">
                 <input
@@ -677,27 +994,37 @@ const App: React.FC = () => {
                   value={input}
                   onChange={(e) => setInput(e.target.value)}
                   onKeyDown={handleKeyDown}
-                  placeholder={`Ask ${currentUniversity.personaName} a question...`}
+                  placeholder={t('chat.placeholder', { persona: currentUniversity.personaName })}
                   className="w-full pl-5 pr-14 py-3 border border-white/30 focus:ring-0 focus:border-white/50 rounded-md shadow-lg transition-all bg-white/15 backdrop-blur-xl text-white placeholder-white/50 font-medium"
                   disabled={isLoading}
                 />
                 <div className="absolute right-1.5 top-1/2 -translate-y-1/2">
-                  <button
-                    onClick={handleSendMessage}
-                    disabled={!input.trim() || isLoading}
-                    className={`p-2 rounded-md transition-all transform active:scale-95 shadow-lg ${input.trim() && !isLoading
-                      ? 'bg-white/90 text-black hover:bg-white'
-                      : 'bg-white/20 text-white/40 cursor-not-allowed backdrop-blur-md'
-                      }`}
-                  >
-                    <Send size={18} />
-                  </button>
+                  {isLoading ? (
+                    <button
+                      onClick={handleStop}
+                      title={t('chat.stop')}
+                      className="p-2 rounded-md transition-all transform active:scale-95 shadow-lg bg-white/90 text-black hover:bg-white"
+                    >
+                      <Square size={18} fill="currentColor" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleSendMessage()}
+                      disabled={(!input.trim() && !pendingImage) || isLoading || !!rateLimitedUntil}
+                      className={`p-2 rounded-md transition-all transform active:scale-95 shadow-lg ${(input.trim() || pendingImage) && !isLoading && !rateLimitedUntil
+                        ? 'bg-white/90 text-black hover:bg-white'
+                        : 'bg-white/20 text-white/40 cursor-not-allowed backdrop-blur-md'
+                        }`}
+                    >
+                      <Send size={18} />
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
             <div className="text-center mt-3">
               <p className="text-xs text-white/40">
-                Created by{' '}
+                {t('common.createdBy')}{' '}
                 <span className="relative inline-block group">
                   <a href="https://linkedin.com/in/abdullahrajput1" target="_blank" rel="noopener noreferrer" className="text-purple-400 hover:text-purple-300 transition-colors">@abrj7</a>
                   <span className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-3 py-2 bg-black/90 backdrop-blur-xl border border-white/20 rounded-md text-xs text-white opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none group-hover:pointer-events-auto whitespace-nowrap shadow-xl z-50">
@@ -717,7 +1044,7 @@ const App: React.FC = () => {
                     </a>
                   </span>
                 </span>
-                . All rights reserved.
+                . {t('common.allRightsReserved')}
               </p>
             </div>
           </div>
@@ -730,6 +1057,7 @@ const App: React.FC = () => {
         stats={userStats}
         isOpen={isStatsOpen}
         onClose={() => setIsStatsOpen(false)}
+        quota={usageQuota}
       />
 
       <AboutModal
@@ -0,0 +1,185 @@
+import { createHmac, createPublicKey, timingSafeEqual, verify, type JsonWebKey, type KeyObject } from 'node:crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { sendError } from './errors.js';
+
+// Verifies the Supabase access token sent by the client.
+// Keys come from SUPABASE_JWT_SECRET (HS256 - handy for local testing with self-signed tokens)
+// or from the project's JWKS (SUPABASE_JWKS_URL, defaulting to SUPABASE_URL's well-known endpoint).
+
+const JWKS_TTL_MS = 10 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 30;
+
+export interface AuthContext {
+  userId: string;
+  email?: string;
+  tier: string; // app_metadata.tier, set by admins; used for rate limits and daily AI quotas
+}
+
+export type AuthenticatedRequest = VercelRequest & { auth: AuthContext };
+
+export class AuthError extends Error {
+  constructor(message: string, readonly status: 401 | 403) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+interface JwtHeader {
+  alg: string;
+  kid?: string;
+}
+
+interface SupabaseClaims {
+  sub?: string;
+  email?: string;
+  exp?: number;
+  nbf?: number;
+  aud?: string | string[];
+  iss?: string;
+  is_anonymous?: boolean;
+  email_confirmed_at?: string | null; // Only present when a custom access token hook adds it
+  user_metadata?: { email_verified?: boolean };
+  app_metadata?: { tier?: string };
+}
+
+// Supported JWS algorithms and how node:crypto verifies them
+const ASYMMETRIC_ALGORITHMS: Record<string, { hash: string; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { hash: 'sha256' },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+};
+
+let jwksCache: { url: string; keys: Map<string, KeyObject>; fetchedAt: number } | null = null;
+
+const decodeSegment = <T>(segment: string): T => {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    throw new AuthError('Malformed token', 401);
+  }
+};
+
+const getJwksUrl = () => {
+  if (process.env.SUPABASE_JWKS_URL) return process.env.SUPABASE_JWKS_URL;
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  return supabaseUrl ? `${supabaseUrl.replace(/\/$/, '')}/auth/v1/.well-known/jwks.json` : null;
+};
+
+const fetchJwks = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch JWKS: ${response.status}`);
+  }
+
+  const { keys = [] } = await response.json() as { keys?: (JsonWebKey & { kid?: string })[] };
+  const map = new Map<string, KeyObject>();
+  for (const jwk of keys) {
+    if (jwk.kid) map.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+  }
+
+  jwksCache = { url, keys: map, fetchedAt: Date.now() };
+  return map;
+};
+
+// Keys are cached; an unknown kid triggers one refetch in case the project rotated its signing key
+const getSigningKey = async (kid: string | undefined) => {
+  const url = getJwksUrl();
+  if (!url) throw new Error('Neither SUPABASE_JWT_SECRET nor SUPABASE_URL/SUPABASE_JWKS_URL is configured');
+
+  const fresh = jwksCache && jwksCache.url === url && Date.now() - jwksCache.fetchedAt < JWKS_TTL_MS;
+  let keys = fresh ? jwksCache!.keys : await fetchJwks(url);
+  if (kid && !keys.has(kid) && fresh) keys = await fetchJwks(url);
+
+  const key = kid ? keys.get(kid) : keys.values().next().value;
+  if (!key) throw new AuthError('Unknown signing key', 401);
+  return key;
+};
+
+const verifySignature = async (header: JwtHeader, signingInput: string, signature: Buffer) => {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+
+  if (header.alg === 'HS256') {
+    if (!secret) throw new AuthError('Unsupported token algorithm', 401);
+    const expected = createHmac('sha256', secret).update(signingInput).digest();
+    return expected.length === signature.length && timingSafeEqual(expected, signature);
+  }
+
+  const algorithm = ASYMMETRIC_ALGORITHMS[header.alg];
+  if (!algorithm) throw new AuthError('Unsupported token algorithm', 401);
+
+  const key = await getSigningKey(header.kid);
+  return verify(algorithm.hash, Buffer.from(signingInput), { key, dsaEncoding: algorithm.dsaEncoding }, signature);
+};
+
+/**
+ * Verify a Supabase access token and return the user it belongs to
+ */
+export const verifyAccessToken = async (token: string): Promise<AuthContext> => {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new AuthError('Malformed token', 401);
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const header = decodeSegment<JwtHeader>(encodedHeader);
+  const claims = decodeSegment<SupabaseClaims>(encodedPayload);
+
+  const valid = await verifySignature(header, `${encodedHeader}.${encodedPayload}`, Buffer.from(encodedSignature, 'base64url'));
+  if (!valid) throw new AuthError('Invalid token signature', 401);
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp < now - CLOCK_SKEW_SECONDS) {
+    throw new AuthError('Token expired', 401);
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf > now + CLOCK_SKEW_SECONDS) {
+    throw new AuthError('Token not yet valid', 401);
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes('authenticated')) throw new AuthError('Invalid token audience', 401);
+
+  const issuer = process.env.SUPABASE_JWT_ISSUER;
+  if (issuer && claims.iss !== issuer) throw new AuthError('Invalid token issuer', 401);
+
+  if (!claims.sub) throw new AuthError('Token has no subject', 401);
+
+  // Same rule as isAuthenticated in services/authService.ts: the email must be confirmed
+  const emailConfirmed = !!claims.email_confirmed_at || claims.user_metadata?.email_verified === true;
+  if (claims.is_anonymous || !emailConfirmed) {
+    throw new AuthError('Email not confirmed', 403);
+  }
+
+  return { userId: claims.sub, email: claims.email, tier: claims.app_metadata?.tier || 'free' };
+};
+
+/**
+ * Read and verify the bearer token on a request
+ */
+export const authenticateRequest = async (req: VercelRequest): Promise<AuthContext> => {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice(7).trim() : '';
+  if (!token) throw new AuthError('Missing access token', 401);
+
+  return verifyAccessToken(token);
+};
+
+/**
+ * Wrap an API handler so it only runs for signed-in users with a confirmed email.
+ * The verified user is available to the handler as `req.auth`.
+ */
+export const withAuth = (
+  handler: (req: AuthenticatedRequest, res: VercelResponse) => unknown
+) => async (req: VercelRequest, res: VercelResponse) => {
+  let auth: AuthContext;
+  try {
+    auth = await authenticateRequest(req);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return sendError(res, { code: 'unauthorized', error: error.message }, error.status);
+    }
+
+    console.error('Auth Error:', error);
+    return sendError(res, { code: 'provider_unavailable', error: 'Authentication is not configured' }, 500);
+  }
+
+  const authedReq = req as AuthenticatedRequest;
+  authedReq.auth = auth;
+  return handler(authedReq, res);
+};
@@ -0,0 +1,60 @@
+import type { ChatBranch, ChatImage } from '../../types.js';
+import type { ChatTurnOutput } from '../../services/chatPipeline.js';
+import { fallbackSessionTitle } from '../../services/sessionTitles.js';
+import { getSupabaseAdmin } from './supabaseAdmin.js';
+
+// Saves a chat turn from inside /api/chat via the save_chat_turn function (supabase/migrations),
+// which creates the session if needed and inserts both messages in one transaction.
+
+export interface SavedChatTurn {
+  sessionId: string;
+  userMessageId: string;
+  aiMessageId: string;
+  sessionTitle?: string; // Set when this turn created the session
+}
+
+export interface SaveChatTurnInput {
+  userId: string;
+  sessionId: string | null;
+  universityId: string;
+  userMessage: string;
+  image?: ChatImage; // Photo attached to the question
+  reply: ChatTurnOutput;
+  branch?: ChatBranch; // Where the turn goes in the session's message tree
+  title?: string; // For a new session; defaults to the truncated question
+}
+
+/**
+ * Persist the user message and AI reply (with its map data and campus context), creating the session if missing.
+ * A regenerated answer is saved under the existing question instead.
+ */
+export const saveChatTurn = async ({ userId, sessionId, universityId, userMessage, image, reply, branch = {}, title }: SaveChatTurnInput): Promise<SavedChatTurn> => {
+  const sessionTitle = title || fallbackSessionTitle(userMessage);
+  const hasMapData = reply.mapLocations.length > 0 || !!reply.route;
+
+  const { data, error } = await getSupabaseAdmin().rpc('save_chat_turn', {
+    p_user_id: userId,
+    p_session_id: sessionId,
+    p_university_id: universityId,
+    p_title: sessionTitle,
+    p_user_text: userMessage,
+    p_ai_text: reply.text,
+    p_map_data: hasMapData ? { locations: reply.mapLocations, route: reply.route || undefined } : null,
+    p_citations: reply.citations.length > 0 ? reply.citations : null,
+    p_parent_id: branch.parentId || null,
+    p_user_message_id: branch.retryOfMessageId || null,
+    p_context: { entries: reply.contextEntries, toolCalls: reply.toolCalls },
+    p_user_image: image || null,
+    p_model: reply.model || null,
+  });
+
+  if (error) throw new Error(`Failed to save chat turn: ${error.message}`);
+
+  const row = Array.isArray(data) ? data[0] : data;
+  return {
+    sessionId: row.session_id,
+    userMessageId: row.user_message_id,
+    aiMessageId: row.ai_message_id,
+    sessionTitle: sessionId ? undefined : sessionTitle,
+  };
+};
@@ -0,0 +1,40 @@
+import type { VercelResponse } from '@vercel/node';
+import type { ApiErrorBody, ApiErrorCode } from '../../types.js';
+import { isFallbackError } from '../../services/llm/fallbackProvider.js';
+
+// The error contract of the API routes: every failure is an ApiErrorBody whose code the client turns
+// into a UI state (services/apiService.ts). Raw provider and database errors are logged, never sent.
+
+const STATUS: Record<ApiErrorCode, number> = {
+  rate_limited: 429,
+  quota_exceeded: 429,
+  provider_unavailable: 503,
+  invalid_request: 400,
+  unauthorized: 401,
+};
+
+// How long to suggest waiting when the model provider is busy or failing
+const PROVIDER_RETRY_SECONDS = 30;
+
+/**
+ * Send an error response; retryAfter also goes out as the Retry-After header
+ */
+export const sendError = (res: VercelResponse, body: ApiErrorBody, status: number = STATUS[body.code]) => {
+  if (body.retryAfter) res.setHeader('Retry-After', String(body.retryAfter));
+  return res.status(status).json(body);
+};
+
+/**
+ * The error to report for a request that failed while the model was answering. Rate limits and
+ * outages (after the model fallback chain gave up) can be retried; a missing key can't.
+ */
+export const describeProviderFailure = (error: unknown): ApiErrorBody => {
+  const message = error instanceof Error ? error.message : String(error);
+  if (/API_KEY|not configured/i.test(message)) {
+    return { code: 'provider_unavailable', error: 'AI service not configured' };
+  }
+  if (isFallbackError(error)) {
+    return { code: 'provider_unavailable', error: 'AI service busy', retryAfter: PROVIDER_RETRY_SECONDS };
+  }
+  return { code: 'provider_unavailable', error: 'AI request failed', retryAfter: PROVIDER_RETRY_SECONDS };
+};
@@ -0,0 +1,26 @@
+import type { InputRejectionLog, LoggedInputRejection } from '../../services/inputFilter.js';
+import { getSupabaseAdmin } from './supabaseAdmin.js';
+
+// Server-side InputRejectionLog on the chat_input_rejections table, reviewed for abuse and false positives
+
+const EXCERPT_LENGTH = 500;
+
+/**
+ * Create a rejection log that attributes entries to the signed-in user
+ */
+export const createInputRejectionLog = (userId: string): InputRejectionLog => ({
+  async record(rejection: LoggedInputRejection): Promise<void> {
+    const { error } = await getSupabaseAdmin()
+      .from('chat_input_rejections')
+      .insert({
+        university_id: rejection.universityId,
+        reason: rejection.reason,
+        pattern: rejection.pattern || null,
+        message_excerpt: rejection.userMessage.slice(0, EXCERPT_LENGTH),
+        message_length: rejection.userMessage.length,
+        user_id: userId,
+      });
+
+    if (error) throw new Error(error.message);
+  },
+});
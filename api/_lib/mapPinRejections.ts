@@ -0,0 +1,26 @@
+import type { MapPinRejectionLog, RejectedMapPin } from '../../services/mapValidation.js';
+import { getSupabaseAdmin } from './supabaseAdmin.js';
+
+// Server-side MapPinRejectionLog on the map_pin_rejections table, reviewed by the content team
+
+/**
+ * Create a rejection log that attributes entries to the signed-in user
+ */
+export const createMapPinRejectionLog = (userId: string): MapPinRejectionLog => ({
+  async record(rejections: RejectedMapPin[]): Promise<void> {
+    const { error } = await getSupabaseAdmin()
+      .from('map_pin_rejections')
+      .insert(rejections.map(r => ({
+        university_id: r.universityId,
+        name: r.pin.name,
+        lat: Number.isFinite(r.pin.lat) ? r.pin.lat : null,
+        lng: Number.isFinite(r.pin.lng) ? r.pin.lng : null,
+        reason: r.reason,
+        distance_km: r.distanceKm,
+        matched_location: r.matchedLocation,
+        user_id: userId,
+      })));
+
+    if (error) throw new Error(error.message);
+  },
+});
@@ -0,0 +1,19 @@
+import { createProvider, parseProviderName, type LLMUsage } from '../../services/llm/index.js';
+
+// The LLM provider for API routes, selected by environment: LLM_PROVIDER=gemini (default) | openai | mock.
+// onUsage receives the token counts of every model call (see usage.ts).
+
+/**
+ * Create a provider for one request
+ */
+export const getProvider = (onUsage?: (usage: LLMUsage) => void) => {
+  const provider = parseProviderName(process.env.LLM_PROVIDER);
+  return createProvider({
+    provider,
+    apiKey: provider === 'openai' ? process.env.OPENAI_API_KEY : process.env.GEMINI_API_KEY,
+    baseUrl: process.env.OPENAI_BASE_URL,
+    model: process.env.LLM_MODEL,
+    models: process.env.LLM_MODELS,
+    onUsage,
+  });
+};
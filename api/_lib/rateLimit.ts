@@ -0,0 +1,135 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { AuthenticatedRequest } from './auth.js';
+import { getSupabaseAdmin } from './supabaseAdmin.js';
+import { sendError } from './errors.js';
+
+// Token-bucket rate limiting for API routes, applied per user (by tier) and per client IP.
+// Buckets live in a RateLimitStore: in-memory (default; per serverless instance, fine for local
+// runs and tests) or Postgres via Supabase (RATE_LIMIT_STORE=postgres), shared across instances.
+
+export interface BucketConfig {
+  capacity: number;        // Burst size
+  refillPerMinute: number; // Sustained rate
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimitStore {
+  take(key: string, bucket: BucketConfig): Promise<TakeResult>;
+}
+
+// Overridable with RATE_LIMIT_TIERS / RATE_LIMIT_IP (JSON in the same shape)
+const DEFAULT_TIER_LIMITS: Record<string, BucketConfig> = {
+  free: { capacity: 10, refillPerMinute: 6 },
+  plus: { capacity: 30, refillPerMinute: 20 },
+  staff: { capacity: 100, refillPerMinute: 60 },
+};
+const DEFAULT_IP_LIMIT: BucketConfig = { capacity: 20, refillPerMinute: 12 };
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  async take(key: string, { capacity, refillPerMinute }: BucketConfig): Promise<TakeResult> {
+    const now = Date.now();
+    const refillPerMs = refillPerMinute / 60000;
+    const bucket = this.buckets.get(key) || { tokens: capacity, updatedAt: now };
+
+    const tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+
+    if (tokens >= 1) {
+      this.buckets.set(key, { tokens: tokens - 1, updatedAt: now });
+      return { allowed: true, remaining: Math.floor(tokens - 1), retryAfterSeconds: 0 };
+    }
+
+    this.buckets.set(key, { tokens, updatedAt: now });
+    return { allowed: false, remaining: 0, retryAfterSeconds: Math.ceil((1 - tokens) / refillPerMs / 1000) };
+  }
+}
+
+// Backed by the take_rate_limit_token function (supabase/migrations), which refills and takes atomically
+export class PostgresRateLimitStore implements RateLimitStore {
+  async take(key: string, { capacity, refillPerMinute }: BucketConfig): Promise<TakeResult> {
+    const { data, error } = await getSupabaseAdmin().rpc('take_rate_limit_token', {
+      p_key: key,
+      p_capacity: capacity,
+      p_refill_per_second: refillPerMinute / 60,
+    });
+
+    if (error) throw new Error(`Rate limit store error: ${error.message}`);
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      allowed: !!row?.allowed,
+      remaining: Math.max(0, Math.floor(row?.remaining ?? 0)),
+      retryAfterSeconds: Math.ceil(row?.retry_after_seconds ?? 0),
+    };
+  }
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+const getDefaultStore = (): RateLimitStore => {
+  if (!defaultStore) {
+    defaultStore = process.env.RATE_LIMIT_STORE === 'postgres'
+      ? new PostgresRateLimitStore()
+      : new MemoryRateLimitStore();
+  }
+  return defaultStore;
+};
+
+const parseLimits = <T>(raw: string | undefined, fallback: T): T => {
+  if (!raw) return fallback;
+  try {
+    return { ...fallback, ...JSON.parse(raw) };
+  } catch {
+    console.error('Invalid rate limit configuration, using defaults:', raw);
+    return fallback;
+  }
+};
+
+const getTierLimit = (tier: string) => {
+  const tiers = parseLimits(process.env.RATE_LIMIT_TIERS, DEFAULT_TIER_LIMITS);
+  return tiers[tier] || tiers.free;
+};
+
+/**
+ * The client IP as seen by Vercel's proxy
+ */
+export const getClientIp = (req: VercelRequest): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return first || req.socket?.remoteAddress || 'unknown';
+};
+
+/**
+ * Wrap an authenticated handler so requests over the user's or IP's limit get a 429 with Retry-After.
+ * If the store itself fails the request is let through, so a database outage doesn't take chat down.
+ */
+export const withRateLimit = (
+  handler: (req: AuthenticatedRequest, res: VercelResponse) => unknown,
+  store?: RateLimitStore
+) => async (req: AuthenticatedRequest, res: VercelResponse) => {
+  const limiter = store || getDefaultStore();
+
+  try {
+    const userLimit = await limiter.take(`user:${req.auth.userId}`, getTierLimit(req.auth.tier));
+    const ipLimit = userLimit.allowed
+      ? await limiter.take(`ip:${getClientIp(req)}`, parseLimits(process.env.RATE_LIMIT_IP, DEFAULT_IP_LIMIT))
+      : userLimit;
+
+    if (!userLimit.allowed || !ipLimit.allowed) {
+      const retryAfter = Math.max(1, userLimit.retryAfterSeconds, ipLimit.retryAfterSeconds);
+      return sendError(res, { code: 'rate_limited', error: 'Rate limit exceeded', retryAfter });
+    }
+
+    res.setHeader('X-RateLimit-Remaining', String(Math.min(userLimit.remaining, ipLimit.remaining)));
+  } catch (error) {
+    console.error('Rate limiter unavailable, allowing request:', error);
+  }
+
+  return handler(req, res);
+};
@@ -0,0 +1,172 @@
+import { createHash } from 'node:crypto';
+import type { ChatTurnOutput } from '../../services/chatPipeline.js';
+import type { Language } from '../../types.js';
+import { getCampusDataVersion, getUniversity } from '../../services/universityRegistry.js';
+import { getSupabaseAdmin } from './supabaseAdmin.js';
+
+// Answer cache for first-turn questions ("Where can I study late?" is asked constantly).
+// Keys combine the university, its campus-data version, the date (the prompt includes it), the reply
+// language and the normalized question, so editing campus data invalidates that university's entries automatically.
+// An in-memory LRU sits in front of an optional Postgres table (RESPONSE_CACHE_STORE=postgres).
+
+const DEFAULT_TTL_SECONDS = 6 * 60 * 60;
+const MAX_MEMORY_ENTRIES = 500;
+
+export type CacheStatus = 'HIT' | 'MISS' | 'BYPASS';
+
+export interface ResponseCacheEntry {
+  key: string;
+  universityId: string;
+  campusVersion: string;
+  question: string; // Normalized
+  response: ChatTurnOutput;
+  expiresAt: number; // Epoch ms
+}
+
+export interface ResponseCacheStore {
+  get(key: string): Promise<ResponseCacheEntry | null>;
+  set(entry: ResponseCacheEntry): Promise<void>;
+}
+
+// Map iteration order is insertion order, so re-inserting on read keeps the oldest entry first
+export class MemoryResponseCache implements ResponseCacheStore {
+  private entries = new Map<string, ResponseCacheEntry>();
+
+  constructor(private maxEntries: number = MAX_MEMORY_ENTRIES) {}
+
+  async get(key: string): Promise<ResponseCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return null;
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(entry: ResponseCacheEntry): Promise<void> {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+export class PostgresResponseCache implements ResponseCacheStore {
+  async get(key: string): Promise<ResponseCacheEntry | null> {
+    const { data, error } = await getSupabaseAdmin()
+      .from('response_cache')
+      .select('*')
+      .eq('key', key)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) throw new Error(`Response cache error: ${error.message}`);
+    if (!data) return null;
+
+    return {
+      key: data.key,
+      universityId: data.university_id,
+      campusVersion: data.campus_version,
+      question: data.question,
+      response: data.response,
+      expiresAt: new Date(data.expires_at).getTime(),
+    };
+  }
+
+  async set(entry: ResponseCacheEntry): Promise<void> {
+    const supabase = getSupabaseAdmin();
+
+    const { error } = await supabase.from('response_cache').upsert({
+      key: entry.key,
+      university_id: entry.universityId,
+      campus_version: entry.campusVersion,
+      question: entry.question,
+      response: entry.response,
+      expires_at: new Date(entry.expiresAt).toISOString(),
+    });
+    if (error) throw new Error(`Response cache error: ${error.message}`);
+
+    // Rows for older campus data can never be hit again
+    await supabase
+      .from('response_cache')
+      .delete()
+      .eq('university_id', entry.universityId)
+      .neq('campus_version', entry.campusVersion);
+  }
+}
+
+let memoryCache: MemoryResponseCache | null = null;
+let persistentCache: ResponseCacheStore | null | undefined;
+
+const getStores = (): ResponseCacheStore[] => {
+  memoryCache ||= new MemoryResponseCache();
+  if (persistentCache === undefined) {
+    persistentCache = process.env.RESPONSE_CACHE_STORE === 'postgres' ? new PostgresResponseCache() : null;
+  }
+  return persistentCache ? [memoryCache, persistentCache] : [memoryCache];
+};
+
+/**
+ * Normalize a question so trivial differences (case, punctuation, spacing, accents) share an entry.
+ * Letters and digits of every script are kept, so e.g. Chinese or Arabic questions stay distinct.
+ */
+export const normalizeQuestion = (question: string): string =>
+  question
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Only first-turn questions are cacheable - once the user has said something, the answer depends on it.
+ * A question with nothing left after normalizing (only punctuation or emoji) would share one key, so it isn't.
+ */
+export const isCacheableTurn = (userMessage: string, history: { sender: string }[]): boolean =>
+  process.env.RESPONSE_CACHE_DISABLED !== 'true' && !history.some(m => m.sender === 'user') && normalizeQuestion(userMessage) !== '';
+
+const getCacheKey = (universityId: string, userMessage: string, language: Language) => {
+  const university = getUniversity(universityId);
+  const campusVersion = getCampusDataVersion(university.id);
+  const question = normalizeQuestion(userMessage);
+  const today = new Date().toISOString().slice(0, 10);
+  const key = createHash('sha256').update(`${university.id}|${campusVersion}|${today}|${language}|${question}`).digest('hex');
+
+  return { key, universityId: university.id, campusVersion, question };
+};
+
+/**
+ * Look up a cached answer. A persistent hit is copied into the in-memory LRU.
+ */
+export const getCachedResponse = async (universityId: string, userMessage: string, language: Language): Promise<ChatTurnOutput | null> => {
+  const { key } = getCacheKey(universityId, userMessage, language);
+  const stores = getStores();
+
+  for (let i = 0; i < stores.length; i++) {
+    try {
+      const entry = await stores[i].get(key);
+      if (entry) {
+        if (i > 0) await stores[0].set(entry);
+        return entry.response;
+      }
+    } catch (error) {
+      console.error('Response cache lookup failed:', error);
+    }
+  }
+  return null;
+};
+
+/**
+ * Store an answer in every cache layer. Failures are logged, never surfaced to the user.
+ */
+export const setCachedResponse = async (universityId: string, userMessage: string, language: Language, response: ChatTurnOutput): Promise<void> => {
+  const ttlSeconds = Number(process.env.RESPONSE_CACHE_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+  const entry: ResponseCacheEntry = { ...getCacheKey(universityId, userMessage, language), response, expiresAt: Date.now() + ttlSeconds * 1000 };
+  await Promise.all(getStores().map(store => store.set(entry).catch(error => {
+    console.error('Response cache write failed:', error);
+  })));
+};
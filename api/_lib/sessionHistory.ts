@@ -0,0 +1,49 @@
+import { MAX_HISTORY_MESSAGES } from '../../services/inputFilter.js';
+import { getSupabaseAdmin } from './supabaseAdmin.js';
+
+// The conversation before a question, rebuilt for /api/chat from the stored session. Only AI replies the
+// server wrote itself are kept (messages.server_written), so the model never sees "ai" replies a client
+// saved - stopped partial answers, client-mode chats or made-up ones.
+
+export interface StoredHistoryMessage {
+  sender: string;
+  text: string;
+}
+
+/**
+ * The path through a user's session that ends at `parentId`, oldest first (empty for a question at the
+ * root). Null when the session doesn't exist or isn't theirs.
+ */
+export const loadSessionHistory = async (
+  userId: string,
+  sessionId: string,
+  parentId: string | null
+): Promise<StoredHistoryMessage[] | null> => {
+  const supabase = getSupabaseAdmin();
+
+  const { data: session, error: sessionError } = await supabase
+    .from('chat_sessions')
+    .select('id')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (sessionError) throw new Error(sessionError.message);
+  if (!session) return null;
+  if (!parentId) return [];
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, parent_id, sender, text, server_written, cancelled')
+    .eq('session_id', sessionId);
+
+  if (error) throw new Error(error.message);
+
+  const byId = new Map((data || []).map(m => [m.id, m]));
+  const path: StoredHistoryMessage[] = [];
+  for (let message = byId.get(parentId); message && path.length < MAX_HISTORY_MESSAGES; message = byId.get(message.parent_id)) {
+    if (message.sender === 'ai' && (!message.server_written || message.cancelled)) continue;
+    path.push({ sender: message.sender, text: message.text });
+  }
+  return path.reverse();
+};
@@ -0,0 +1,33 @@
+import type { SessionSummary, SessionSummaryStore } from '../../services/historyManager.js';
+import { getSupabaseAdmin } from './supabaseAdmin.js';
+
+// Server-side SessionSummaryStore on chat_sessions.summary, scoped to the signed-in user's sessions
+
+/**
+ * Create a summary store that only reads and writes sessions owned by userId
+ */
+export const createSessionSummaryStore = (userId: string): SessionSummaryStore => ({
+  async get(sessionId: string): Promise<SessionSummary | null> {
+    const { data, error } = await getSupabaseAdmin()
+      .from('chat_sessions')
+      .select('summary, summary_message_count, summary_fingerprint')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    return data?.summary
+      ? { text: data.summary, messageCount: data.summary_message_count, fingerprint: data.summary_fingerprint || undefined }
+      : null;
+  },
+
+  async set(sessionId: string, summary: SessionSummary): Promise<void> {
+    const { error } = await getSupabaseAdmin()
+      .from('chat_sessions')
+      .update({ summary: summary.text, summary_message_count: summary.messageCount, summary_fingerprint: summary.fingerprint || null })
+      .eq('id', sessionId)
+      .eq('user_id', userId);
+
+    if (error) throw new Error(error.message);
+  },
+});
@@ -0,0 +1,23 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+// Service-role Supabase client for API routes. Bypasses RLS, so it must never reach the browser.
+
+let client: SupabaseClient | null = null;
+
+/**
+ * Lazily create the server-side Supabase client
+ */
+export const getSupabaseAdmin = (): SupabaseClient => {
+  if (!client) {
+    const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !serviceRoleKey) {
+      throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be configured');
+    }
+
+    client = createClient(url, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+  }
+  return client;
+};
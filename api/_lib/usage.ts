@@ -0,0 +1,123 @@
+import type { LLMUsage } from '../../services/llm/types.js';
+import type { ApiErrorBody, Language, UsageQuota } from '../../types.js';
+import { getSupabaseAdmin } from './supabaseAdmin.js';
+
+// Token accounting and daily AI quotas for API routes. Every answered request is written to the
+// ai_usage table (supabase/migrations) with the tokens of all its model calls; before a request
+// reaches the model, the user's tokens since midnight UTC are checked against their tier's quota.
+
+export type UsageKind = 'chat' | 'eventSummary';
+
+// Tokens per user per day, by app_metadata.tier. Overridable with AI_DAILY_QUOTAS, e.g. '{"free":20000}'
+const DEFAULT_DAILY_QUOTAS: Record<string, number> = {
+  free: 50_000,
+  plus: 250_000,
+  staff: 1_000_000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getDailyQuota = (tier: string): number => {
+  let quotas = DEFAULT_DAILY_QUOTAS;
+  if (process.env.AI_DAILY_QUOTAS) {
+    try {
+      quotas = { ...DEFAULT_DAILY_QUOTAS, ...JSON.parse(process.env.AI_DAILY_QUOTAS) };
+    } catch {
+      console.error('Invalid AI quota configuration, using defaults:', process.env.AI_DAILY_QUOTAS);
+    }
+  }
+  return quotas[tier] ?? quotas.free;
+};
+
+const startOfUtcDay = (now: Date = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+/**
+ * The user's AI allowance for today
+ */
+export const getUsageQuota = async (userId: string, tier: string): Promise<UsageQuota> => {
+  const since = startOfUtcDay();
+  const { data, error } = await getSupabaseAdmin().rpc('get_ai_usage_total', {
+    p_user_id: userId,
+    p_since: since.toISOString(),
+  });
+
+  if (error) throw new Error(`Failed to read AI usage: ${error.message}`);
+
+  const limit = getDailyQuota(tier);
+  const used = Number(data) || 0;
+  return {
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    resetsAt: new Date(since.getTime() + DAY_MS).toISOString(),
+  };
+};
+
+/**
+ * Today's quota, or null when it has room left. If the usage table can't be read the request is let
+ * through, as with the rate limiter, so a database outage doesn't take the AI features down.
+ */
+export const getExceededQuota = async (userId: string, tier: string): Promise<UsageQuota | null> => {
+  try {
+    const quota = await getUsageQuota(userId, tier);
+    return quota.remaining > 0 ? null : quota;
+  } catch (error) {
+    console.error(`AI quota unavailable, allowing request (user ${userId}):`, error);
+    return null;
+  }
+};
+
+/**
+ * Seconds until the quota resets
+ */
+const secondsUntilReset = (quota: UsageQuota) =>
+  Math.max(1, Math.ceil((new Date(quota.resetsAt).getTime() - Date.now()) / 1000));
+
+/**
+ * Error for a user out of quota, with a friendly explanation in their language
+ */
+export const quotaExceededError = (quota: UsageQuota, language: Language): ApiErrorBody => {
+  const hours = Math.ceil(secondsUntilReset(quota) / 3600);
+  const text = language === 'fr'
+    ? `Vous avez atteint votre limite quotidienne d'IA. Elle se réinitialise ${hours <= 1 ? "d'ici une heure" : `dans environ ${hours} heures`} ; d'ici là, les onglets Événements, FAQ et Carte du campus restent disponibles.`
+    : `You've reached today's AI limit. It resets ${hours <= 1 ? 'within the hour' : `in about ${hours} hours`} - until then, the Events, FAQ and Campus Map tabs still work.`;
+  return { code: 'quota_exceeded', error: 'Daily quota exceeded', retryAfter: secondsUntilReset(quota), quota, text };
+};
+
+export interface UsageMeter {
+  onUsage: (usage: LLMUsage) => void; // Pass to createProvider so every model call is counted
+  record(entry: { universityId: string; kind: UsageKind; model?: string; cached?: boolean }): Promise<void>;
+}
+
+/**
+ * Count the tokens of one request's model calls and time it from now, for the signed-in user
+ */
+export const createUsageMeter = (userId: string): UsageMeter => {
+  const startedAt = Date.now();
+  const calls: LLMUsage[] = [];
+
+  return {
+    onUsage: (usage) => {
+      calls.push(usage);
+    },
+
+    async record({ universityId, kind, model, cached = false }) {
+      const { error } = await getSupabaseAdmin()
+        .from('ai_usage')
+        .insert({
+          user_id: userId,
+          university_id: universityId,
+          kind,
+          // The answering model; a request whose only calls were e.g. a title falls back to the last one used
+          model: model || calls[calls.length - 1]?.model || null,
+          prompt_tokens: calls.reduce((sum, call) => sum + call.promptTokens, 0),
+          response_tokens: calls.reduce((sum, call) => sum + call.responseTokens, 0),
+          latency_ms: Date.now() - startedAt,
+          cached,
+        });
+
+      if (error) throw new Error(error.message);
+    },
+  };
+};
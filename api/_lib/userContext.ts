@@ -0,0 +1,27 @@
+import { INITIAL_BADGES } from '../../constants.js';
+import { formatUserContext } from '../../services/userContext.js';
+import { getSupabaseAdmin } from './supabaseAdmin.js';
+
+// The USER CONTEXT block for /api/chat, read from user_stats so the client can't write into the system prompt
+
+/**
+ * Summarize the signed-in user's progress; undefined when they have no stats row yet
+ */
+export const loadUserContext = async (userId: string): Promise<string | undefined> => {
+  const { data, error } = await getSupabaseAdmin()
+    .from('user_stats')
+    .select('level, total_messages, topics_explored, badges_unlocked')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) return undefined;
+
+  const unlocked: string[] = data.badges_unlocked || [];
+  return formatUserContext({
+    level: data.level,
+    messagesCount: data.total_messages,
+    topicsExplored: data.topics_explored || [],
+    badges: INITIAL_BADGES.map((badge) => ({ ...badge, unlocked: unlocked.includes(badge.id) })),
+  });
+};
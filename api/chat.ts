@@ -1,236 +1,246 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai';
-import { DATA_UW, DATA_UOFT, DATA_MAC, DATA_WESTERN, DATA_QUEENS, DATA_TMU } from '../services/campusData.js';
-
-// Campus info for personas
-const CAMPUS_INFO: Record<string, { name: string; shortName: string; personaName: string; styleGuide: string }> = {
-  'uw': {
-    name: 'University of Waterloo',
-    shortName: 'Waterloo',
-    personaName: 'Davis Guide',
-    styleGuide: "You are friendly, witty, and tech-savvy. Make occasional jokes about geese, 'cali or bust', and engineering. Keep the tone casual and relatable to a stressed student."
-  },
-  'uoft': {
-    name: 'University of Toronto',
-    shortName: 'U of T',
-    personaName: 'Hart House Helper',
-    styleGuide: "You are formal, precise, and polite. Use a slightly sophisticated vocabulary. Emphasize academic excellence and tradition. Refer to the colleges (Trinity, Vic, etc.) when relevant."
-  },
-  'mac': {
-    name: 'McMaster University',
-    shortName: 'McMaster',
-    personaName: 'Marauder Mentor',
-    styleGuide: "You are high-energy, playful, and very supportive. Use exclamation points! Emphasize community, health, and nature (Cootes Paradise). You are a hype-person for the student."
-  },
-  'western': {
-    name: 'Western University',
-    shortName: 'Western',
-    personaName: 'Mustang Guide',
-    styleGuide: "You are proud, spirited, and energetic. Frequently mention 'Purple Pride'. Be helpful about social life as well as academics. Tone is confident and welcoming."
-  },
-  'queens': {
-    name: "Queen's University",
-    shortName: "Queen's",
-    personaName: "Gaels Guardian",
-    styleGuide: "You value tradition and community. Use the phrase 'Cha Gheill' occasionally. Be knowledgeable about student government and the close-knit campus culture. Tone is warm and traditional."
-  },
-  'tmu': {
-    name: 'Toronto Metropolitan University',
-    shortName: 'TMU',
-    personaName: 'Downtown Guide',
-    styleGuide: "You are fast-paced, urban, and savvy. You know the city as well as the campus. Tone is modern, direct, and practical. Emphasize the connection between campus and the city."
-  },
+import type { VercelResponse } from '@vercel/node';
+import { runChatTurn, type ChatTurnInput, type ChatTurnOutput } from '../services/chatPipeline.js';
+import { withAuth, type AuthenticatedRequest } from './_lib/auth.js';
+import { withRateLimit } from './_lib/rateLimit.js';
+import { getProvider } from './_lib/provider.js';
+import { getCachedResponse, isCacheableTurn, setCachedResponse, type CacheStatus } from './_lib/responseCache.js';
+import { saveChatTurn } from './_lib/chatPersistence.js';
+import { createSessionSummaryStore } from './_lib/sessionSummaries.js';
+import { createMapPinRejectionLog } from './_lib/mapPinRejections.js';
+import { createInputRejectionLog } from './_lib/inputRejections.js';
+import { loadUserContext } from './_lib/userContext.js';
+import { loadSessionHistory } from './_lib/sessionHistory.js';
+import { createUsageMeter, getExceededQuota, quotaExceededError } from './_lib/usage.js';
+import { describeProviderFailure, sendError } from './_lib/errors.js';
+import { parseLanguage, resolveReplyLanguage } from '../services/language.js';
+import { getChatImageError } from '../services/chatImages.js';
+import { refusalText, sanitizeHistory, screenChatInput } from '../services/inputFilter.js';
+import { getUniversity } from '../services/universityRegistry.js';
+import { classifyWellness } from '../services/wellness.js';
+import { suggestSessionTitle } from '../services/sessionTitles.js';
+import type { ChatImage } from '../types.js';
+
+// Write a single Server-Sent Event to the response
+const sendEvent = (res: VercelResponse, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 };
 
-// Get campus data by university ID
-const getCampusData = (universityId: string) => {
-  switch (universityId) {
-    case 'uw': return DATA_UW;
-    case 'uoft': return DATA_UOFT;
-    case 'mac': return DATA_MAC;
-    case 'western': return DATA_WESTERN;
-    case 'queens': return DATA_QUEENS;
-    case 'tmu': return DATA_TMU;
-    default: return DATA_UW;
-  }
+// Send SSE headers once; deferred until the first chunk so early failures can still be JSON errors
+const startEventStream = (res: VercelResponse) => {
+  if (res.headersSent) return;
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders?.();
 };
 
-// Initialize Gemini AI
-const getAI = () => {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY is not configured');
+// Only signed-in users with a confirmed email can chat (see _lib/auth.ts), within their rate limit
+export default withAuth(withRateLimit(async function handler(req: AuthenticatedRequest, res: VercelResponse) {
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return sendError(res, { code: 'invalid_request', error: 'Method not allowed' }, 405);
   }
-  return new GoogleGenerativeAI(apiKey);
-};
 
-// Retry utility with exponential backoff for 429 errors
-const retryWithBackoff = async <T>(
-  operation: () => Promise<T>,
-  retries: number = 3,
-  delay: number = 1000
-): Promise<T> => {
+  // The client closing the connection (Stop, or leaving the chat) cancels the model calls, and from then
+  // on nothing is saved or cached - the browser saves the stopped turn itself, with the text it got
+  const cancel = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) cancel.abort();
+  });
+
+  // Writes the request's usage to ai_usage once it is metered (see below); a no-op before that
+  let recordUsage = async (_cached?: boolean) => {};
+
   try {
-    return await operation();
-  } catch (error: any) {
-    const errorMsg = error.message || error.toString();
-    const isQuotaError = errorMsg.includes('429') || errorMsg.includes('quota');
+    // userContext in the body is ignored: the system prompt only gets progress read from user_stats
+    const { universityId, userMessage, history: rawHistory, stream, sessionId, parentId, retryOfMessageId, language: uiLanguage, image: rawImage } = req.body;
+    const branch = { parentId: parentId || null, retryOfMessageId: retryOfMessageId || undefined };
 
-    if (isQuotaError && retries > 0) {
-      console.warn(`[Gemini] Rate limit hit. Retrying in ${delay}ms... (${retries} retries left)`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return retryWithBackoff(operation, retries - 1, delay * 2);
+    if (!universityId || !userMessage || typeof userMessage !== 'string') {
+      return sendError(res, { code: 'invalid_request', error: 'Missing required fields' });
     }
 
-    throw error;
-  }
-};
-
-// Map response schema for structured output
-const mapResponseSchema = {
-  type: SchemaType.OBJECT,
-  properties: {
-    text: { type: SchemaType.STRING, description: "The conversational response text" },
-    mapLocation: {
-      type: SchemaType.OBJECT,
-      nullable: true,
-      description: "Location data for map display, if the user asks about a place",
-      properties: {
-        lat: { type: SchemaType.NUMBER },
-        lng: { type: SchemaType.NUMBER },
-        name: { type: SchemaType.STRING }
+    const imageError = rawImage ? getChatImageError(rawImage) : null;
+    if (imageError) {
+      return sendError(res, { code: 'invalid_request', error: imageError, reason: 'image' });
+    }
+    const image: ChatImage | undefined = rawImage ? { mimeType: rawImage.mimeType, data: rawImage.data } : undefined;
+
+    // A model-written title for a new session, once one is asked for (see below); otherwise the plain one
+    let sessionTitle: Promise<string | undefined> = Promise.resolve(undefined);
+
+    // Save both messages (creating the session if needed) and return their ids with the answer.
+    // If storage fails the student still gets the answer, just without ids. A cancelled turn isn't saved.
+    const persist = async (result: ChatTurnOutput) => {
+      const title = await sessionTitle;
+      cancel.signal.throwIfAborted();
+      try {
+        const saved = await saveChatTurn({ userId: req.auth.userId, sessionId: sessionId || null, universityId, userMessage, image, reply: result, branch, title });
+        return { ...result, ...saved };
+      } catch (error) {
+        console.error(`Failed to persist chat turn (user ${req.auth.userId}):`, error);
+        return result;
+      }
+    };
+
+    // Answer in the question's own language, or the student's UI language when it can't be told
+    const language = resolveReplyLanguage(userMessage, parseLanguage(uiLanguage));
+
+    // Distress gets the fixed wellness reply (see services/wellness.ts), so it is never cached
+    const wellness = classifyWellness(userMessage);
+
+    // Refuse over-long and prompt-injection messages before they reach the model or the database.
+    // Distress is never refused for its wording, but the length limit holds for every message.
+    const screened = screenChatInput(userMessage);
+    const rejection = wellness && screened?.reason === 'injection' ? null : screened;
+    if (rejection) {
+      try {
+        await createInputRejectionLog(req.auth.userId).record({ ...rejection, universityId, userMessage });
+      } catch (error) {
+        console.error(`Failed to log rejected chat input (user ${req.auth.userId}):`, error);
       }
+      return sendError(res, {
+        code: 'invalid_request',
+        error: 'Message rejected',
+        reason: rejection.reason,
+        text: refusalText(rejection, getUniversity(universityId).name, language),
+      });
     }
-  },
-  required: ["text"]
-};
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // Only allow POST
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
 
-  try {
-    const { universityId, userMessage, history, userContext } = req.body;
-
-    if (!universityId || !userMessage) {
-      return res.status(400).json({ error: 'Missing required fields' });
+    // Over today's AI quota: a friendly refusal until midnight UTC. The wellness reply is always given.
+    const exceeded = wellness ? null : await getExceededQuota(req.auth.userId, req.auth.tier);
+    if (exceeded) {
+      return sendError(res, quotaExceededError(exceeded, language));
     }
 
-    const ai = getAI();
-    const campusInfo = CAMPUS_INFO[universityId] || CAMPUS_INFO['uw'];
-    const campusData = getCampusData(universityId);
-    const dataContext = JSON.stringify(campusData, null, 2);
-
-    // Build system instruction - ENHANCED for better responses
-    const systemInstruction = `You are "${campusInfo.personaName}", an expert AI assistant for ${campusInfo.name} (${campusInfo.shortName}).
-
-CORE IDENTITY:
-You're like a knowledgeable upper-year student who genuinely wants to help. You know the campus inside-out: buildings, food spots, study areas, events, services, and student life.
-
-RESPONSE QUALITY RULES:
-1. **Be thorough but concise** - Target 150-300 words for most responses
-2. **Answer directly first** - No filler like "Great question!" or "Hey there!"
-3. **Be specific** - Use actual building names, room numbers, hours when relevant
-4. **Include practical tips** - What a real student would tell a friend
-5. **Format for readability** - Use bold, bullet points, and line breaks
-
-RESPONSE FORMATS (match to question type):
-
-📍 **Location questions** ("Where is X?"):
-→ Exact location, building, floor/room if known
-→ Nearby landmarks for reference
-→ Hours or access tips if relevant
-
-📋 **List questions** ("What are the best X?"):
-→ Give 3-5 specific options with brief descriptions
-→ Include why each is good, not just names
-
-❓ **How-to questions** ("How do I X?"):
-→ Clear step-by-step instructions
-→ Include links/offices to contact if applicable
-
-💡 **General questions**:
-→ Thorough answer with context
-→ Mention related resources the student might not know about
-
-NAVIGATION LINKS (include when relevant):
-- For event questions: "[View Campus Events →](/events)"
-- For prayer/meditation/faith: "[Explore Multi-Faith Spaces →](/multifaith)"
-
-CAMPUS KNOWLEDGE BASE (use this data to provide accurate, specific answers, but use your own knowledge when you don't have data):
-${dataContext}
-
-USER CONTEXT:
-${userContext || 'No additional context provided.'}
-
-PERSONALITY:
-${campusInfo.styleGuide}
+    // The conversation so far is read from the stored session: a new session has none, whatever the
+    // client sent. Its history is only a fallback when the database can't be read. Either way only plain
+    // user/ai turns without role markup are kept, and questions that try to inject instructions are dropped.
+    let turns: unknown = [];
+    if (sessionId) {
+      try {
+        turns = await loadSessionHistory(req.auth.userId, sessionId, branch.parentId) || [];
+      } catch (error) {
+        console.error(`Failed to load chat history, using the client's (user ${req.auth.userId}):`, error);
+        turns = rawHistory;
+      }
+    }
+    const history = sanitizeHistory(turns);
+
+    // Tokens, model and latency of the request go to ai_usage once it is answered - exactly once,
+    // however the request ends
+    const meter = createUsageMeter(req.auth.userId);
+    let answeredModel: string | undefined;
+    let usageRecorded = false;
+    recordUsage = async (cached = false) => {
+      if (usageRecorded) return;
+      usageRecorded = true;
+      try {
+        await meter.record({ universityId, kind: 'chat', model: answeredModel, cached });
+      } catch (error) {
+        console.error(`Failed to record AI usage (user ${req.auth.userId}):`, error);
+      }
+    };
+
+    const provider = getProvider(meter.onUsage);
+
+    // First-turn answers are shared between users, so they are generated without the personal context.
+    // Regenerating asks for a different answer, and a photo makes the question unique, so neither uses the cache.
+    const cacheable = !branch.retryOfMessageId && !image && !wellness && isCacheableTurn(userMessage, history);
+    const cached = cacheable ? await getCachedResponse(universityId, userMessage, language) : null;
+    const cacheStatus: CacheStatus = !cacheable ? 'BYPASS' : cached ? 'HIT' : 'MISS';
+    res.setHeader('X-Cache', cacheStatus);
+
+    if (cached) {
+      answeredModel = cached.model;
+      const reply = await persist(cached);
+      await recordUsage(true);
+      if (stream) {
+        startEventStream(res);
+        sendEvent(res, 'delta', { text: reply.text });
+        sendEvent(res, 'done', reply);
+        return res.end();
+      }
+      return res.status(200).json(reply);
+    }
 
-When asked about a PHYSICAL LOCATION on campus, include a mapLocation with approximate coordinates from the data above.
-If the question is not about a physical place, set mapLocation to null.
+    // A new session gets a model-written title, generated alongside the answer. Cached replies skip the
+    // model entirely, so they keep the plain title, as does a distress message.
+    if (!sessionId && !branch.retryOfMessageId && !wellness) {
+      sessionTitle = suggestSessionTitle({ provider, userMessage, language, signal: cancel.signal });
+    }
 
-Format with Markdown. **Bold key locations** and important terms.`;
+    // Personal context is read from the database, never taken from the request
+    let userContext: string | undefined;
+    if (!cacheable) {
+      try {
+        userContext = await loadUserContext(req.auth.userId);
+      } catch (error) {
+        console.error(`Failed to load user context (user ${req.auth.userId}):`, error);
+      }
+    }
 
-    // Build conversation history
-    const chatHistory = (history || []).map((msg: { sender: string; text: string }) => ({
-      role: msg.sender === 'user' ? 'user' : 'model',
-      parts: [{ text: msg.text }]
-    }));
+    const turn: ChatTurnInput = {
+      provider,
+      universityId,
+      userMessage,
+      image,
+      history,
+      sessionId: sessionId || null,
+      summaryStore: createSessionSummaryStore(req.auth.userId),
+      rejectionLog: createMapPinRejectionLog(req.auth.userId),
+      userContext,
+      language,
+      signal: cancel.signal,
+    };
+
+    // Plain markdown is streamed as SSE `delta` events; map pins arrive in the final `done` event
+    if (stream) {
+      const result = await runChatTurn({
+        ...turn,
+        onDelta: (delta) => {
+          startEventStream(res);
+          sendEvent(res, 'delta', { text: delta });
+        },
+      });
 
-    // Create the model with structured output
-    const model = ai.getGenerativeModel({
-      model: 'gemini-2.5-flash',
-      systemInstruction,
-      generationConfig: {
-        responseMimeType: "application/json",
-        responseSchema: mapResponseSchema as any,
-        temperature: 0.8,
-        maxOutputTokens: 1024,
-      }
-    });
-
-    // Start chat and send message with retry logic
-    const chat = model.startChat({ history: chatHistory });
-    const result = await retryWithBackoff(() => chat.sendMessage(userMessage));
-    const responseText = result.response.text();
-
-    // Parse JSON response
-    let parsedResponse;
-    try {
-      parsedResponse = JSON.parse(responseText);
-    } catch {
-      // If JSON parsing fails, return as plain text
-      parsedResponse = { text: responseText, mapLocation: null };
+      answeredModel = result.model;
+      cancel.signal.throwIfAborted();
+      const reply = await persist(result);
+      startEventStream(res);
+      sendEvent(res, 'done', reply);
+      await recordUsage();
+      // Cache before ending - Vercel may freeze the function once the response is finished
+      if (cacheable && result.text && !cancel.signal.aborted) await setCachedResponse(universityId, userMessage, language, result);
+      return res.end();
     }
 
-    return res.status(200).json(parsedResponse);
+    const result = await runChatTurn(turn);
+    answeredModel = result.model;
+    cancel.signal.throwIfAborted();
+    const reply = await persist(result);
+    await recordUsage();
+    if (cacheable && result.text && !cancel.signal.aborted) await setCachedResponse(universityId, userMessage, language, result);
+    return res.status(200).json(reply);
 
   } catch (error: any) {
-    console.error('Gemini API Error:', error);
+    // Tokens a failed or cancelled turn used before it ended still count toward the quota
+    await recordUsage();
 
-    const errorMessage = error.message || error.toString();
-
-    // Handle rate limiting
-    if (errorMessage.includes('429') || errorMessage.includes('quota')) {
-      return res.status(429).json({
-        error: 'Rate limit exceeded',
-        text: "I'm receiving too many requests right now. Please wait a moment and try again."
-      });
+    // Nobody is listening any more
+    if (cancel.signal.aborted) {
+      return res.end();
     }
-
-    // Handle missing API key
-    if (errorMessage.includes('GEMINI_API_KEY')) {
-      return res.status(500).json({
-        error: 'API key not configured',
-        text: "The AI service is not properly configured. Please contact support."
-      });
+    console.error(`Chat API Error (user ${req.auth.userId}):`, error);
+
+    // Only the error code leaves the server. Headers are already sent once a stream has started,
+    // so then the failure is reported in-band.
+    const failure = describeProviderFailure(error);
+    if (res.headersSent) {
+      sendEvent(res, 'error', failure);
+      return res.end();
     }
-
-    return res.status(500).json({
-      error: errorMessage,
-      text: `Error: ${errorMessage}`
-    });
+    return sendError(res, failure);
   }
-}
+}));
@@ -0,0 +1,54 @@
+import type { VercelResponse } from '@vercel/node';
+import { withAuth, type AuthenticatedRequest } from '../_lib/auth.js';
+import { withRateLimit } from '../_lib/rateLimit.js';
+import { getProvider } from '../_lib/provider.js';
+import { createUsageMeter, getExceededQuota, quotaExceededError } from '../_lib/usage.js';
+import { describeProviderFailure, sendError } from '../_lib/errors.js';
+import { summarizeEvents } from '../../services/eventSummary.js';
+import { DEFAULT_LANGUAGE, parseLanguage } from '../../services/language.js';
+import { getCampusData, getUniversity, isKnownUniversity } from '../../services/universityRegistry.js';
+
+// The Events tab briefing. Events come from the server's own campus data, not the request,
+// and the request counts toward the user's daily AI quota like a chat answer.
+export default withAuth(withRateLimit(async function handler(req: AuthenticatedRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return sendError(res, { code: 'invalid_request', error: 'Method not allowed' }, 405);
+  }
+
+  const { universityId, language: uiLanguage } = req.body || {};
+  if (typeof universityId !== 'string' || !isKnownUniversity(universityId)) {
+    return sendError(res, { code: 'invalid_request', error: 'Unknown university' });
+  }
+  const language = parseLanguage(uiLanguage) || DEFAULT_LANGUAGE;
+
+  const exceeded = await getExceededQuota(req.auth.userId, req.auth.tier);
+  if (exceeded) {
+    return sendError(res, quotaExceededError(exceeded, language));
+  }
+
+  // Tokens count toward the quota whether or not the summary was written
+  const meter = createUsageMeter(req.auth.userId);
+  const recordUsage = async () => {
+    try {
+      await meter.record({ universityId, kind: 'eventSummary' });
+    } catch (error) {
+      console.error(`Failed to record AI usage (user ${req.auth.userId}):`, error);
+    }
+  };
+
+  try {
+    const summary = await summarizeEvents({
+      provider: getProvider(meter.onUsage),
+      university: getUniversity(universityId),
+      events: getCampusData(universityId).events,
+      language,
+    });
+
+    await recordUsage();
+    return res.status(200).json({ summary });
+  } catch (error: any) {
+    console.error(`Event summary error (user ${req.auth.userId}):`, error);
+    await recordUsage();
+    return sendError(res, describeProviderFailure(error));
+  }
+}));
@@ -0,0 +1,18 @@
+import type { VercelResponse } from '@vercel/node';
+import { withAuth, type AuthenticatedRequest } from './_lib/auth.js';
+import { getUsageQuota } from './_lib/usage.js';
+import { sendError } from './_lib/errors.js';
+
+// The signed-in user's AI allowance for today, shown in the stats panel
+export default withAuth(async function handler(req: AuthenticatedRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return sendError(res, { code: 'invalid_request', error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    return res.status(200).json(await getUsageQuota(req.auth.userId, req.auth.tier));
+  } catch (error: any) {
+    console.error(`Usage quota error (user ${req.auth.userId}):`, error);
+    return sendError(res, { code: 'provider_unavailable', error: 'Usage unavailable' }, 500);
+  }
+});
@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { X, Zap, Map, MessageCircle, Award, Cpu, Calendar, Heart } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface Props {
   isOpen: boolean;
@@ -8,6 +9,7 @@ interface Props {
 }
 
 const AboutModal: React.FC<Props> = ({ isOpen, onClose }) => {
+  const { t, tRich } = useLanguage();
   if (!isOpen) return null;
 
   return (
@@ -19,7 +21,7 @@ const AboutModal: React.FC<Props> = ({ isOpen, onClose }) => {
         
         {/* Header */}
         <div className="flex justify-between items-center p-6 border-b border-white/10">
-          <h2 className="text-2xl font-bold text-white">About Campus Companion</h2>
+          <h2 className="text-2xl font-bold text-white">{t('about.title')}</h2>
           <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-md transition-colors">
             <X size={24} className="text-white/60" />
           </button>
@@ -28,8 +30,7 @@ const AboutModal: React.FC<Props> = ({ isOpen, onClose }) => {
         {/* Content */}
         <div className="p-6 overflow-y-auto">
           <p className="text-white/70 text-lg mb-8 leading-relaxed">
-            Campus Companion is your intelligent, interactive guide to university life, trained on YOUR universities data. 
-            Forget searching through outdated wikis or endless Reddit threads get instant, accurate answers about your specific campus.
+            {t('about.intro')}
           </p>
 
           <div className="grid md:grid-cols-2 gap-4 mb-8">
@@ -37,63 +38,62 @@ const AboutModal: React.FC<Props> = ({ isOpen, onClose }) => {
              <div className="p-4 bg-blue-500/10 rounded-md border border-blue-500/30">
                 <div className="flex items-center gap-3 mb-2">
                     <div className="p-2 bg-blue-500/20 rounded-md text-blue-400"><MessageCircle size={20} /></div>
-                    <h3 className="font-bold text-white">AI Personas</h3>
+                    <h3 className="font-bold text-white">{t('about.personas.title')}</h3>
                 </div>
-                <p className="text-sm text-white/60">Chat with distinct personalities for <strong className="text-white/80">UW, UofT, McMaster, Western, Queen's, and TMU</strong>.</p>
+                <p className="text-sm text-white/60">{tRich('about.personas.body', { universities: <strong className="text-white/80">{t('about.personas.universities')}</strong> })}</p>
              </div>
 
              <div className="p-4 bg-amber-500/10 rounded-md border border-amber-500/30">
                 <div className="flex items-center gap-3 mb-2">
                     <div className="p-2 bg-amber-500/20 rounded-md text-amber-400"><Award size={20} /></div>
-                    <h3 className="font-bold text-white">Gamification</h3>
+                    <h3 className="font-bold text-white">{t('about.gamification.title')}</h3>
                 </div>
-                <p className="text-sm text-white/60">Earn points, unlock badges (like "Night Owl"), and level up as you explore campus resources.</p>
+                <p className="text-sm text-white/60">{t('about.gamification.body')}</p>
              </div>
 
              <div className="p-4 bg-green-500/10 rounded-md border border-green-500/30">
                 <div className="flex items-center gap-3 mb-2">
                     <div className="p-2 bg-green-500/20 rounded-md text-green-400"><Map size={20} /></div>
-                    <h3 className="font-bold text-white">Interactive Maps</h3>
+                    <h3 className="font-bold text-white">{t('about.maps.title')}</h3>
                 </div>
-                <p className="text-sm text-white/60">Ask "Where is the library?" and get an embedded, interactive map pointing you exactly where to go.</p>
+                <p className="text-sm text-white/60">{t('about.maps.body')}</p>
              </div>
 
              <div className="p-4 bg-pink-500/10 rounded-md border border-pink-500/30">
                 <div className="flex items-center gap-3 mb-2">
                     <div className="p-2 bg-pink-500/20 rounded-md text-pink-400"><Calendar size={20} /></div>
-                    <h3 className="font-bold text-white">Event Alerts</h3>
+                    <h3 className="font-bold text-white">{t('about.events.title')}</h3>
                 </div>
-                <p className="text-sm text-white/60">Switch to the Events tab to see upcoming workshops and socials, summarized weekly by the AI.</p>
+                <p className="text-sm text-white/60">{t('about.events.body')}</p>
              </div>
              
              <div className="p-4 bg-red-500/10 rounded-md border border-red-500/30">
                 <div className="flex items-center gap-3 mb-2">
                     <div className="p-2 bg-red-500/20 rounded-md text-red-400"><Heart size={20} /></div>
-                    <h3 className="font-bold text-white">Multi-Faith Spaces</h3>
+                    <h3 className="font-bold text-white">{t('about.multifaith.title')}</h3>
                 </div>
-                <p className="text-sm text-white/60">Find prayer rooms, meditation spaces, and multi-faith centres on every supported campus.</p>
+                <p className="text-sm text-white/60">{t('about.multifaith.body')}</p>
              </div>
 
              <div className="p-4 bg-cyan-500/10 rounded-md border border-cyan-500/30">
                 <div className="flex items-center gap-3 mb-2">
                     <div className="p-2 bg-cyan-500/20 rounded-md text-cyan-400"><Map size={20} /></div>
-                    <h3 className="font-bold text-white">Campus Maps</h3>
+                    <h3 className="font-bold text-white">{t('about.campusMaps.title')}</h3>
                 </div>
-                <p className="text-sm text-white/60">Explore interactive campus maps with buildings, food spots, libraries, and key landmarks marked for easy navigation.</p>
+                <p className="text-sm text-white/60">{t('about.campusMaps.body')}</p>
              </div>
           </div>
 
           <div className="bg-white/5 border border-white/10 p-6 rounded-md">
             <h3 className="text-lg font-bold mb-4 flex items-center gap-2 text-white">
                 <Cpu size={20} className="text-purple-400" />
-                How it works
+                {t('about.howItWorks')}
             </h3>
             <p className="text-white/60 text-sm leading-relaxed mb-4">
-                Campus Companion uses <strong className="text-white/80">Google's Gemini 2.5 Flash</strong> model to process natural language queries. 
-                We inject structured campus data (libraries, hours, resources) directly into the AI's context, ensuring answers are factually accurate while maintaining a conversational tone.
+                {tRich('about.howItWorksBody', { model: <strong className="text-white/80">{t('about.model')}</strong> })}
             </p>
             <p className="text-white/40 text-xs">
-                Built with React, Tailwind CSS, and Leaflet.
+                {t('about.builtWith')}
             </p>
           </div>
 
@@ -102,7 +102,7 @@ const AboutModal: React.FC<Props> = ({ isOpen, onClose }) => {
         {/* Footer */}
         <div className="p-4 border-t border-white/10">
             <p className="text-xs text-white/40 text-center mb-4">
-              Created by{' '}
+              {t('common.createdBy')}{' '}
               <span className="relative inline-block group">
                 <a href="https://linkedin.com/in/abdullahrajput1" target="_blank" rel="noopener noreferrer" className="text-purple-400 hover:text-purple-300 transition-colors">@abrj7</a>
                 <span className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-3 py-2 bg-black/90 backdrop-blur-xl border border-white/20 rounded-md text-xs text-white opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none group-hover:pointer-events-auto whitespace-nowrap shadow-xl z-50">
@@ -122,14 +122,14 @@ const AboutModal: React.FC<Props> = ({ isOpen, onClose }) => {
                   </a>
                 </span>
               </span>
-              {' '}— software eng students @ uwaterloo
+              {' '}{t('about.creators')}
             </p>
             <div className="flex justify-end">
               <button 
                   onClick={onClose}
                   className="px-6 py-2 bg-white/10 hover:bg-white/20 border border-white/20 text-white rounded-md font-medium transition-colors"
               >
-                  Got it
+                  {t('about.gotIt')}
               </button>
             </div>
         </div>
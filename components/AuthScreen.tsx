@@ -3,6 +3,8 @@ import React, { useState } from 'react';
 import { login, register } from '../services/authService';
 import { GraduationCap, ArrowRight, Loader2, Mail, ArrowLeft, Lock, User, ChevronDown } from 'lucide-react';
 import Aurora from './Aurora';
+import LanguagePicker from './LanguagePicker';
+import { useLanguage } from '../contexts/LanguageContext';
 
 const UNIVERSITIES = [
   { id: 'uw', name: 'University of Waterloo', logo: '/logos/uw.png' },
@@ -27,6 +29,7 @@ const AuthScreen: React.FC<Props> = ({ onAuthSuccess }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [signupSuccess, setSignupSuccess] = useState(false);
   const [isUniDropdownOpen, setIsUniDropdownOpen] = useState(false);
+  const { t } = useLanguage();
 
   const selectedUni = UNIVERSITIES.find(u => u.id === universityId) || UNIVERSITIES[0];
 
@@ -42,11 +45,11 @@ const AuthScreen: React.FC<Props> = ({ onAuthSuccess }) => {
 
     if (!isLogin) {
       if (!validatePassword(password)) {
-        setError('Password must be at least 8 characters and include uppercase, lowercase, and a special character (!@#$%^&*).');
+        setError(t('auth.passwordInvalid'));
         return;
       }
       if (!name.trim()) {
-        setError('Please enter your name.');
+        setError(t('auth.nameRequired'));
         return;
       }
     }
@@ -64,7 +67,7 @@ const AuthScreen: React.FC<Props> = ({ onAuthSuccess }) => {
         setSignupSuccess(true);
       }
     } catch (err: any) {
-      setError(err.message || 'Something went wrong');
+      setError(err.message || t('auth.genericError'));
     } finally {
       setIsLoading(false);
     }
@@ -93,32 +96,32 @@ const AuthScreen: React.FC<Props> = ({ onAuthSuccess }) => {
           <div className="inline-flex items-center justify-center w-20 h-20 bg-green-500 text-white rounded-full mb-6 shadow-lg">
             <Mail size={40} />
           </div>
-          <h1 className="text-2xl font-bold text-white mb-3">Check Your Email!</h1>
+          <h1 className="text-2xl font-bold text-white mb-3">{t('auth.checkEmail')}</h1>
           <p className="text-white/70 mb-2">
-            We've sent a confirmation link to:
+            {t('auth.sentTo')}
           </p>
           <p className="text-white font-semibold mb-6 bg-white/10 rounded-md py-2 px-4 inline-block">
             {email}
           </p>
           <div className="bg-white/5 rounded-md p-4 mb-6 text-left">
             <p className="text-white/60 text-sm mb-2">
-              <strong className="text-white/80">Next steps:</strong>
+              <strong className="text-white/80">{t('auth.nextSteps')}</strong>
             </p>
             <ol className="text-white/60 text-sm space-y-1 list-decimal list-inside">
-              <li>Open the email from UniPilot</li>
-              <li>Click the confirmation link</li>
-              <li>Come back and log in!</li>
+              <li>{t('auth.step1')}</li>
+              <li>{t('auth.step2')}</li>
+              <li>{t('auth.step3')}</li>
             </ol>
           </div>
           <p className="text-white/40 text-xs mb-6">
-            Didn't receive it? Check your spam folder.
+            {t('auth.spamHint')}
           </p>
           <button
             onClick={handleBackToLogin}
             className="w-full py-3 bg-white/10 hover:bg-white/20 text-white rounded-md transition-all font-medium flex items-center justify-center gap-2"
           >
             <ArrowLeft size={18} />
-            Back to Login
+            {t('common.backToLogin')}
           </button>
         </div>
       </div>
@@ -136,12 +139,13 @@ const AuthScreen: React.FC<Props> = ({ onAuthSuccess }) => {
       />
 
       <div className="bg-black/60 backdrop-blur-xl w-full max-w-md p-8 rounded-md shadow-xl animate-in fade-in zoom-in-95 duration-300 border border-white/20 relative z-10">
+        <LanguagePicker className="absolute top-3 right-3" />
         <div className="text-center mb-8">
           <div className="inline-flex items-center justify-center w-16 h-16 bg-purple-600 text-white rounded-md mb-4 shadow-lg">
             <GraduationCap size={32} />
           </div>
           <h1 className="text-3xl font-bold text-white">UniPilot</h1>
-          <p className="text-white/60 mt-2">Your AI Co-Pilot for University Life</p>
+          <p className="text-white/60 mt-2">{t('auth.tagline')}</p>
         </div>
 
         <div className="flex bg-white/10 p-1 rounded-md mb-6">
@@ -149,13 +153,13 @@ const AuthScreen: React.FC<Props> = ({ onAuthSuccess }) => {
             onClick={() => { setIsLogin(true); setError(''); }}
             className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${isLogin ? 'bg-white/20 text-white shadow-sm' : 'text-white/60 hover:text-white'}`}
           >
-            Login
+            {t('auth.login')}
           </button>
           <button
             onClick={() => { setIsLogin(false); setError(''); }}
             className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${!isLogin ? 'bg-white/20 text-white shadow-sm' : 'text-white/60 hover:text-white'}`}
           >
-            Sign Up
+            {t('auth.signup')}
           </button>
         </div>
 
@@ -168,7 +172,7 @@ const AuthScreen: React.FC<Props> = ({ onAuthSuccess }) => {
 
           {!isLogin && (
             <div>
-              <label className="block text-sm font-medium text-white/80 mb-1">Full Name</label>
+              <label className="block text-sm font-medium text-white/80 mb-1">{t('auth.fullName')}</label>
               <div className="relative">
                 <User size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-white/40" />
                 <input
@@ -177,14 +181,14 @@ const AuthScreen: React.FC<Props> = ({ onAuthSuccess }) => {
                   value={name}
                   onChange={(e) => setName(e.target.value)}
                   className="w-full pl-10 pr-4 py-2.5 bg-white/10 border border-white/20 rounded-md focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all text-white placeholder-white/40"
-                  placeholder="John Doe"
+                  placeholder={t('auth.fullNamePlaceholder')}
                 />
               </div>
             </div>
           )}
 
           <div>
-            <label className="block text-sm font-medium text-white/80 mb-1">Email Address</label>
+            <label className="block text-sm font-medium text-white/80 mb-1">{t('auth.email')}</label>
             <div className="relative">
               <Mail size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-white/40" />
               <input
@@ -193,13 +197,13 @@ const AuthScreen: React.FC<Props> = ({ onAuthSuccess }) => {
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
                 className="w-full pl-10 pr-4 py-2.5 bg-white/10 border border-white/20 rounded-md focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all text-white placeholder-white/40"
-                placeholder="student@university.edu"
+                placeholder={t('auth.emailPlaceholder')}
               />
             </div>
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-white/80 mb-1">Password</label>
+            <label className="block text-sm font-medium text-white/80 mb-1">{t('auth.password')}</label>
             <div className="relative">
               <Lock size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-white/40" />
               <input
@@ -211,12 +215,12 @@ const AuthScreen: React.FC<Props> = ({ onAuthSuccess }) => {
                 placeholder="••••••••"
               />
             </div>
-            {!isLogin && <p className="text-xs text-white/40 mt-1">Min 8 chars, Upper, Lower, Special (!@#$)</p>}
+            {!isLogin && <p className="text-xs text-white/40 mt-1">{t('auth.passwordHint')}</p>}
           </div>
 
           {!isLogin && (
             <div>
-              <label className="block text-sm font-medium text-white/80 mb-1">Select University</label>
+              <label className="block text-sm font-medium text-white/80 mb-1">{t('auth.selectUniversity')}</label>
               <div className="relative">
                 <button
                   type="button"
@@ -273,7 +277,7 @@ const AuthScreen: React.FC<Props> = ({ onAuthSuccess }) => {
             {isLoading ? (
               <Loader2 className="animate-spin" size={20} />
             ) : (
-              isLogin ? 'Welcome Back' : 'Create Account'
+              isLogin ? t('auth.welcomeBack') : t('auth.createAccount')
             )}
             <span className="icon">
               <ArrowRight size={18} />
@@ -282,7 +286,7 @@ const AuthScreen: React.FC<Props> = ({ onAuthSuccess }) => {
         </form>
         
         <p className="text-xs text-white/40 text-center mt-6">
-          Created by{' '}
+          {t('common.createdBy')}{' '}
           <span className="relative inline-block group">
             <a href="https://linkedin.com/in/abdullahrajput1" target="_blank" rel="noopener noreferrer" className="text-purple-400 hover:text-purple-300 transition-colors">@abrj7</a>
             <span className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-3 py-2 bg-black/90 backdrop-blur-xl border border-white/20 rounded-md text-xs text-white opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none group-hover:pointer-events-auto whitespace-nowrap shadow-xl z-50">
@@ -302,7 +306,7 @@ const AuthScreen: React.FC<Props> = ({ onAuthSuccess }) => {
               </a>
             </span>
           </span>
-          . All rights reserved.
+          . {t('common.allRightsReserved')}
         </p>
       </div>
     </div>
@@ -2,20 +2,25 @@ import React, { useEffect, useRef, useState } from 'react';
 import ReactDOM from 'react-dom';
 import * as L from 'leaflet';
 import { MapPin, Maximize2, X, Navigation } from 'lucide-react';
-import { UniversityProfile } from '../types';
+import { MapPin as MapPinData, UniversityProfile } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface Props {
     university: UniversityProfile;
+    focusLocation?: MapPinData | null; // Centre on and label this location (e.g. from a citation chip)
 }
 
-const CampusMapTab: React.FC<Props> = ({ university }) => {
+const CampusMapTab: React.FC<Props> = ({ university, focusLocation }) => {
     const [isFullscreen, setIsFullscreen] = useState(false);
     const mapContainerRef = useRef<HTMLDivElement>(null);
     const fullscreenMapRef = useRef<HTMLDivElement>(null);
     const mapInstanceRef = useRef<L.Map | null>(null);
     const fullscreenMapInstanceRef = useRef<L.Map | null>(null);
+    const { t, tRich } = useLanguage();
 
     const [lat, lng] = university.campusCoordinates;
+    // Compared by value so a re-rendered parent doesn't rebuild the map
+    const focusKey = focusLocation ? `${focusLocation.lat},${focusLocation.lng},${focusLocation.name}` : '';
 
     const createMap = (container: HTMLDivElement, mapRef: React.MutableRefObject<L.Map | null>, zoom: number = 15) => {
         if (mapRef.current) {
@@ -31,7 +36,7 @@ const CampusMapTab: React.FC<Props> = ({ university }) => {
         }).addTo(map);
 
         // Add campus center marker
-        L.circleMarker([lat, lng], {
+        const campusMarker = L.circleMarker([lat, lng], {
             radius: 16,
             fillColor: '#8b5cf6',
             color: '#fff',
@@ -39,8 +44,23 @@ const CampusMapTab: React.FC<Props> = ({ university }) => {
             opacity: 1,
             fillOpacity: 0.9
         }).addTo(map)
-            .bindPopup(`<b>${university.campusName}</b><br/>${university.name}`)
-            .openPopup();
+            .bindPopup(`<b>${university.campusName}</b><br/>${university.name}`);
+
+        if (focusLocation) {
+            L.circleMarker([focusLocation.lat, focusLocation.lng], {
+                radius: 12,
+                fillColor: '#a78bfa',
+                color: '#fff',
+                weight: 3,
+                opacity: 1,
+                fillOpacity: 0.9
+            }).addTo(map)
+                .bindPopup(`<b>${focusLocation.name}</b>`)
+                .openPopup();
+            map.setView([focusLocation.lat, focusLocation.lng], 17);
+        } else {
+            campusMarker.openPopup();
+        }
 
         mapRef.current = map;
         return map;
@@ -64,7 +84,7 @@ const CampusMapTab: React.FC<Props> = ({ university }) => {
                 mapInstanceRef.current = null;
             }
         };
-    }, [lat, lng, university]);
+    }, [lat, lng, university, focusKey]);
 
     // Initialize fullscreen map when opened
     useEffect(() => {
@@ -83,7 +103,7 @@ const CampusMapTab: React.FC<Props> = ({ university }) => {
                 fullscreenMapInstanceRef.current = null;
             }
         };
-    }, [isFullscreen, lat, lng, university]);
+    }, [isFullscreen, lat, lng, university, focusKey]);
 
     // Handle escape key
     useEffect(() => {
@@ -111,10 +131,10 @@ const CampusMapTab: React.FC<Props> = ({ university }) => {
             <div className="mb-6">
                 <h2 className="text-2xl font-bold flex items-center gap-2 text-white">
                     <MapPin className="text-purple-400" />
-                    Campus Map
+                    {t('map.title')}
                 </h2>
                 <p className="text-sm mt-1 text-white/60">
-                    Explore {university.name} - {university.campusName}
+                    {t('map.subtitle', { university: university.name, campus: university.campusName })}
                 </p>
             </div>
 
@@ -129,7 +149,7 @@ const CampusMapTab: React.FC<Props> = ({ university }) => {
                     className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 backdrop-blur-md rounded-lg border border-white/20 text-white/80 hover:text-white transition-all text-sm"
                 >
                     <Navigation size={14} />
-                    Open in Google Maps
+                    {t('map.openInGoogleMaps')}
                 </button>
             </div>
 
@@ -141,7 +161,7 @@ const CampusMapTab: React.FC<Props> = ({ university }) => {
                 <button
                     onClick={() => setIsFullscreen(true)}
                     className="absolute top-3 right-3 p-2.5 bg-black/60 hover:bg-black/80 text-white rounded-lg backdrop-blur-sm transition-all opacity-0 group-hover:opacity-100 z-[1000]"
-                    title="View fullscreen"
+                    title={t('map.viewFullscreen')}
                 >
                     <Maximize2 size={18} />
                 </button>
@@ -154,7 +174,7 @@ const CampusMapTab: React.FC<Props> = ({ university }) => {
 
             {/* Help text */}
             <p className="mt-4 text-center text-white/40 text-xs">
-                Scroll or pinch to zoom • Click and drag to pan • Click expand for fullscreen
+                {t('map.help')}
             </p>
 
             {/* Fullscreen Modal */}
@@ -185,12 +205,12 @@ const CampusMapTab: React.FC<Props> = ({ university }) => {
                                 className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all text-sm"
                             >
                                 <Navigation size={16} />
-                                Open in Google Maps
+                                {t('map.openInGoogleMaps')}
                             </button>
                             <button
                                 onClick={() => setIsFullscreen(false)}
                                 className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all"
-                                title="Close (Esc)"
+                                title={t('map.closeFullscreen')}
                             >
                                 <X size={20} />
                             </button>
@@ -212,7 +232,7 @@ const CampusMapTab: React.FC<Props> = ({ university }) => {
 
                     {/* Footer hint */}
                     <div className="absolute bottom-0 left-0 right-0 p-3 bg-black/70 border-t border-white/10 text-center text-white/40 text-xs z-10">
-                        Press <kbd className="px-1.5 py-0.5 bg-white/10 rounded text-white/60">Esc</kbd> to close • Scroll to zoom • Drag to pan
+                        {tRich('map.fullscreenHint', { key: <kbd className="px-1.5 py-0.5 bg-white/10 rounded text-white/60">Esc</kbd> })}
                     </div>
                 </div>,
                 document.body
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { CampusEntryKind, CampusEntryRef, UniversityProfile } from '../types';
+import { MapPin, HelpCircle, Phone, Calendar, Heart, BookOpen } from 'lucide-react';
+import { getCampusData } from '../services/universityRegistry';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface Props {
+  citations: CampusEntryRef[];
+  university: UniversityProfile;
+  onSelect: (citation: CampusEntryRef) => void; // Opens the tab or map pin for the entry
+}
+
+const KIND_ICONS: Record<CampusEntryKind, React.ReactNode> = {
+  location: <MapPin size={12} />,
+  faq: <HelpCircle size={12} />,
+  resource: <Phone size={12} />,
+  event: <Calendar size={12} />,
+  multiFaithSpace: <Heart size={12} />,
+};
+
+const CitationChips: React.FC<Props> = ({ citations, university, onSelect }) => {
+  const { t, tOr } = useLanguage();
+  // Student services have no tab of their own, so their details open inline
+  const [openResource, setOpenResource] = useState<string | null>(null);
+  const resource = openResource
+    ? getCampusData(university.id).resources[Number(openResource.split(':')[1])]
+    : null;
+
+  const handleClick = (citation: CampusEntryRef) => {
+    if (citation.kind === 'resource') {
+      setOpenResource(openResource === citation.key ? null : citation.key);
+    } else {
+      onSelect(citation);
+    }
+  };
+
+  return (
+    <div className="px-1">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wide text-white/50 mr-1">
+          <BookOpen size={11} />
+          {t('citations.sources')}
+        </span>
+        {citations.map(citation => (
+          <button
+            key={citation.key}
+            onClick={() => handleClick(citation)}
+            title={t('citations.from', { kind: tOr(`citations.kind.${citation.kind}`, citation.kind), university: university.shortName })}
+            className={`inline-flex items-center gap-1 max-w-[14rem] px-2 py-1 rounded-md border text-xs transition-colors ${openResource === citation.key
+              ? 'bg-purple-500/40 border-purple-300/50 text-white'
+              : 'bg-white/10 hover:bg-white/20 border-white/20 text-white/80 hover:text-white'
+              }`}
+          >
+            <span className="flex-shrink-0 text-purple-300">{KIND_ICONS[citation.kind]}</span>
+            <span className="truncate">{citation.title}</span>
+          </button>
+        ))}
+      </div>
+
+      {resource && (
+        <div className="mt-2 p-3 rounded-md border border-white/20 bg-black/60 backdrop-blur-md text-xs text-white/80 animate-in fade-in">
+          <p className="font-semibold text-white">{resource.name}</p>
+          <p className="mt-1">{resource.description}</p>
+          <p className="mt-1 text-purple-300">{resource.contact}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CitationChips;
@@ -3,36 +3,43 @@ import React, { useState } from 'react';
 import { CampusEvent, UniversityProfile } from '../types';
 import { Calendar, MapPin, Clock, Sparkles } from 'lucide-react';
 import { generateEventSummary } from '../services/geminiService';
+import { ApiError } from '../services/apiService';
 import MarkdownRenderer from './MarkdownRenderer';
 import GlareHover from './GlareHover';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface Props {
   events: CampusEvent[];
   university: UniversityProfile;
+  focusIndex?: number; // Highlight and scroll to this event (e.g. from a citation chip)
 }
 
-const EventsTab: React.FC<Props> = ({ events, university }) => {
+const EventsTab: React.FC<Props> = ({ events, university, focusIndex }) => {
   const [summary, setSummary] = useState<string | null>(null);
   const [isLoadingSummary, setIsLoadingSummary] = useState(false);
+  const { language, t, tOr, formatEventDate, formatEventTime } = useLanguage();
 
-  // Clear summary when switching universities
+  // Clear summary when switching universities or languages
   React.useEffect(() => {
     setSummary(null);
     setIsLoadingSummary(false);
-  }, [university.id]);
+  }, [university.id, language]);
+
+  React.useEffect(() => {
+    if (focusIndex === undefined) return;
+    setTimeout(() => document.getElementById(`event-${focusIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 100);
+  }, [focusIndex]);
 
   const handleGenerateSummary = async () => {
     setIsLoadingSummary(true);
     try {
-      const text = await generateEventSummary(
-        university.name,
-        events,
-        university.personaName,
-        university.styleGuide
-      );
+      const text = await generateEventSummary(university, events, language);
       setSummary(text);
     } catch (e) {
-      setSummary("Sorry, I couldn't generate a summary right now.");
+      // A spent quota explains itself; anything else gets the generic apology
+      setSummary(e instanceof ApiError && e.code === 'quota_exceeded'
+        ? e.text || t('chatError.quota_exceeded')
+        : t('events.briefingFailed'));
     } finally {
       setIsLoadingSummary(false);
     }
@@ -55,9 +62,9 @@ const EventsTab: React.FC<Props> = ({ events, university }) => {
       <div className="mb-6">
         <h2 className="text-2xl font-bold text-white flex items-center gap-2">
           <Calendar className="text-purple-400" />
-          Upcoming Events
+          {t('events.title')}
         </h2>
-        <p className="text-white/60 text-sm mt-1">Don't miss out on what's happening at {university.shortName}.</p>
+        <p className="text-white/60 text-sm mt-1">{t('events.subtitle', { university: university.shortName })}</p>
       </div>
 
       {/* AI Summary Section */}
@@ -66,15 +73,15 @@ const EventsTab: React.FC<Props> = ({ events, university }) => {
           {!summary && !isLoadingSummary && (
             <div className="flex items-center justify-between">
               <div>
-                <h3 className="font-semibold text-white">Need a quick update?</h3>
-                <p className="text-xs text-white/60">Ask {university.personaName} to summarize the week.</p>
+                <h3 className="font-semibold text-white">{t('events.briefingTitle')}</h3>
+                <p className="text-xs text-white/60">{t('events.briefingPrompt', { persona: university.personaName })}</p>
               </div>
               <button
                 onClick={handleGenerateSummary}
                 className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-md font-medium hover:bg-purple-500 transition-all shadow-md active:scale-95"
               >
                 <Sparkles size={16} />
-                Get AI Briefing
+                {t('events.briefingButton')}
               </button>
             </div>
           )}
@@ -82,7 +89,7 @@ const EventsTab: React.FC<Props> = ({ events, university }) => {
           {isLoadingSummary && (
             <div className="flex items-center justify-center py-4 space-x-2 text-white/60">
               <Sparkles className="animate-pulse text-purple-400" size={20} />
-              <span className="text-sm font-medium">Generating insights...</span>
+              <span className="text-sm font-medium">{t('events.briefingLoading')}</span>
             </div>
           )}
 
@@ -90,7 +97,7 @@ const EventsTab: React.FC<Props> = ({ events, university }) => {
             <div className="animate-in fade-in duration-300">
               <div className="flex items-center gap-2 mb-2">
                 <Sparkles size={16} className="text-purple-400" />
-                <span className="text-xs font-bold text-purple-300 uppercase tracking-wider">AI Insight from {university.personaName}</span>
+                <span className="text-xs font-bold text-purple-300 uppercase tracking-wider">{t('events.briefingHeading', { persona: university.personaName })}</span>
               </div>
               <MarkdownRenderer content={summary} textColorClass="text-white" />
             </div>
@@ -102,12 +109,12 @@ const EventsTab: React.FC<Props> = ({ events, university }) => {
       <div className="space-y-4">
         {events.length === 0 ? (
           <div className="text-center py-10 text-white/40">
-            <p>No upcoming events found.</p>
+            <p>{t('events.empty')}</p>
           </div>
         ) : (
-          events.map(event => (
+          events.map((event, index) => (
+            <div key={event.id} id={`event-${index}`} className={index === focusIndex ? 'rounded-lg ring-2 ring-purple-400' : ''}>
             <GlareHover
-              key={event.id}
               background="rgba(0, 0, 0, 0.6)"
               borderRadius="8px"
               borderColor="rgba(255, 255, 255, 0.2)"
@@ -118,9 +125,9 @@ const EventsTab: React.FC<Props> = ({ events, university }) => {
                 <div className="flex justify-between items-start mb-2">
                   <div className="flex items-center gap-2">
                     <span className={`text-xs font-bold px-2 py-0.5 rounded-md border ${getCategoryColor(event.category)}`}>
-                      {event.category}
+                      {tOr(`events.category.${event.category}`, event.category)}
                     </span>
-                    <span className="text-xs font-semibold text-white/60 uppercase tracking-wide">{event.date}</span>
+                    <span className="text-xs font-semibold text-white/60 uppercase tracking-wide">{formatEventDate(event.date)}</span>
                   </div>
                 </div>
 
@@ -130,7 +137,7 @@ const EventsTab: React.FC<Props> = ({ events, university }) => {
                 <div className="flex items-center gap-4 text-xs text-white/50">
                   <div className="flex items-center gap-1">
                     <Clock size={14} />
-                    <span>{event.time}</span>
+                    <span>{formatEventTime(event.time)}</span>
                   </div>
                   <div className="flex items-center gap-1">
                     <MapPin size={14} />
@@ -139,6 +146,7 @@ const EventsTab: React.FC<Props> = ({ events, university }) => {
                 </div>
               </div>
             </GlareHover>
+            </div>
           ))
         )}
       </div>
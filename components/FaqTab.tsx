@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { UniversityProfile } from '../types';
 import { HelpCircle, ChevronDown, ChevronUp, Search } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface FaqItem {
     question: string;
@@ -10,11 +11,21 @@ interface FaqItem {
 interface Props {
     faq: FaqItem[];
     university: UniversityProfile;
+    focusIndex?: number; // Open and scroll to this FAQ (e.g. from a citation chip)
 }
 
-const FaqTab: React.FC<Props> = ({ faq, university }) => {
+const FaqTab: React.FC<Props> = ({ faq, university, focusIndex }) => {
     const [openIndex, setOpenIndex] = useState<number | null>(null);
     const [searchQuery, setSearchQuery] = useState('');
+    const { t } = useLanguage();
+
+    useEffect(() => {
+        if (focusIndex === undefined) return;
+        // With no search, list positions match the FAQ indices
+        setSearchQuery('');
+        setOpenIndex(focusIndex);
+        setTimeout(() => document.getElementById(`faq-${focusIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 100);
+    }, [focusIndex]);
 
     const toggleFaq = (index: number) => {
         setOpenIndex(openIndex === index ? null : index);
@@ -31,10 +42,10 @@ const FaqTab: React.FC<Props> = ({ faq, university }) => {
             <div className="mb-6">
                 <h2 className="text-2xl font-bold flex items-center gap-2 text-white">
                     <HelpCircle className="text-white/80" />
-                    Frequently Asked Questions
+                    {t('faq.title')}
                 </h2>
                 <p className="text-sm mt-1 text-white/60">
-                    Quick answers to common questions about {university.shortName}.
+                    {t('faq.subtitle', { university: university.shortName })}
                 </p>
             </div>
 
@@ -44,7 +55,7 @@ const FaqTab: React.FC<Props> = ({ faq, university }) => {
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-white/50" size={18} />
                     <input
                         type="text"
-                        placeholder="Search FAQs..."
+                        placeholder={t('faq.searchPlaceholder')}
                         value={searchQuery}
                         onChange={(e) => setSearchQuery(e.target.value)}
                         className="w-full pl-10 pr-4 py-3 rounded-md border border-white/20 bg-white/10 backdrop-blur-md text-white placeholder-white/50 focus:outline-none focus:border-white/40 transition-colors"
@@ -57,7 +68,7 @@ const FaqTab: React.FC<Props> = ({ faq, university }) => {
                 {filteredFaq.length === 0 ? (
                     <div className="text-center py-10 text-white/40">
                         <HelpCircle size={40} className="mx-auto mb-3 opacity-30" />
-                        <p>No FAQs found matching your search.</p>
+                        <p>{t('faq.empty')}</p>
                     </div>
                 ) : (
                     filteredFaq.map((item, index) => {
@@ -65,6 +76,7 @@ const FaqTab: React.FC<Props> = ({ faq, university }) => {
                         return (
                             <div
                                 key={index}
+                                id={`faq-${index}`}
                                 className={`rounded-md border border-white/20 overflow-hidden transition-all bg-white/10 backdrop-blur-md ${isOpen ? 'shadow-lg' : ''}`}
                             >
                                 <button
@@ -98,9 +110,9 @@ const FaqTab: React.FC<Props> = ({ faq, university }) => {
             {filteredFaq.length > 0 && (
                 <div className="mt-6 text-center text-xs text-white/40">
                     {searchQuery ? (
-                        <span>Showing {filteredFaq.length} of {faq.length} FAQs</span>
+                        <span>{t('faq.showing', { count: filteredFaq.length, total: faq.length })}</span>
                     ) : (
-                        <span>{faq.length} FAQs available</span>
+                        <span>{t('faq.available', { count: faq.length })}</span>
                     )}
                 </div>
             )}
@@ -0,0 +1,69 @@
+import React from 'react';
+import { ThumbsUp, ThumbsDown } from 'lucide-react';
+import { FeedbackReason, MessageFeedback } from '../types';
+import { FEEDBACK_REASONS } from '../services/feedbackService';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface Props {
+  feedback?: MessageFeedback;
+  onChange: (feedback: MessageFeedback | null) => void; // null clears the rating
+}
+
+// Thumbs up/down for an AI answer; a thumbs down can be explained with reason tags.
+// Rendered inside a wrapping flex row, so the tags fall onto their own line.
+const FeedbackControls: React.FC<Props> = ({ feedback, onChange }) => {
+  const { t, tOr } = useLanguage();
+  const rate = (rating: 1 | -1) => {
+    onChange(feedback?.rating === rating ? null : { rating, reasons: [] });
+  };
+
+  const toggleReason = (reason: FeedbackReason) => {
+    const reasons = feedback?.reasons || [];
+    onChange({
+      rating: -1,
+      reasons: reasons.includes(reason) ? reasons.filter(r => r !== reason) : [...reasons, reason],
+    });
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => rate(1)}
+        title={t('feedback.good')}
+        className={`p-1 rounded transition-colors hover:bg-white/10 ${feedback?.rating === 1 ? 'text-green-400' : 'hover:text-white'}`}
+      >
+        <ThumbsUp size={13} className={feedback?.rating === 1 ? 'fill-current' : ''} />
+      </button>
+      <button
+        onClick={() => rate(-1)}
+        title={t('feedback.bad')}
+        className={`p-1 rounded transition-colors hover:bg-white/10 ${feedback?.rating === -1 ? 'text-red-400' : 'hover:text-white'}`}
+      >
+        <ThumbsDown size={13} className={feedback?.rating === -1 ? 'fill-current' : ''} />
+      </button>
+
+      {feedback?.rating === -1 && (
+        <div className="basis-full flex flex-wrap items-center gap-1.5 pt-1 animate-in fade-in">
+          <span className="text-[10px] font-bold uppercase tracking-wide text-white/50 mr-1">{t('feedback.whatWentWrong')}</span>
+          {FEEDBACK_REASONS.map(reason => {
+            const selected = feedback.reasons.includes(reason.id);
+            return (
+              <button
+                key={reason.id}
+                onClick={() => toggleReason(reason.id)}
+                className={`px-2 py-0.5 rounded-md border text-xs transition-colors ${selected
+                  ? 'bg-red-500/30 border-red-300/50 text-white'
+                  : 'bg-white/10 hover:bg-white/20 border-white/20 text-white/70 hover:text-white'
+                  }`}
+              >
+                {tOr(`feedback.reason.${reason.id}`, reason.label)}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default FeedbackControls;
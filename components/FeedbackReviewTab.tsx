@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { CampusData, CampusEntryRef, UniversityProfile } from '../types';
+import { ThumbsDown, RefreshCw, Database, Wrench, ChevronDown, ChevronUp } from 'lucide-react';
+import { FEEDBACK_REASONS, FeedbackReviewItem, getFeedbackReviewQueue } from '../services/feedbackService';
+import { getCampusData, getUniversity } from '../services/universityRegistry';
+import MarkdownRenderer from './MarkdownRenderer';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface Props {
+  university: UniversityProfile;
+}
+
+type Translate = ReturnType<typeof useLanguage>['t'];
+
+const reasonLabel = (id: string) => FEEDBACK_REASONS.find(r => r.id === id)?.label || id;
+
+// What the campus data says today for an entry the answer used. Entries are stored by position,
+// so a title mismatch means the data was edited since the answer was given.
+const describeEntry = (campusData: CampusData, ref: CampusEntryRef, t: Translate): string => {
+  const index = Number(ref.key.split(':')[1]);
+  const changed = t('review.entryChanged');
+  switch (ref.kind) {
+    case 'location': {
+      const l = campusData.locations[index];
+      return l?.name === ref.title ? `${l.description}${l.hours ? ` · ${t('review.hours', { hours: l.hours })}` : ''}` : changed;
+    }
+    case 'faq': {
+      const f = campusData.faq[index];
+      return f?.question === ref.title ? f.answer : changed;
+    }
+    case 'resource': {
+      const r = campusData.resources[index];
+      return r?.name === ref.title ? `${r.description} · ${r.contact}` : changed;
+    }
+    case 'event': {
+      const e = campusData.events[index];
+      return e?.title === ref.title ? `${e.date}, ${e.time} · ${e.location}` : changed;
+    }
+    case 'multiFaithSpace': {
+      const m = campusData.multiFaithSpaces[index];
+      return m?.name === ref.title ? `${m.location} · ${m.hours}` : changed;
+    }
+  }
+};
+
+const ReviewCard: React.FC<{ item: FeedbackReviewItem }> = ({ item }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { t, tOr, formatDate } = useLanguage();
+  const campusData = getCampusData(item.universityId);
+  const entries = item.context?.entries || [];
+  const toolCalls = item.context?.toolCalls || [];
+
+  return (
+    <div className="p-5 rounded-md border border-white/20 bg-black/60 backdrop-blur-md text-white">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-white/60">
+        <ThumbsDown size={14} className="text-red-400" />
+        <span className="font-semibold text-white/80">{getUniversity(item.universityId).shortName}</span>
+        <span>{t('review.rated', { date: formatDate(item.ratedAt, { dateStyle: 'medium', timeStyle: 'short' }) })}</span>
+        {item.model && <span>{t('review.model', { model: item.model })}</span>}
+        {item.reasons.map(reason => (
+          <span key={reason} className="px-2 py-0.5 rounded-md border border-red-300/40 bg-red-500/20 text-white">
+            {tOr(`feedback.reason.${reason}`, reasonLabel(reason))}
+          </span>
+        ))}
+      </div>
+
+      <p className="mt-3 text-[10px] font-bold uppercase tracking-wide text-white/50">{t('review.question')}</p>
+      <p className="mt-1 text-sm font-medium">{item.question || t('review.questionMissing')}</p>
+
+      <p className="mt-3 text-[10px] font-bold uppercase tracking-wide text-white/50">{t('review.answer')}</p>
+      <div className={`mt-1 text-sm overflow-hidden ${isExpanded ? '' : 'max-h-40'}`}>
+        <MarkdownRenderer content={item.answer} />
+      </div>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="mt-1 flex items-center gap-1 text-xs text-purple-300 hover:text-purple-200"
+      >
+        {isExpanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+        {isExpanded ? t('review.showLess') : t('review.showFullAnswer')}
+      </button>
+
+      <p className="mt-4 flex items-center gap-1 text-[10px] font-bold uppercase tracking-wide text-white/50">
+        <Database size={11} />
+        {t('review.contextUsed')}
+      </p>
+      {!item.context ? (
+        <p className="mt-1 text-xs text-white/50">{t('review.contextMissing')}</p>
+      ) : entries.length === 0 && toolCalls.length === 0 ? (
+        <p className="mt-1 text-xs text-white/50">{t('review.contextEmpty')}</p>
+      ) : (
+        <ul className="mt-1 space-y-1.5">
+          {entries.map(entry => (
+            <li key={entry.key} className="text-xs">
+              <span className="font-semibold text-white/90">{entry.title}</span>
+              <span className="text-white/40"> · {tOr(`citations.kind.${entry.kind}`, entry.kind)} · {t('review.score', { score: entry.score.toFixed(2) })}</span>
+              {item.citations.some(c => c.key === entry.key) && <span className="ml-1 text-purple-300">{t('review.cited')}</span>}
+              <p className="text-white/60">{describeEntry(campusData, entry, t)}</p>
+            </li>
+          ))}
+          {toolCalls.map((call, i) => (
+            <li key={`${call.name}-${i}`} className="text-xs text-white/70">
+              <Wrench size={11} className="inline mr-1 text-white/50" />
+              <span className="font-mono">{call.name}({JSON.stringify(call.args)})</span>
+              <span className="text-white/50"> → {call.matches.length > 0 ? call.matches.map(m => m.title).join(', ') : t('review.noMatches')}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const FeedbackReviewTab: React.FC<Props> = ({ university }) => {
+  const [items, setItems] = useState<FeedbackReviewItem[]>([]);
+  const [allUniversities, setAllUniversities] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useLanguage();
+
+  const load = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setItems(await getFeedbackReviewQueue(allUniversities ? undefined : university.id));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t('review.loadFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [university.id, allUniversities]);
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 pb-20">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2 text-white">
+            <ThumbsDown className="text-white/80" />
+            {t('review.title')}
+          </h2>
+          <p className="text-sm mt-1 text-white/60">
+            {t('review.subtitle')}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-xs text-white/70 cursor-pointer">
+            <input type="checkbox" checked={allUniversities} onChange={e => setAllUniversities(e.target.checked)} />
+            {t('review.allUniversities')}
+          </label>
+          <button
+            onClick={load}
+            disabled={isLoading}
+            title={t('review.refresh')}
+            className="p-2 rounded-md bg-white/10 hover:bg-white/20 border border-white/20 text-white transition-colors disabled:opacity-40"
+          >
+            <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-300">{error}</p>
+      ) : isLoading ? (
+        <p className="text-sm text-white/60">{t('review.loading')}</p>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-white/60">
+          {allUniversities ? t('review.empty') : t('review.emptyFor', { university: university.shortName })}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {items.map(item => <ReviewCard key={item.feedbackId} item={item} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FeedbackReviewTab;
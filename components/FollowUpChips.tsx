@@ -0,0 +1,26 @@
+import React from 'react';
+import { CornerDownRight } from 'lucide-react';
+
+interface Props {
+  suggestions: string[];
+  disabled?: boolean;
+  onSelect: (question: string) => void; // Sends the question as the student's next message
+}
+
+const FollowUpChips: React.FC<Props> = ({ suggestions, disabled, onSelect }) => (
+  <div className="flex flex-wrap gap-2 -mt-3 mb-6 ml-12 animate-in fade-in">
+    {suggestions.map(question => (
+      <button
+        key={question}
+        onClick={() => onSelect(question)}
+        disabled={disabled}
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-md transition-colors bg-white/20 hover:bg-white/30 text-white backdrop-blur-md border border-white/30 shadow-lg disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        <CornerDownRight size={12} className="text-white/60" />
+        {question}
+      </button>
+    ))}
+  </div>
+);
+
+export default FollowUpChips;
@@ -1,15 +1,18 @@
 
 import React from 'react';
-import { UserStats } from '../types';
-import { Trophy, Star, X } from 'lucide-react';
+import { UserStats, UsageQuota } from '../types';
+import { Trophy, Star, X, Gauge } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface Props {
   stats: UserStats;
   isOpen: boolean;
   onClose: () => void;
+  quota?: UsageQuota | null; // Daily AI allowance (signed-in backend mode only)
 }
 
-const GamificationPanel: React.FC<Props> = ({ stats, isOpen, onClose }) => {
+const GamificationPanel: React.FC<Props> = ({ stats, isOpen, onClose, quota }) => {
+  const { language, t, tOr, formatDate } = useLanguage();
   if (!isOpen) return null;
 
   const nextLevelPoints = stats.level * 50;
@@ -26,6 +29,7 @@ const GamificationPanel: React.FC<Props> = ({ stats, isOpen, onClose }) => {
   };
 
   const topics = getTopics();
+  const quotaLeft = quota && quota.limit > 0 ? Math.round(quota.remaining / quota.limit * 100) : 0;
 
   return (
     <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex justify-end transition-opacity">
@@ -34,7 +38,7 @@ const GamificationPanel: React.FC<Props> = ({ stats, isOpen, onClose }) => {
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-2xl font-bold text-white flex items-center gap-2">
               <Trophy className="text-yellow-400" />
-              Student Progress
+              {t('stats.title')}
             </h2>
             <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-md transition-colors">
               <X size={24} className="text-white/60" />
@@ -45,19 +49,19 @@ const GamificationPanel: React.FC<Props> = ({ stats, isOpen, onClose }) => {
           <div className="bg-gradient-to-br from-purple-600/80 to-indigo-700/80 backdrop-blur-md rounded-md p-6 text-white mb-8 shadow-lg border border-white/20">
             <div className="flex justify-between items-end mb-2">
               <div>
-                <p className="text-white/70 font-medium">Current Level</p>
+                <p className="text-white/70 font-medium">{t('stats.currentLevel')}</p>
                 <p className="text-4xl font-bold">{stats.level}</p>
               </div>
               <div className="text-right">
                 <p className="text-2xl font-bold">{stats.experience}</p>
-                <p className="text-white/70 text-sm">Total XP</p>
+                <p className="text-white/70 text-sm">{t('stats.totalXp')}</p>
               </div>
             </div>
 
             {/* Progress Bar */}
             <div className="mt-4">
               <div className="flex justify-between text-xs mb-1 opacity-80">
-                <span>Progress to Level {stats.level + 1}</span>
+                <span>{t('stats.progressTo', { level: stats.level + 1 })}</span>
                 <span>{Math.round(progress)}%</span>
               </div>
               <div className="h-3 bg-black/30 rounded-full overflow-hidden">
@@ -69,8 +73,34 @@ const GamificationPanel: React.FC<Props> = ({ stats, isOpen, onClose }) => {
             </div>
           </div>
 
+          {/* Daily AI allowance */}
+          {quota && (
+            <div className="rounded-md p-4 mb-8 border border-white/20 bg-white/5 text-white">
+              <div className="flex justify-between items-center text-sm mb-2">
+                <span className="font-semibold flex items-center gap-2">
+                  <Gauge size={16} className="text-purple-300" />
+                  {t('stats.quota.title')}
+                </span>
+                <span>{t('stats.quota.remaining', { percent: quotaLeft })}</span>
+              </div>
+              <div className="h-2 bg-black/30 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-500 ${quotaLeft > 20 ? 'bg-green-400' : 'bg-red-400'}`}
+                  style={{ width: `${quotaLeft}%` }}
+                />
+              </div>
+              <div className="flex justify-between text-xs text-white/50 mt-2">
+                <span>{t('stats.quota.used', { used: quota.used.toLocaleString(language), limit: quota.limit.toLocaleString(language) })}</span>
+                <span>{t('stats.quota.resets', { time: formatDate(new Date(quota.resetsAt), { timeStyle: 'short' }) })}</span>
+              </div>
+              {quota.remaining <= 0 && (
+                <p className="text-xs text-red-300 mt-2">{t('stats.quota.exhausted')}</p>
+              )}
+            </div>
+          )}
+
           {/* Badges Grid */}
-          <h3 className="text-lg font-semibold text-white mb-4">Achievements</h3>
+          <h3 className="text-lg font-semibold text-white mb-4">{t('stats.achievements')}</h3>
           <div className="grid grid-cols-2 gap-4">
             {stats.badges.map((badge) => (
               <div
@@ -81,10 +111,10 @@ const GamificationPanel: React.FC<Props> = ({ stats, isOpen, onClose }) => {
                   }`}
               >
                 <div className="text-3xl mb-2">{badge.icon}</div>
-                <p className="font-bold text-white text-sm">{badge.name}</p>
-                <p className="text-xs text-white/60 mt-1">{badge.description}</p>
+                <p className="font-bold text-white text-sm">{tOr(`badge.${badge.id}.name`, badge.name)}</p>
+                <p className="text-xs text-white/60 mt-1">{tOr(`badge.${badge.id}.description`, badge.description)}</p>
                 {!badge.unlocked && (
-                  <p className="text-[10px] text-white/40 mt-2 italic">Locked: {badge.conditionDescription}</p>
+                  <p className="text-[10px] text-white/40 mt-2 italic">{t('stats.locked', { condition: tOr(`badge.${badge.id}.condition`, badge.conditionDescription) })}</p>
                 )}
               </div>
             ))}
@@ -0,0 +1,88 @@
+import React, { useRef } from 'react';
+import { Camera } from 'lucide-react';
+import { ChatImage } from '../types';
+import { base64ByteLength, MAX_CHAT_IMAGE_BYTES, MAX_CHAT_IMAGE_DIMENSION } from '../services/chatImages';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface Props {
+  disabled?: boolean;
+  onAttach: (image: ChatImage) => void;
+  onError: (message: string) => void;
+}
+
+const MAX_SOURCE_FILE_BYTES = 25 * 1024 * 1024; // Phone camera photos, before downscaling
+
+const loadImage = (file: File) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(img);
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error(`Could not decode ${file.name}`));
+  };
+  img.src = url;
+});
+
+// Downscale and re-encode as JPEG so the photo fits the upload limit; null if it still doesn't
+const toChatImage = async (file: File): Promise<ChatImage | null> => {
+  const img = await loadImage(file);
+  const scale = Math.min(1, MAX_CHAT_IMAGE_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  for (const quality of [0.85, 0.7, 0.5]) {
+    const data = canvas.toDataURL('image/jpeg', quality).split(',')[1];
+    if (base64ByteLength(data) <= MAX_CHAT_IMAGE_BYTES) return { mimeType: 'image/jpeg', data };
+  }
+  return null;
+};
+
+// Camera button in the composer; on phones the file picker also offers to take a photo
+const ImageAttachButton: React.FC<Props> = ({ disabled, onAttach, onError }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { t } = useLanguage();
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Picking the same file again should fire another change
+    if (!file) return;
+
+    if (file.size > MAX_SOURCE_FILE_BYTES) {
+      onError(t('chat.photoTooLarge'));
+      return;
+    }
+
+    try {
+      const image = await toChatImage(file);
+      if (image) {
+        onAttach(image);
+      } else {
+        onError(t('chat.photoTooLarge'));
+      }
+    } catch (error) {
+      console.error('Failed to read photo', error);
+      onError(t('chat.photoUnreadable'));
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        title={t('chat.attachPhoto')}
+        className="p-3 rounded-md transition-colors text-white/70 hover:text-white bg-white/10 hover:bg-white/20 backdrop-blur-md border border-white/20 disabled:opacity-40"
+      >
+        <Camera size={20} />
+      </button>
+      <input ref={inputRef} type="file" accept="image/*" onChange={handleChange} className="hidden" />
+    </>
+  );
+};
+
+export default ImageAttachButton;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { Language } from '../types';
+import { LANGUAGE_LABELS, SUPPORTED_LANGUAGES } from '../services/language';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface Props {
+  className?: string;
+}
+
+// UI language setting; also the language the assistant answers in when a question's own language is unclear
+const LanguagePicker: React.FC<Props> = ({ className = '' }) => {
+  const { language, setLanguage, t } = useLanguage();
+
+  return (
+    <label
+      title={t('common.language')}
+      className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-xs text-white/60 hover:text-white hover:bg-white/10 transition-colors cursor-pointer ${className}`}
+    >
+      <Languages size={14} />
+      <select
+        value={language}
+        onChange={(e) => setLanguage(e.target.value as Language)}
+        aria-label={t('common.language')}
+        className="bg-transparent text-white/80 focus:outline-none cursor-pointer"
+      >
+        {SUPPORTED_LANGUAGES.map(code => (
+          <option key={code} value={code} className="bg-black text-white">
+            {LANGUAGE_LABELS[code]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguagePicker;
@@ -2,26 +2,41 @@ import React, { useEffect, useRef, useState } from 'react';
 import ReactDOM from 'react-dom';
 import * as L from 'leaflet';
 import { Maximize2, X, Navigation } from 'lucide-react';
+import { MapPin, MapRoute } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface MapComponentProps {
-  lat: number;
-  lng: number;
-  locationName: string;
+  locations: MapPin[];
+  route?: MapRoute;
 }
 
-const MapComponent: React.FC<MapComponentProps> = ({ lat, lng, locationName }) => {
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const MapComponent: React.FC<MapComponentProps> = ({ locations, route }) => {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const fullscreenMapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const fullscreenMapInstanceRef = useRef<L.Map | null>(null);
+  const { language, t, tRich } = useLanguage();
+
+  // Route waypoints get markers too, so a route-only answer still labels its stops
+  const waypoints = route?.waypoints || [];
+  const pins = [...locations, ...waypoints].filter((pin, i, all) =>
+    all.findIndex(p => p.name === pin.name) === i);
+  const title = waypoints.length > 1
+    ? waypoints.map(p => p.name).join(' → ')
+    : pins.map(p => p.name).join(', ');
+  // Re-create the maps only when the pins, route or language (marker labels) actually change
+  const mapKey = JSON.stringify([pins, waypoints, language]);
 
   const createMap = (container: HTMLDivElement, mapRef: React.MutableRefObject<L.Map | null>) => {
     if (mapRef.current) {
       mapRef.current.remove();
     }
 
-    const map = L.map(container).setView([lat, lng], 16);
+    const map = L.map(container);
 
     L.tileLayer('https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png', {
       attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
@@ -29,16 +44,39 @@ const MapComponent: React.FC<MapComponentProps> = ({ lat, lng, locationName }) =
       maxZoom: 20
     }).addTo(map);
 
-    L.circleMarker([lat, lng], {
-      radius: 14,
-      fillColor: '#8b5cf6', // purple-500 to match theme
-      color: '#fff',
-      weight: 3,
-      opacity: 1,
-      fillOpacity: 0.9
-    }).addTo(map)
-      .bindPopup(`<b>${locationName}</b>`)
-      .openPopup();
+    if (waypoints.length > 1) {
+      L.polyline(waypoints.map(p => [p.lat, p.lng] as L.LatLngTuple), {
+        color: '#a78bfa', // purple-400, lighter than the markers so they stay visible
+        weight: 4,
+        opacity: 0.9,
+        dashArray: '8 8'
+      }).addTo(map);
+    }
+
+    pins.forEach(pin => {
+      const stop = waypoints.findIndex(p => p.name === pin.name);
+      const unverified = pin.verified === false;
+      const label = (stop === -1 ? pin.name : `${stop + 1}. ${pin.name}`) + (unverified ? ` ${t('map.unverified')}` : '');
+
+      // Unverified pins aren't in the campus data, so they are drawn hollow with a dashed amber ring
+      L.circleMarker([pin.lat, pin.lng], {
+        radius: pins.length > 1 ? 10 : 14,
+        fillColor: unverified ? '#f59e0b' : '#8b5cf6', // amber-500 / purple-500 to match theme
+        color: unverified ? '#fbbf24' : '#fff',
+        weight: 3,
+        opacity: 1,
+        fillOpacity: unverified ? 0.35 : 0.9,
+        dashArray: unverified ? '4 4' : undefined
+      }).addTo(map)
+        .bindTooltip(escapeHtml(label), { permanent: pins.length > 1, direction: 'top', offset: [0, -10] })
+        .bindPopup(`<b>${escapeHtml(pin.name)}</b>${unverified ? `<br/><i>${escapeHtml(t('map.unverifiedNote'))}</i>` : ''}`);
+    });
+
+    if (pins.length > 1) {
+      map.fitBounds(L.latLngBounds(pins.map(p => [p.lat, p.lng] as L.LatLngTuple)), { padding: [30, 30], maxZoom: 17 });
+    } else if (pins.length === 1) {
+      map.setView([pins[0].lat, pins[0].lng], 16);
+    }
 
     mapRef.current = map;
     return map;
@@ -55,7 +93,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ lat, lng, locationName }) =
         mapInstanceRef.current = null;
       }
     };
-  }, [lat, lng, locationName]);
+  }, [mapKey]);
 
   // Initialize fullscreen map when opened
   useEffect(() => {
@@ -75,7 +113,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ lat, lng, locationName }) =
         fullscreenMapInstanceRef.current = null;
       }
     };
-  }, [isFullscreen, lat, lng, locationName]);
+  }, [isFullscreen, mapKey]);
 
   // Handle escape key to close fullscreen - use capture phase for reliability
   useEffect(() => {
@@ -94,8 +132,15 @@ const MapComponent: React.FC<MapComponentProps> = ({ lat, lng, locationName }) =
     return () => document.removeEventListener('keydown', handleEscape, true);
   }, [isFullscreen]);
 
+  // Routes open as walking directions; otherwise search for the first pin
   const openInGoogleMaps = () => {
-    window.open(`https://www.google.com/maps/search/?api=1&query=${lat},${lng}`, '_blank');
+    const coords = (p: MapPin) => `${p.lat},${p.lng}`;
+    if (waypoints.length > 1) {
+      const stops = waypoints.slice(1, -1).map(coords).join('|');
+      window.open(`https://www.google.com/maps/dir/?api=1&travelmode=walking&origin=${coords(waypoints[0])}&destination=${coords(waypoints[waypoints.length - 1])}${stops ? `&waypoints=${encodeURIComponent(stops)}` : ''}`, '_blank');
+    } else if (pins.length > 0) {
+      window.open(`https://www.google.com/maps/search/?api=1&query=${coords(pins[0])}`, '_blank');
+    }
   };
 
   return (
@@ -108,7 +153,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ lat, lng, locationName }) =
         <button
           onClick={() => setIsFullscreen(true)}
           className="absolute top-2 right-2 p-2 bg-black/60 hover:bg-black/80 text-white rounded-lg backdrop-blur-sm transition-all opacity-0 group-hover:opacity-100 z-[1000]"
-          title="View fullscreen"
+          title={t('map.viewFullscreen')}
         >
           <Maximize2 size={16} />
         </button>
@@ -134,7 +179,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ lat, lng, locationName }) =
           <div className="absolute top-0 left-0 right-0 flex items-center justify-between p-4 bg-black/70 border-b border-white/10 z-10">
             <div className="flex items-center gap-3">
               <div className="w-3 h-3 rounded-full bg-purple-500 animate-pulse" />
-              <h2 className="text-white font-semibold text-lg">{locationName}</h2>
+              <h2 className="text-white font-semibold text-lg">{title}</h2>
             </div>
             <div className="flex items-center gap-2">
               <button
@@ -142,12 +187,12 @@ const MapComponent: React.FC<MapComponentProps> = ({ lat, lng, locationName }) =
                 className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all text-sm"
               >
                 <Navigation size={16} />
-                Open in Google Maps
+                {t('map.openInGoogleMaps')}
               </button>
               <button
                 onClick={() => setIsFullscreen(false)}
                 className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all"
-                title="Close (Esc)"
+                title={t('map.closeFullscreen')}
               >
                 <X size={20} />
               </button>
@@ -169,7 +214,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ lat, lng, locationName }) =
 
           {/* Footer hint */}
           <div className="absolute bottom-0 left-0 right-0 p-3 bg-black/70 border-t border-white/10 text-center text-white/40 text-xs z-10">
-            Press <kbd className="px-1.5 py-0.5 bg-white/10 rounded text-white/60">Esc</kbd> to close • Scroll to zoom
+            {tRich('map.fullscreenHintShort', { key: <kbd className="px-1.5 py-0.5 bg-white/10 rounded text-white/60">Esc</kbd> })}
           </div>
         </div>,
         document.body
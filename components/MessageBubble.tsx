@@ -1,12 +1,24 @@
 import React, { useState } from 'react';
-import { Message, Sender, UniversityProfile } from '../types';
-import { Bot, User, MapPin } from 'lucide-react';
+import { CampusEntryRef, Message, MessageFeedback, Sender, UniversityProfile } from '../types';
+import { Bot, User, MapPin, Pencil, RotateCcw, ChevronLeft, ChevronRight, AlertTriangle, LogIn, Square } from 'lucide-react';
 import MarkdownRenderer from './MarkdownRenderer';
 import MapComponent from './MapComponent';
+import CitationChips from './CitationChips';
+import FeedbackControls from './FeedbackControls';
+import { useLanguage } from '../contexts/LanguageContext';
+import { toImageSrc } from '../services/chatImages';
 
 interface Props {
   message: Message;
   university: UniversityProfile;
+  onCitationClick?: (citation: CampusEntryRef) => void;
+  branch?: { index: number; count: number }; // Which version of this message is shown, when there are several
+  onSwitchBranch?: (offset: -1 | 1) => void;
+  onRegenerate?: () => void;              // AI messages: answer the question again as a new version
+  onEdit?: (text: string) => void;        // User messages: send an edited copy as a new branch
+  onFeedback?: (feedback: MessageFeedback | null) => void; // AI messages: rate the answer
+  onRetry?: () => void;                   // Error bubbles: send the question again
+  onSignIn?: () => void;                  // Error bubbles: the session expired
 }
 
 const UniversityAvatar: React.FC<{ university: UniversityProfile }> = ({ university }) => {
@@ -26,8 +38,38 @@ const UniversityAvatar: React.FC<{ university: UniversityProfile }> = ({ univers
   );
 };
 
-const MessageBubble: React.FC<Props> = ({ message, university }) => {
+// Close a dangling **bold** marker so partially streamed markdown renders cleanly
+const closePartialMarkdown = (text: string) => {
+  const boldMarkers = text.match(/\*\*/g)?.length || 0;
+  return boldMarkers % 2 === 1 ? `${text}**` : text;
+};
+
+const MessageBubble: React.FC<Props> = ({ message, university, onCitationClick, branch, onSwitchBranch, onRegenerate, onEdit, onFeedback, onRetry, onSignIn }) => {
   const isUser = message.sender === Sender.USER;
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.text);
+  const { t, tOr } = useLanguage();
+
+  const startEditing = () => {
+    setDraft(message.text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const text = draft.trim();
+    if (!text || !onEdit) return;
+    setIsEditing(false);
+    if (text !== message.text.trim()) onEdit(text);
+  };
+
+  const showActions = !message.isStreaming && !isEditing &&
+    ((branch && branch.count > 1) || (isUser ? onEdit : onRegenerate || onFeedback));
+  // A failed turn can be retried when the server says so (or the failure wasn't the server's); a spent
+  // quota or a refused message can't
+  const canRetry = message.error && (message.error.code === 'rate_limited' ||
+    (message.error.code === 'provider_unavailable' && message.error.retryAfter !== undefined));
+  // Older messages carry a single mapLocation
+  const mapLocations = message.mapLocations || (message.mapLocation ? [message.mapLocation] : []);
   
   // Dynamic color mapping helper
   const getThemeColor = (colorName: string) => {
@@ -61,32 +103,180 @@ const MessageBubble: React.FC<Props> = ({ message, university }) => {
             <div className={`px-5 py-4 rounded-md shadow-lg ${
             isUser 
                 ? 'bg-white/25 backdrop-blur-md border border-white/30 text-white'
-                : 'bg-black/70 backdrop-blur-xl border border-white/25 text-white'
+                : message.error
+                    ? 'bg-red-950/70 backdrop-blur-xl border border-red-400/50 text-white'
+                    : 'bg-black/70 backdrop-blur-xl border border-white/25 text-white'
             }`}>
-            {isUser ? (
-                <p className="text-sm text-white font-medium">{message.text}</p>
+            {isUser && isEditing ? (
+                <div className="flex flex-col gap-2 min-w-[16rem]">
+                    <textarea
+                        value={draft}
+                        onChange={e => setDraft(e.target.value)}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter' && !e.shiftKey) {
+                                e.preventDefault();
+                                submitEdit();
+                            } else if (e.key === 'Escape') {
+                                setIsEditing(false);
+                            }
+                        }}
+                        rows={Math.min(6, Math.max(2, draft.split('\n').length))}
+                        autoFocus
+                        className="w-full resize-none rounded-md bg-black/30 border border-white/30 px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-white/40"
+                    />
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={() => setIsEditing(false)}
+                            className="px-3 py-1 text-xs font-semibold rounded-md bg-white/10 hover:bg-white/20 text-white/80 transition-colors"
+                        >
+                            {t('common.cancel')}
+                        </button>
+                        <button
+                            onClick={submitEdit}
+                            disabled={!draft.trim()}
+                            className="px-3 py-1 text-xs font-semibold rounded-md bg-white/90 hover:bg-white text-black transition-colors disabled:opacity-40"
+                        >
+                            {t('message.send')}
+                        </button>
+                    </div>
+                </div>
+            ) : isUser ? (
+                <>
+                    {message.image && (
+                        <img
+                            src={toImageSrc(message.image)}
+                            alt={t('message.photo')}
+                            className="mb-2 max-h-60 max-w-full rounded-md border border-white/20 object-contain"
+                        />
+                    )}
+                    <p className="text-sm text-white font-medium">{message.text}</p>
+                </>
+            ) : message.error ? (
+                <div className="text-white">
+                    <p className="flex items-center gap-1.5 text-xs font-bold mb-2 uppercase tracking-wide text-red-300">
+                        <AlertTriangle size={13} />
+                        {t('chatError.label')}
+                    </p>
+                    {message.text && (
+                        <div className="mb-3 pb-3 border-b border-red-400/30 opacity-60">
+                            <MarkdownRenderer content={closePartialMarkdown(message.text)} />
+                            <p className="mt-1 text-xs italic">{t('chatError.partial')}</p>
+                        </div>
+                    )}
+                    <p className="text-sm">{message.error.text || tOr(`chatError.${message.error.code}`, t('chatError.provider_unavailable'))}</p>
+                    {(canRetry || message.error.code === 'unauthorized') && (
+                        <div className="mt-3 flex gap-2">
+                            {canRetry && (
+                                <button
+                                    onClick={onRetry}
+                                    disabled={!onRetry}
+                                    className="flex items-center gap-1 px-3 py-1 text-xs font-semibold rounded-md bg-white/90 hover:bg-white text-black transition-colors disabled:opacity-40"
+                                >
+                                    <RotateCcw size={13} />
+                                    {t('chatError.retry')}
+                                </button>
+                            )}
+                            {message.error.code === 'unauthorized' && onSignIn && (
+                                <button
+                                    onClick={onSignIn}
+                                    className="flex items-center gap-1 px-3 py-1 text-xs font-semibold rounded-md bg-white/90 hover:bg-white text-black transition-colors"
+                                >
+                                    <LogIn size={13} />
+                                    {t('chatError.signIn')}
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </div>
             ) : (
                 <div className="text-white">
                     <p className="text-xs font-bold mb-2 uppercase tracking-wide text-white/80">{university.personaName}</p>
-                    <MarkdownRenderer content={message.text} />
+                    <MarkdownRenderer content={message.isStreaming ? closePartialMarkdown(message.text) : message.text} />
+                    {message.isStreaming && (
+                        <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-white/70 animate-pulse" />
+                    )}
+                    {message.cancelled && (
+                        <p className="flex items-center gap-1.5 mt-2 text-xs italic text-white/50">
+                            <Square size={10} />
+                            {t(message.text ? 'message.stopped' : 'message.stoppedBeforeAnswer')}
+                        </p>
+                    )}
                 </div>
             )}
             </div>
 
+            {/* Versions of this message, plus edit / regenerate / rating */}
+            {showActions && (
+                <div className={`flex flex-wrap items-center gap-1 text-white/60 ${isUser ? 'justify-end' : 'justify-start'}`}>
+                    {branch && branch.count > 1 && (
+                        <div className="flex items-center text-xs font-semibold">
+                            <button
+                                onClick={() => onSwitchBranch?.(-1)}
+                                disabled={branch.index === 0}
+                                title={t('message.previousVersion')}
+                                className="p-1 rounded hover:bg-white/10 hover:text-white transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                            >
+                                <ChevronLeft size={14} />
+                            </button>
+                            <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+                            <button
+                                onClick={() => onSwitchBranch?.(1)}
+                                disabled={branch.index === branch.count - 1}
+                                title={t('message.nextVersion')}
+                                className="p-1 rounded hover:bg-white/10 hover:text-white transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                            >
+                                <ChevronRight size={14} />
+                            </button>
+                        </div>
+                    )}
+                    {isUser && onEdit && (
+                        <button
+                            onClick={startEditing}
+                            title={t('message.edit')}
+                            className="p-1 rounded hover:bg-white/10 hover:text-white transition-colors"
+                        >
+                            <Pencil size={13} />
+                        </button>
+                    )}
+                    {!isUser && onRegenerate && (
+                        <button
+                            onClick={onRegenerate}
+                            title={t('message.regenerateTitle')}
+                            className="flex items-center gap-1 px-1.5 py-1 rounded text-xs hover:bg-white/10 hover:text-white transition-colors"
+                        >
+                            <RotateCcw size={13} />
+                            {t('message.regenerate')}
+                        </button>
+                    )}
+                    {!isUser && onFeedback && (
+                        <FeedbackControls feedback={message.feedback} onChange={onFeedback} />
+                    )}
+                </div>
+            )}
+
             {/* Interactive Map Embed */}
-            {!isUser && message.mapLocation && (
+            {!isUser && (mapLocations.length > 0 || message.route) && (
                 <div className="p-2 rounded-md border shadow-sm bg-black/60 backdrop-blur-md border-white/20">
                     <div className="flex items-center gap-2 px-2 pt-1">
                         <MapPin size={14} className="text-purple-400" />
-                        <span className="text-xs font-semibold text-white/60">Location: {message.mapLocation.name}</span>
+                        <span className="text-xs font-semibold text-white/60">
+                            {message.route
+                                ? t('message.route', { stops: message.route.waypoints.map(p => p.name).join(' → ') })
+                                : t(mapLocations.length > 1 ? 'message.locations' : 'message.location', { names: mapLocations.map(p => p.name).join(', ') })}
+                        </span>
                     </div>
-                    <MapComponent 
-                        lat={message.mapLocation.lat} 
-                        lng={message.mapLocation.lng} 
-                        locationName={message.mapLocation.name} 
-                    />
+                    <MapComponent locations={mapLocations} route={message.route} />
                 </div>
             )}
+
+            {/* Campus data the answer is grounded in */}
+            {!isUser && !message.isStreaming && message.citations && message.citations.length > 0 && (
+                <CitationChips
+                    citations={message.citations}
+                    university={university}
+                    onSelect={citation => onCitationClick?.(citation)}
+                />
+            )}
         </div>
 
       </div>
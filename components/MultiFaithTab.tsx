@@ -3,13 +3,22 @@ import React from 'react';
 import { MultiFaithSpace, UniversityProfile } from '../types';
 import { Heart, MapPin, Clock, CheckCircle } from 'lucide-react';
 import GlareHover from './GlareHover';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface Props {
   spaces: MultiFaithSpace[];
   university: UniversityProfile;
+  focusIndex?: number; // Highlight and scroll to this space (e.g. from a citation chip)
 }
 
-const MultiFaithTab: React.FC<Props> = ({ spaces, university }) => {
+const MultiFaithTab: React.FC<Props> = ({ spaces, university, focusIndex }) => {
+  const { t } = useLanguage();
+
+  React.useEffect(() => {
+    if (focusIndex === undefined) return;
+    setTimeout(() => document.getElementById(`space-${focusIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 100);
+  }, [focusIndex]);
+
   return (
     <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 pb-20">
 
@@ -17,21 +26,21 @@ const MultiFaithTab: React.FC<Props> = ({ spaces, university }) => {
       <div className="mb-6">
         <h2 className="text-2xl font-bold text-white flex items-center gap-2">
           <Heart className="text-purple-400" fill="currentColor" />
-          Multi-Faith Spaces
+          {t('multifaith.title')}
         </h2>
-        <p className="text-white/60 text-sm mt-1">Quiet places for prayer, meditation, and reflection at {university.shortName}.</p>
+        <p className="text-white/60 text-sm mt-1">{t('multifaith.subtitle', { university: university.shortName })}</p>
       </div>
 
       {/* Spaces List */}
       <div className="space-y-4">
         {spaces.length === 0 ? (
           <div className="text-center py-10 text-white/40 bg-black/50 rounded-md border border-white/20 border-dashed">
-            <p>No multi-faith spaces listed for this campus yet.</p>
+            <p>{t('multifaith.empty')}</p>
           </div>
         ) : (
-          spaces.map(space => (
+          spaces.map((space, index) => (
+            <div key={space.id} id={`space-${index}`} className={index === focusIndex ? 'rounded-lg ring-2 ring-purple-400' : ''}>
             <GlareHover
-              key={space.id}
               background="rgba(0, 0, 0, 0.6)"
               borderRadius="8px"
               borderColor="rgba(255, 255, 255, 0.2)"
@@ -51,14 +60,14 @@ const MultiFaithTab: React.FC<Props> = ({ spaces, university }) => {
                   <div className="flex items-start gap-2 text-sm text-white/70">
                     <MapPin size={16} className="mt-0.5 text-purple-400" />
                     <div>
-                      <span className="font-semibold block text-xs uppercase text-white/50 tracking-wide">Location</span>
+                      <span className="font-semibold block text-xs uppercase text-white/50 tracking-wide">{t('multifaith.location')}</span>
                       <span>{space.location}</span>
                     </div>
                   </div>
                   <div className="flex items-start gap-2 text-sm text-white/70">
                     <Clock size={16} className="mt-0.5 text-purple-400" />
                     <div>
-                      <span className="font-semibold block text-xs uppercase text-white/50 tracking-wide">Hours</span>
+                      <span className="font-semibold block text-xs uppercase text-white/50 tracking-wide">{t('multifaith.hours')}</span>
                       <span>{space.hours}</span>
                     </div>
                   </div>
@@ -67,7 +76,7 @@ const MultiFaithTab: React.FC<Props> = ({ spaces, university }) => {
                 {/* Amenities Tags */}
                 {space.amenities && space.amenities.length > 0 && (
                   <div className="border-t border-white/10 pt-3">
-                    <p className="text-xs font-semibold text-white/50 uppercase mb-2">Amenities</p>
+                    <p className="text-xs font-semibold text-white/50 uppercase mb-2">{t('multifaith.amenities')}</p>
                     <div className="flex flex-wrap gap-2">
                       {space.amenities.map((amenity, idx) => (
                         <span key={idx} className="inline-flex items-center gap-1 px-2.5 py-1 rounded-md bg-white/10 text-xs text-white/80 border border-white/20">
@@ -80,6 +89,7 @@ const MultiFaithTab: React.FC<Props> = ({ spaces, university }) => {
                 )}
               </div>
             </GlareHover>
+            </div>
           ))
         )}
       </div>
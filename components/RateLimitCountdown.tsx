@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface Props {
+  until: number; // Epoch ms when the user may send again
+  onExpire: () => void;
+}
+
+const secondsLeft = (until: number) => Math.max(0, Math.ceil((until - Date.now()) / 1000));
+
+const RateLimitCountdown: React.FC<Props> = ({ until, onExpire }) => {
+  const [remaining, setRemaining] = useState(() => secondsLeft(until));
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    setRemaining(secondsLeft(until));
+    const timer = setInterval(() => {
+      const left = secondsLeft(until);
+      setRemaining(left);
+      if (left === 0) {
+        clearInterval(timer);
+        onExpire();
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [until]);
+
+  if (remaining === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2 mb-3 ml-14 px-4 py-2 rounded-md bg-amber-500/20 border border-amber-400/40 text-amber-100 text-xs font-semibold backdrop-blur-md animate-in fade-in">
+      <Clock size={14} />
+      {t('rateLimit.wait', { seconds: remaining })}
+    </div>
+  );
+};
+
+export default RateLimitCountdown;
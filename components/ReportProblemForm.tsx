@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Send, CheckCircle, X, AlertTriangle } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface ReportProblemFormProps {
     onClose: () => void;
@@ -13,6 +14,7 @@ const ReportProblemForm: React.FC<ReportProblemFormProps> = ({
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isSuccess, setIsSuccess] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const { t } = useLanguage();
 
     const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
@@ -34,10 +36,10 @@ const ReportProblemForm: React.FC<ReportProblemFormProps> = ({
             if (response.ok) {
                 setIsSuccess(true);
             } else {
-                setError('Failed to submit. Please try again.');
+                setError(t('report.failed'));
             }
         } catch {
-            setError('Network error. Please try again.');
+            setError(t('report.networkError'));
         } finally {
             setIsSubmitting(false);
         }
@@ -49,7 +51,7 @@ const ReportProblemForm: React.FC<ReportProblemFormProps> = ({
                 <div className="flex items-center justify-between mb-4">
                     <div className="flex items-center gap-2 text-green-400">
                         <CheckCircle size={20} />
-                        <span className="font-semibold">Report Submitted!</span>
+                        <span className="font-semibold">{t('report.submitted')}</span>
                     </div>
                     <button
                         onClick={onClose}
@@ -59,13 +61,13 @@ const ReportProblemForm: React.FC<ReportProblemFormProps> = ({
                     </button>
                 </div>
                 <p className="text-sm text-white/70">
-                    Thanks for your feedback! We'll look into this.
+                    {t('report.thanks')}
                 </p>
                 <button
                     onClick={onClose}
                     className="mt-4 w-full px-4 py-2 bg-white/10 hover:bg-white/15 rounded-md text-white text-sm font-medium transition-colors"
                 >
-                    Close
+                    {t('common.close')}
                 </button>
             </div>
         );
@@ -76,7 +78,7 @@ const ReportProblemForm: React.FC<ReportProblemFormProps> = ({
             <div className="flex items-center justify-between mb-4">
                 <div className="flex items-center gap-2 text-white">
                     <AlertTriangle size={18} className="text-yellow-400" />
-                    <span className="font-semibold text-sm">Report a Problem</span>
+                    <span className="font-semibold text-sm">{t('report.title')}</span>
                 </div>
                 <button
                     onClick={onClose}
@@ -95,7 +97,7 @@ const ReportProblemForm: React.FC<ReportProblemFormProps> = ({
                 {/* Email Field */}
                 <div>
                     <label htmlFor="report-email" className="block text-xs font-medium text-white/60 mb-1">
-                        Email Address
+                        {t('report.email')}
                     </label>
                     <input
                         id="report-email"
@@ -103,7 +105,7 @@ const ReportProblemForm: React.FC<ReportProblemFormProps> = ({
                         name="email"
                         defaultValue={userEmail}
                         required
-                        placeholder="your@email.com"
+                        placeholder={t('report.emailPlaceholder')}
                         className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-md text-white text-sm placeholder-white/40 focus:outline-none focus:border-white/40 transition-colors"
                     />
                 </div>
@@ -111,14 +113,14 @@ const ReportProblemForm: React.FC<ReportProblemFormProps> = ({
                 {/* Message Field */}
                 <div>
                     <label htmlFor="report-message" className="block text-xs font-medium text-white/60 mb-1">
-                        Describe the Problem
+                        {t('report.message')}
                     </label>
                     <textarea
                         id="report-message"
                         name="message"
                         required
                         rows={4}
-                        placeholder="Please describe what went wrong..."
+                        placeholder={t('report.messagePlaceholder')}
                         className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-md text-white text-sm placeholder-white/40 focus:outline-none focus:border-white/40 transition-colors resize-none"
                     />
                 </div>
@@ -136,12 +138,12 @@ const ReportProblemForm: React.FC<ReportProblemFormProps> = ({
                     {isSubmitting ? (
                         <>
                             <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                            Sending...
+                            {t('report.sending')}
                         </>
                     ) : (
                         <>
                             <Send size={14} />
-                            Submit Report
+                            {t('report.submit')}
                         </>
                     )}
                 </button>
@@ -13,10 +13,13 @@ import {
   PanelLeftOpen,
   PanelLeftClose,
   MapPin,
-  AlertTriangle
+  AlertTriangle,
+  ThumbsDown
 } from 'lucide-react';
 import ReportProblemForm from './ReportProblemForm';
+import LanguagePicker from './LanguagePicker';
 import { UniversityProfile, ChatSession } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -24,8 +27,9 @@ interface SidebarProps {
   universities: UniversityProfile[];
   selectedUniId: string;
   onSelectUni: (id: string) => void;
-  activeTab: 'chat' | 'events' | 'multifaith' | 'faq';
-  setActiveTab: (tab: 'chat' | 'events' | 'multifaith' | 'faq') => void;
+  activeTab: 'chat' | 'events' | 'multifaith' | 'faq' | 'map' | 'review';
+  setActiveTab: (tab: 'chat' | 'events' | 'multifaith' | 'faq' | 'map' | 'review') => void;
+  canReview?: boolean; // Admins see the feedback review tab
   sessions: ChatSession[];
   currentSessionId: string | null;
   onNewChat: () => void;
@@ -53,11 +57,13 @@ const Sidebar: React.FC<SidebarProps> = ({
   onLogout,
   userEmail,
   userUniversity,
-  currentUniversity
+  currentUniversity,
+  canReview
 }) => {
   const [isUniDropdownOpen, setIsUniDropdownOpen] = React.useState(false);
   const [isLogoutPopupOpen, setIsLogoutPopupOpen] = React.useState(false);
   const [isReportFormOpen, setIsReportFormOpen] = React.useState(false);
+  const { t, formatDate } = useLanguage();
 
   // Get the user's signup university profile for the avatar color
   const userUniProfile = universities.find(u => u.name === userUniversity || u.shortName === userUniversity);
@@ -76,13 +82,20 @@ const Sidebar: React.FC<SidebarProps> = ({
     return colors[uniId || ''] || '#9333ea'; // fallback purple
   };
 
-  const formatDate = (isoString: string) => {
-    const date = new Date(isoString);
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  // Today's sessions show the time, older ones the date (with the year once it's not this year's)
+  const formatSessionDate = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const now = new Date();
+    if (date.toDateString() === now.toDateString()) {
+      return formatDate(date, { hour: 'numeric', minute: '2-digit' });
+    }
+    return formatDate(date, date.getFullYear() === now.getFullYear()
+      ? { month: 'short', day: 'numeric' }
+      : { month: 'short', day: 'numeric', year: 'numeric' });
   };
 
   // Get user display name - userEmail now contains full name from metadata
-  const userName = userEmail || 'User';
+  const userName = userEmail || t('sidebar.defaultUserName');
 
   return (
     <div
@@ -108,7 +121,7 @@ const Sidebar: React.FC<SidebarProps> = ({
               <button
                 onClick={() => setIsOpen(false)}
                 className="p-1.5 rounded-md hover:bg-white/10 text-white/60 hover:text-white transition-colors"
-                title="Collapse sidebar"
+                title={t('sidebar.collapse')}
               >
                 <PanelLeftClose size={18} />
               </button>
@@ -169,7 +182,7 @@ const Sidebar: React.FC<SidebarProps> = ({
             <button
               onClick={() => setIsOpen(true)}
               className="p-1.5 rounded-md hover:bg-white/10 text-white/60 hover:text-white transition-colors"
-              title="Expand sidebar"
+              title={t('sidebar.expand')}
             >
               <PanelLeftOpen size={18} />
             </button>
@@ -183,10 +196,10 @@ const Sidebar: React.FC<SidebarProps> = ({
           onClick={onNewChat}
           className={`flex items-center gap-2 rounded-md bg-white/10 hover:bg-white/15 border border-white/20 transition-colors text-white font-medium text-sm ${isOpen ? 'w-full px-3 py-2.5' : 'p-2.5'
             }`}
-          title="New Chat"
+          title={t('sidebar.newChat')}
         >
           <Plus size={16} />
-          {isOpen && 'New Chat'}
+          {isOpen && t('sidebar.newChat')}
         </button>
       </div>
 
@@ -199,10 +212,10 @@ const Sidebar: React.FC<SidebarProps> = ({
               ? 'bg-white/15 text-white'
               : 'text-white/60 hover:text-white hover:bg-white/10'
             }`}
-          title="Chat Assistant"
+          title={t('nav.chat')}
         >
           <MessageSquare size={16} />
-          {isOpen && 'Chat Assistant'}
+          {isOpen && t('nav.chat')}
         </button>
         <button
           onClick={() => setActiveTab('events')}
@@ -211,10 +224,10 @@ const Sidebar: React.FC<SidebarProps> = ({
               ? 'bg-white/15 text-white'
               : 'text-white/60 hover:text-white hover:bg-white/10'
             }`}
-          title="Campus Events"
+          title={t('nav.events')}
         >
           <Calendar size={16} />
-          {isOpen && 'Campus Events'}
+          {isOpen && t('nav.events')}
         </button>
         <button
           onClick={() => setActiveTab('multifaith')}
@@ -223,10 +236,10 @@ const Sidebar: React.FC<SidebarProps> = ({
               ? 'bg-white/15 text-white'
               : 'text-white/60 hover:text-white hover:bg-white/10'
             }`}
-          title="Multi-Faith Spaces"
+          title={t('nav.multifaith')}
         >
           <Heart size={16} />
-          {isOpen && 'Multi-Faith Spaces'}
+          {isOpen && t('nav.multifaith')}
         </button>
         <button
           onClick={() => setActiveTab('faq')}
@@ -235,10 +248,10 @@ const Sidebar: React.FC<SidebarProps> = ({
               ? 'bg-white/15 text-white'
               : 'text-white/60 hover:text-white hover:bg-white/10'
             }`}
-          title="FAQ"
+          title={t('nav.faq')}
         >
           <HelpCircle size={16} />
-          {isOpen && 'FAQ'}
+          {isOpen && t('nav.faq')}
         </button>
         <button
           onClick={() => setActiveTab('map')}
@@ -247,11 +260,25 @@ const Sidebar: React.FC<SidebarProps> = ({
               ? 'bg-white/15 text-white'
               : 'text-white/60 hover:text-white hover:bg-white/10'
             }`}
-          title="Campus Map"
+          title={t('nav.map')}
         >
           <MapPin size={16} />
-          {isOpen && 'Campus Map'}
+          {isOpen && t('nav.map')}
         </button>
+        {canReview && (
+          <button
+            onClick={() => setActiveTab('review')}
+            className={`flex items-center gap-2 rounded-md text-sm font-medium transition-colors ${isOpen ? 'w-full px-3 py-2' : 'p-2.5'
+              } ${activeTab === 'review'
+                ? 'bg-white/15 text-white'
+                : 'text-white/60 hover:text-white hover:bg-white/10'
+              }`}
+            title={t('nav.review')}
+          >
+            <ThumbsDown size={16} />
+            {isOpen && t('nav.review')}
+          </button>
+        )}
         {/* Report a Problem Button */}
         <button
           onClick={() => setIsReportFormOpen(!isReportFormOpen)}
@@ -260,10 +287,10 @@ const Sidebar: React.FC<SidebarProps> = ({
               ? 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/30'
               : 'text-white/60 hover:text-yellow-400 hover:bg-yellow-500/10 border border-transparent'
             }`}
-          title="Report a Problem"
+          title={t('nav.report')}
         >
           <AlertTriangle size={16} />
-          {isOpen && 'Report a Problem'}
+          {isOpen && t('nav.report')}
         </button>
       </div>
 
@@ -283,9 +310,9 @@ const Sidebar: React.FC<SidebarProps> = ({
       {/* Chat History - Only show when expanded */}
       {isOpen && (
         <div className="flex-1 overflow-y-auto px-2 py-2">
-          <p className="text-xs font-semibold text-white/40 uppercase tracking-wide mb-2 px-1">Chat History</p>
+          <p className="text-xs font-semibold text-white/40 uppercase tracking-wide mb-2 px-1">{t('sidebar.history')}</p>
           {sessions.length === 0 ? (
-            <p className="text-xs text-white/30 px-1 italic">No chat history yet</p>
+            <p className="text-xs text-white/30 px-1 italic">{t('sidebar.noHistory')}</p>
           ) : (
             sessions.map(session => (
               <div
@@ -297,11 +324,12 @@ const Sidebar: React.FC<SidebarProps> = ({
                   }`}
               >
                 <div className="flex-1 min-w-0">
-                  <p className="text-sm text-white truncate">{session.title || 'Untitled Chat'}</p>
-                  <p className="text-[10px] text-white/40">{formatDate(session.lastModified)}</p>
+                  <p className="text-sm text-white truncate">{session.title || t('sidebar.untitledChat')}</p>
+                  <p className="text-[10px] text-white/40">{formatSessionDate(session.lastModified)}</p>
                 </div>
                 <button
                   onClick={(e) => onDeleteSession(e, session.id)}
+                  title={t('sidebar.deleteChat')}
                   className="p-1 text-white/30 hover:text-red-400 hover:bg-red-500/20 rounded opacity-0 group-hover:opacity-100 transition-all"
                 >
                   <Trash2 size={12} />
@@ -315,6 +343,13 @@ const Sidebar: React.FC<SidebarProps> = ({
       {/* Spacer when collapsed */}
       {!isOpen && <div className="flex-1"></div>}
 
+      {/* UI Language */}
+      {isOpen && (
+        <div className="px-2 pb-1">
+          <LanguagePicker />
+        </div>
+      )}
+
       {/* User Profile at Bottom */}
       <div className={`p-2 border-t border-white/10 ${isOpen ? '' : 'flex justify-center relative'}`}>
         {isOpen ? (
@@ -334,7 +369,7 @@ const Sidebar: React.FC<SidebarProps> = ({
             <button
               onClick={onLogout}
               className="p-1.5 rounded-md hover:bg-white/10 text-white/60 hover:text-white transition-colors"
-              title="Logout"
+              title={t('sidebar.logout')}
             >
               <LogOut size={16} />
             </button>
@@ -361,7 +396,7 @@ const Sidebar: React.FC<SidebarProps> = ({
                   className="w-full flex items-center gap-2 px-3 py-2 text-sm text-white hover:bg-white/10 transition-colors"
                 >
                   <LogOut size={14} />
-                  Logout
+                  {t('sidebar.logout')}
                 </button>
               </div>
             )}
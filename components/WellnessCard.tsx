@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { LifeBuoy, ChevronDown, ChevronUp, Phone } from 'lucide-react';
+import { UniversityProfile } from '../types';
+import { getCampusData } from '../services/universityRegistry';
+import { getCrisisLines, getWellnessResources, WellnessLevel } from '../services/wellness';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface Props {
+  university: UniversityProfile;
+  level: WellnessLevel; // The strongest signal in the conversation so far
+}
+
+// Pinned to the top of the chat once a question signals distress (see services/wellness.ts)
+const WellnessCard: React.FC<Props> = ({ university, level }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const { language, t } = useLanguage();
+  const campusData = getCampusData(university.id);
+  const resources = getWellnessResources(campusData).map(ref => campusData.resources[Number(ref.key.split(':')[1])]);
+
+  return (
+    <div className="sticky top-0 z-20 mb-4 rounded-md border border-teal-300/40 bg-teal-950/85 backdrop-blur-xl shadow-lg text-white animate-in fade-in">
+      <button
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className="w-full flex items-center justify-between gap-2 px-4 py-3 text-left"
+        aria-expanded={!isCollapsed}
+      >
+        <span className="flex items-center gap-2 text-sm font-semibold">
+          <LifeBuoy size={16} className="text-teal-300" />
+          {t(level === 'crisis' ? 'wellness.titleCrisis' : 'wellness.title')}
+        </span>
+        {isCollapsed ? <ChevronDown size={16} className="text-white/60" /> : <ChevronUp size={16} className="text-white/60" />}
+      </button>
+
+      {!isCollapsed && (
+        <div className="px-4 pb-4 space-y-3 text-sm">
+          <p className="text-white/80">{t('wellness.intro')}</p>
+          <ul className="space-y-1">
+            {getCrisisLines(language).map(line => (
+              <li key={line.name} className="flex items-start gap-2">
+                <Phone size={14} className="mt-0.5 text-teal-300 shrink-0" />
+                <span><span className="font-semibold">{line.name}</span> - {line.contact}{line.note && <span className="text-white/60"> ({line.note})</span>}</span>
+              </li>
+            ))}
+          </ul>
+          {resources.length > 0 && (
+            <div className="border-t border-white/10 pt-3">
+              <p className="text-xs font-semibold uppercase tracking-wide text-white/50 mb-1">{t('wellness.campus', { university: university.shortName })}</p>
+              <ul className="space-y-1">
+                {resources.map(resource => (
+                  <li key={resource.name}>
+                    <span className="font-semibold">{resource.name}</span> - {resource.contact}
+                    <span className="block text-xs text-white/60">{resource.description}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WellnessCard;
@@ -0,0 +1,96 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { Language } from '../types';
+import { DEFAULT_LANGUAGE, LANGUAGE_LOCALES, parseLanguage } from '../services/language';
+import { parseEventDateRange } from '../services/campusTools';
+import en, { MessageCatalog, MessageKey } from '../locales/en';
+import fr from '../locales/fr';
+
+type MessageParams = Record<string, string | number>;
+
+interface LanguageContextType {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  tOr: (key: string, fallback: string) => string; // For computed keys (e.g. `badge.${id}.name`) that may not exist
+  tRich: (key: MessageKey, parts: Record<string, ReactNode>) => ReactNode; // Placeholders filled with elements, e.g. <strong>
+  formatDate: (date: Date | number, options?: Intl.DateTimeFormatOptions) => string;
+  formatEventDate: (date: string) => string; // CampusEvent.date, e.g. "Mar 6-8, 2026"
+  formatEventTime: (time: string) => string; // CampusEvent.time, e.g. "3:00 PM - 5:00 PM"
+}
+
+const CATALOGS: Record<Language, MessageCatalog> = { en, fr };
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+const LANGUAGE_KEY = 'unipilot_language';
+
+const isMessageKey = (key: string): key is MessageKey => key in en;
+
+const interpolate = (text: string, params?: MessageParams) =>
+  params ? text.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : text;
+
+// "3:00 PM" style times in campus data
+const CLOCK_TIME = /(\d{1,2}):(\d{2})\s*([ap])\.?\s*m\.?/gi;
+
+// Stored choice first, then the browser's languages
+const getInitialLanguage = (): Language => {
+  const stored = parseLanguage(localStorage.getItem(LANGUAGE_KEY));
+  if (stored) return stored;
+  const browserLanguages = typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : [];
+  return browserLanguages.map(parseLanguage).find(Boolean) || DEFAULT_LANGUAGE;
+};
+
+export const LanguageProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [language, setLanguage] = useState<Language>(getInitialLanguage);
+
+  useEffect(() => {
+    localStorage.setItem(LANGUAGE_KEY, language);
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const locale = LANGUAGE_LOCALES[language];
+
+  const t = (key: MessageKey, params?: MessageParams) => interpolate(CATALOGS[language][key] ?? en[key], params);
+
+  const tOr = (key: string, fallback: string) => (isMessageKey(key) ? t(key) : fallback);
+
+  const tRich = (key: MessageKey, parts: Record<string, ReactNode>) =>
+    t(key).split(/(\{\w+\})/).map((piece, i) => {
+      const name = piece.match(/^\{(\w+)\}$/)?.[1];
+      return <React.Fragment key={i}>{name && name in parts ? parts[name] : piece}</React.Fragment>;
+    });
+
+  const formatDate = (date: Date | number, options?: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat(locale, options).format(date);
+
+  // Recurring or vague dates ("Fridays", "Exam Period") are shown as written
+  const formatEventDate = (date: string) => {
+    const range = parseEventDateRange(date);
+    if (!range) return date;
+    const format = new Intl.DateTimeFormat(locale, { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+    if (!Number.isFinite(range.end)) return t('events.onwards', { date: format.format(range.start) });
+    return range.end === range.start ? format.format(range.start) : format.formatRange(range.start, range.end);
+  };
+
+  const formatEventTime = (time: string) => {
+    const format = new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' });
+    return time.replace(CLOCK_TIME, (_, hours, minutes, meridiem) => {
+      const hour = (Number(hours) % 12) + (meridiem.toLowerCase() === 'p' ? 12 : 0);
+      return format.format(Date.UTC(2000, 0, 1, hour, Number(minutes)));
+    });
+  };
+
+  return (
+    <LanguageContext.Provider value={{ language, setLanguage, t, tOr, tRich, formatDate, formatEventDate, formatEventTime }}>
+      {children}
+    </LanguageContext.Provider>
+  );
+};
+
+export const useLanguage = (): LanguageContextType => {
+  const context = useContext(LanguageContext);
+  if (!context) {
+    throw new Error('useLanguage must be used within a LanguageProvider');
+  }
+  return context;
+};
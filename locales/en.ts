@@ -0,0 +1,251 @@
+// UI message catalog (English, the source language).
+// Keys are grouped by component; {name} placeholders are filled in by t() (see contexts/LanguageContext.tsx).
+// Every other catalog must have the same keys - fr.ts is typed against this one.
+
+const en = {
+  // Shared
+  'common.backToLogin': 'Back to Login',
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.createdBy': 'Created by',
+  'common.allRightsReserved': 'All rights reserved.',
+  'common.language': 'Language',
+
+  // App shell
+  'app.checkEmail.title': 'Check Your Email',
+  'app.checkEmail.body': "We've sent a confirmation link to your email address. Please click the link to verify your account before continuing.",
+  'app.checkEmail.hint': "Didn't receive the email? Check your spam folder or try signing up again with a different email.",
+  'app.about': 'About',
+  'app.level': 'Lvl {level}',
+  'app.badgeUnlocked': 'Unlocked: {badge}!',
+  'app.feedbackFailed': "Couldn't save your feedback. Please try again.",
+  'chat.clearInput': 'Clear Input',
+  'chat.placeholder': 'Ask {persona} a question...',
+  'chat.stop': 'Stop generating',
+  'chat.attachPhoto': 'Attach a photo of a sign, room or building',
+  'chat.removePhoto': 'Remove photo',
+  'chat.photoQuestion': 'Where is this, and how do I get there?',
+  'chat.photoUnreadable': "That file couldn't be read as an image.",
+  'chat.photoTooLarge': 'That photo is too large. Try a smaller one.',
+
+  // Sidebar
+  'sidebar.collapse': 'Collapse sidebar',
+  'sidebar.expand': 'Expand sidebar',
+  'sidebar.newChat': 'New Chat',
+  'sidebar.history': 'Chat History',
+  'sidebar.noHistory': 'No chat history yet',
+  'sidebar.untitledChat': 'Untitled Chat',
+  'sidebar.deleteChat': 'Delete chat',
+  'sidebar.logout': 'Logout',
+  'sidebar.defaultUserName': 'User',
+  'nav.chat': 'Chat Assistant',
+  'nav.events': 'Campus Events',
+  'nav.multifaith': 'Multi-Faith Spaces',
+  'nav.faq': 'FAQ',
+  'nav.map': 'Campus Map',
+  'nav.review': 'Answer Review',
+  'nav.report': 'Report a Problem',
+
+  // Chat messages
+  'message.send': 'Send',
+  'message.photo': 'Attached photo',
+  'message.previousVersion': 'Previous version',
+  'message.nextVersion': 'Next version',
+  'message.edit': 'Edit message',
+  'message.regenerate': 'Regenerate',
+  'message.stopped': 'Answer stopped',
+  'message.stoppedBeforeAnswer': 'Stopped before the answer started',
+  'message.regenerateTitle': 'Regenerate response',
+  'message.route': 'Route: {stops}',
+  'message.location': 'Location: {names}',
+  'message.locations': 'Locations: {names}',
+  'citations.sources': 'Sources',
+  'citations.from': '{kind} from {university} campus data',
+  'citations.kind.location': 'Location',
+  'citations.kind.faq': 'FAQ',
+  'citations.kind.resource': 'Student service',
+  'citations.kind.event': 'Event',
+  'citations.kind.multiFaithSpace': 'Multi-faith space',
+  'feedback.good': 'Good answer',
+  'feedback.bad': 'Bad answer',
+  'feedback.whatWentWrong': 'What went wrong?',
+  'feedback.reason.wrong_location': 'Wrong location',
+  'feedback.reason.outdated_hours': 'Outdated hours',
+  'feedback.reason.incorrect_info': 'Incorrect info',
+  'feedback.reason.too_long': 'Too long',
+  'feedback.reason.not_helpful': 'Not helpful',
+  'rateLimit.wait': "You're sending messages too quickly. You can send again in {seconds}s.",
+  'wellness.title': 'Support is available',
+  'wellness.titleCrisis': "You're not alone - help is available now",
+  'wellness.intro': 'Free, confidential support, any time of day or night.',
+  'wellness.campus': 'On campus at {university}',
+
+  // Maps
+  'map.title': 'Campus Map',
+  'map.subtitle': 'Explore {university} - {campus}',
+  'map.openInGoogleMaps': 'Open in Google Maps',
+  'map.viewFullscreen': 'View fullscreen',
+  'map.closeFullscreen': 'Close (Esc)',
+  'map.help': 'Scroll or pinch to zoom • Click and drag to pan • Click expand for fullscreen',
+  'map.fullscreenHint': 'Press {key} to close • Scroll to zoom • Drag to pan',
+  'map.fullscreenHintShort': 'Press {key} to close • Scroll to zoom',
+  'map.unverified': '(unverified)',
+  'map.unverifiedNote': 'Not in the campus directory - location may be approximate',
+
+  // Events
+  'events.title': 'Upcoming Events',
+  'events.subtitle': "Don't miss out on what's happening at {university}.",
+  'events.briefingTitle': 'Need a quick update?',
+  'events.briefingPrompt': 'Ask {persona} to summarize the week.',
+  'events.briefingButton': 'Get AI Briefing',
+  'events.briefingLoading': 'Generating insights...',
+  'events.briefingHeading': 'AI Insight from {persona}',
+  'events.briefingFailed': "Sorry, I couldn't generate a summary right now.",
+  'events.empty': 'No upcoming events found.',
+  'events.onwards': '{date} onwards',
+  'events.category.Academic': 'Academic',
+  'events.category.Social': 'Social',
+  'events.category.Career': 'Career',
+  'events.category.Wellness': 'Wellness',
+
+  // Multi-faith spaces
+  'multifaith.title': 'Multi-Faith Spaces',
+  'multifaith.subtitle': 'Quiet places for prayer, meditation, and reflection at {university}.',
+  'multifaith.empty': 'No multi-faith spaces listed for this campus yet.',
+  'multifaith.location': 'Location',
+  'multifaith.hours': 'Hours',
+  'multifaith.amenities': 'Amenities',
+
+  // FAQ
+  'faq.title': 'Frequently Asked Questions',
+  'faq.subtitle': 'Quick answers to common questions about {university}.',
+  'faq.searchPlaceholder': 'Search FAQs...',
+  'faq.empty': 'No FAQs found matching your search.',
+  'faq.showing': 'Showing {count} of {total} FAQs',
+  'faq.available': '{count} FAQs available',
+
+  // Answer review (admins)
+  'review.title': 'Answer Review',
+  'review.subtitle': 'Answers students rated down, with the campus data the assistant was given.',
+  'review.allUniversities': 'All universities',
+  'review.refresh': 'Refresh',
+  'review.loading': 'Loading…',
+  'review.loadFailed': 'Failed to load feedback',
+  'review.empty': 'No low-rated answers yet.',
+  'review.emptyFor': 'No low-rated answers for {university} yet.',
+  'review.rated': '· rated {date}',
+  'review.model': '· {model}',
+  'review.question': 'Question',
+  'review.questionMissing': '(question not found)',
+  'review.answer': 'Answer',
+  'review.showFullAnswer': 'Show full answer',
+  'review.showLess': 'Show less',
+  'review.contextUsed': 'Campus data used',
+  'review.contextMissing': 'Not recorded for this answer.',
+  'review.contextEmpty': 'No campus data matched this question.',
+  'review.score': 'score {score}',
+  'review.cited': 'cited',
+  'review.noMatches': 'no matches',
+  'review.hours': 'Hours: {hours}',
+  'review.entryChanged': '(entry has changed since this answer)',
+
+  // Progress panel
+  'stats.title': 'Student Progress',
+  'stats.currentLevel': 'Current Level',
+  'stats.totalXp': 'Total XP',
+  'stats.progressTo': 'Progress to Level {level}',
+  'stats.achievements': 'Achievements',
+  'stats.locked': 'Locked: {condition}',
+  'chatError.label': "Couldn't answer",
+  'chatError.rate_limited': "You're sending messages too quickly. You can send again when the countdown ends.",
+  'chatError.quota_exceeded': "You've reached today's AI limit. It resets at midnight UTC.",
+  'chatError.provider_unavailable': "The assistant couldn't answer just now. Please try again.",
+  'chatError.invalid_request': "That message couldn't be sent. Try rephrasing it.",
+  'chatError.unauthorized': 'Your session has expired. Sign in again to keep chatting.',
+  'chatError.retry': 'Try again',
+  'chatError.signIn': 'Sign in',
+  'chatError.partial': 'The answer stopped here and was not saved.',
+  'stats.quota.title': "Today's AI allowance",
+  'stats.quota.remaining': '{percent}% left',
+  'stats.quota.used': '{used} of {limit} tokens used',
+  'stats.quota.resets': 'Resets at {time}',
+  'stats.quota.exhausted': "You've used today's allowance. The Events, FAQ and Campus Map tabs still work.",
+  'badge.freshman.name': 'Orientation Week',
+  'badge.freshman.description': 'Ask your first question.',
+  'badge.freshman.condition': 'Ask 1 question',
+  'badge.night_owl.name': 'Night Owl',
+  'badge.night_owl.description': 'Burning the midnight oil (ask a question after 10 PM).',
+  'badge.night_owl.condition': 'Active after 10pm',
+  'badge.explorer.name': 'Campus Explorer',
+  'badge.explorer.description': 'Ask about 3 different topics (e.g., libraries, food, gyms).',
+  'badge.explorer.condition': 'Explore 3 topics',
+  'badge.scholar.name': 'Keener',
+  'badge.scholar.description': 'Reach level 5 by being an active student.',
+  'badge.scholar.condition': 'Reach Level 5',
+
+  // Report a problem
+  'report.title': 'Report a Problem',
+  'report.email': 'Email Address',
+  'report.emailPlaceholder': 'your@email.com',
+  'report.message': 'Describe the Problem',
+  'report.messagePlaceholder': 'Please describe what went wrong...',
+  'report.submit': 'Submit Report',
+  'report.sending': 'Sending...',
+  'report.submitted': 'Report Submitted!',
+  'report.thanks': "Thanks for your feedback! We'll look into this.",
+  'report.failed': 'Failed to submit. Please try again.',
+  'report.networkError': 'Network error. Please try again.',
+
+  // About
+  'about.title': 'About Campus Companion',
+  'about.intro': "Campus Companion is your intelligent, interactive guide to university life, trained on YOUR universities data. Forget searching through outdated wikis or endless Reddit threads get instant, accurate answers about your specific campus.",
+  'about.personas.title': 'AI Personas',
+  'about.personas.body': 'Chat with distinct personalities for {universities}.',
+  'about.personas.universities': "UW, UofT, McMaster, Western, Queen's, and TMU",
+  'about.gamification.title': 'Gamification',
+  'about.gamification.body': 'Earn points, unlock badges (like "Night Owl"), and level up as you explore campus resources.',
+  'about.maps.title': 'Interactive Maps',
+  'about.maps.body': 'Ask "Where is the library?" and get an embedded, interactive map pointing you exactly where to go.',
+  'about.events.title': 'Event Alerts',
+  'about.events.body': 'Switch to the Events tab to see upcoming workshops and socials, summarized weekly by the AI.',
+  'about.multifaith.title': 'Multi-Faith Spaces',
+  'about.multifaith.body': 'Find prayer rooms, meditation spaces, and multi-faith centres on every supported campus.',
+  'about.campusMaps.title': 'Campus Maps',
+  'about.campusMaps.body': 'Explore interactive campus maps with buildings, food spots, libraries, and key landmarks marked for easy navigation.',
+  'about.howItWorks': 'How it works',
+  'about.howItWorksBody': "Campus Companion uses {model} model to process natural language queries. We inject structured campus data (libraries, hours, resources) directly into the AI's context, ensuring answers are factually accurate while maintaining a conversational tone.",
+  'about.model': "Google's Gemini 2.5 Flash",
+  'about.builtWith': 'Built with React, Tailwind CSS, and Leaflet.',
+  'about.creators': '— software eng students @ uwaterloo',
+  'about.gotIt': 'Got it',
+
+  // Sign in / sign up
+  'auth.tagline': 'Your AI Co-Pilot for University Life',
+  'auth.login': 'Login',
+  'auth.signup': 'Sign Up',
+  'auth.fullName': 'Full Name',
+  'auth.fullNamePlaceholder': 'John Doe',
+  'auth.email': 'Email Address',
+  'auth.emailPlaceholder': 'student@university.edu',
+  'auth.password': 'Password',
+  'auth.passwordHint': 'Min 8 chars, Upper, Lower, Special (!@#$)',
+  'auth.passwordInvalid': 'Password must be at least 8 characters and include uppercase, lowercase, and a special character (!@#$%^&*).',
+  'auth.nameRequired': 'Please enter your name.',
+  'auth.genericError': 'Something went wrong',
+  'auth.selectUniversity': 'Select University',
+  'auth.welcomeBack': 'Welcome Back',
+  'auth.createAccount': 'Create Account',
+  'auth.checkEmail': 'Check Your Email!',
+  'auth.sentTo': "We've sent a confirmation link to:",
+  'auth.nextSteps': 'Next steps:',
+  'auth.step1': 'Open the email from UniPilot',
+  'auth.step2': 'Click the confirmation link',
+  'auth.step3': 'Come back and log in!',
+  'auth.spamHint': "Didn't receive it? Check your spam folder.",
+};
+
+export type MessageKey = keyof typeof en;
+
+export type MessageCatalog = Record<MessageKey, string>;
+
+export default en;
@@ -0,0 +1,247 @@
+import type { MessageCatalog } from './en';
+
+// UI message catalog (Canadian French)
+
+const fr: MessageCatalog = {
+  // Shared
+  'common.backToLogin': 'Retour à la connexion',
+  'common.close': 'Fermer',
+  'common.cancel': 'Annuler',
+  'common.createdBy': 'Créé par',
+  'common.allRightsReserved': 'Tous droits réservés.',
+  'common.language': 'Langue',
+
+  // App shell
+  'app.checkEmail.title': 'Vérifiez vos courriels',
+  'app.checkEmail.body': 'Nous avons envoyé un lien de confirmation à votre adresse courriel. Cliquez sur le lien pour vérifier votre compte avant de continuer.',
+  'app.checkEmail.hint': "Vous n'avez pas reçu le courriel? Vérifiez vos indésirables ou réinscrivez-vous avec une autre adresse.",
+  'app.about': 'À propos',
+  'app.level': 'Niv. {level}',
+  'app.badgeUnlocked': 'Débloqué : {badge}!',
+  'app.feedbackFailed': "Impossible d'enregistrer votre évaluation. Veuillez réessayer.",
+  'chat.clearInput': 'Effacer',
+  'chat.placeholder': 'Posez une question à {persona}...',
+  'chat.stop': 'Arrêter la génération',
+  'chat.attachPhoto': "Joindre une photo d'une affiche, d'un local ou d'un pavillon",
+  'chat.removePhoto': 'Retirer la photo',
+  'chat.photoQuestion': "Où est-ce, et comment m'y rendre?",
+  'chat.photoUnreadable': "Ce fichier n'a pas pu être lu comme une image.",
+  'chat.photoTooLarge': 'Cette photo est trop volumineuse. Essayez-en une plus petite.',
+
+  // Sidebar
+  'sidebar.collapse': 'Réduire le panneau',
+  'sidebar.expand': 'Agrandir le panneau',
+  'sidebar.newChat': 'Nouvelle conversation',
+  'sidebar.history': 'Historique',
+  'sidebar.noHistory': 'Aucune conversation pour le moment',
+  'sidebar.untitledChat': 'Conversation sans titre',
+  'sidebar.deleteChat': 'Supprimer la conversation',
+  'sidebar.logout': 'Déconnexion',
+  'sidebar.defaultUserName': 'Utilisateur',
+  'nav.chat': 'Assistant',
+  'nav.events': 'Événements',
+  'nav.multifaith': 'Espaces multiconfessionnels',
+  'nav.faq': 'FAQ',
+  'nav.map': 'Carte du campus',
+  'nav.review': 'Révision des réponses',
+  'nav.report': 'Signaler un problème',
+
+  // Chat messages
+  'message.send': 'Envoyer',
+  'message.photo': 'Photo jointe',
+  'message.previousVersion': 'Version précédente',
+  'message.nextVersion': 'Version suivante',
+  'message.edit': 'Modifier le message',
+  'message.regenerate': 'Régénérer',
+  'message.stopped': 'Réponse interrompue',
+  'message.stoppedBeforeAnswer': 'Interrompue avant le début de la réponse',
+  'message.regenerateTitle': 'Régénérer la réponse',
+  'message.route': 'Itinéraire : {stops}',
+  'message.location': 'Lieu : {names}',
+  'message.locations': 'Lieux : {names}',
+  'citations.sources': 'Sources',
+  'citations.from': '{kind} — données du campus de {university}',
+  'citations.kind.location': 'Lieu',
+  'citations.kind.faq': 'FAQ',
+  'citations.kind.resource': 'Service aux étudiants',
+  'citations.kind.event': 'Événement',
+  'citations.kind.multiFaithSpace': 'Espace multiconfessionnel',
+  'feedback.good': 'Bonne réponse',
+  'feedback.bad': 'Mauvaise réponse',
+  'feedback.whatWentWrong': "Qu'est-ce qui n'allait pas?",
+  'feedback.reason.wrong_location': 'Mauvais lieu',
+  'feedback.reason.outdated_hours': 'Heures périmées',
+  'feedback.reason.incorrect_info': 'Information erronée',
+  'feedback.reason.too_long': 'Trop long',
+  'feedback.reason.not_helpful': 'Pas utile',
+  'rateLimit.wait': 'Vous envoyez des messages trop rapidement. Vous pourrez réessayer dans {seconds} s.',
+  'wellness.title': 'Du soutien est disponible',
+  'wellness.titleCrisis': "De l'aide est disponible dès maintenant",
+  'wellness.intro': 'Soutien gratuit et confidentiel, jour et nuit.',
+  'wellness.campus': 'Sur le campus de {university}',
+
+  // Maps
+  'map.title': 'Carte du campus',
+  'map.subtitle': 'Explorez {university} - {campus}',
+  'map.openInGoogleMaps': 'Ouvrir dans Google Maps',
+  'map.viewFullscreen': 'Plein écran',
+  'map.closeFullscreen': 'Fermer (Échap)',
+  'map.help': 'Faites défiler ou pincez pour zoomer • Cliquez-glissez pour vous déplacer • Agrandissez pour le plein écran',
+  'map.fullscreenHint': 'Appuyez sur {key} pour fermer • Faites défiler pour zoomer • Glissez pour vous déplacer',
+  'map.fullscreenHintShort': 'Appuyez sur {key} pour fermer • Faites défiler pour zoomer',
+  'map.unverified': '(non vérifié)',
+  'map.unverifiedNote': "Absent du répertoire du campus - l'emplacement peut être approximatif",
+
+  // Events
+  'events.title': 'Événements à venir',
+  'events.subtitle': 'Ne manquez rien de ce qui se passe à {university}.',
+  'events.briefingTitle': "Besoin d'un résumé rapide?",
+  'events.briefingPrompt': 'Demandez à {persona} de résumer la semaine.',
+  'events.briefingButton': 'Obtenir le résumé IA',
+  'events.briefingLoading': 'Génération du résumé...',
+  'events.briefingHeading': 'Aperçu IA de {persona}',
+  'events.briefingFailed': "Désolé, je n'ai pas pu générer de résumé pour le moment.",
+  'events.empty': 'Aucun événement à venir.',
+  'events.onwards': 'À partir du {date}',
+  'events.category.Academic': 'Études',
+  'events.category.Social': 'Social',
+  'events.category.Career': 'Carrière',
+  'events.category.Wellness': 'Bien-être',
+
+  // Multi-faith spaces
+  'multifaith.title': 'Espaces multiconfessionnels',
+  'multifaith.subtitle': 'Des lieux calmes pour la prière, la méditation et la réflexion à {university}.',
+  'multifaith.empty': "Aucun espace multiconfessionnel n'est encore répertorié pour ce campus.",
+  'multifaith.location': 'Emplacement',
+  'multifaith.hours': 'Heures',
+  'multifaith.amenities': 'Commodités',
+
+  // FAQ
+  'faq.title': 'Foire aux questions',
+  'faq.subtitle': 'Des réponses rapides aux questions courantes sur {university}.',
+  'faq.searchPlaceholder': 'Rechercher dans la FAQ...',
+  'faq.empty': 'Aucune question ne correspond à votre recherche.',
+  'faq.showing': '{count} questions sur {total}',
+  'faq.available': '{count} questions disponibles',
+
+  // Answer review (admins)
+  'review.title': 'Révision des réponses',
+  'review.subtitle': "Réponses mal notées par les étudiants, avec les données du campus fournies à l'assistant.",
+  'review.allUniversities': 'Toutes les universités',
+  'review.refresh': 'Actualiser',
+  'review.loading': 'Chargement…',
+  'review.loadFailed': 'Impossible de charger les évaluations',
+  'review.empty': 'Aucune réponse mal notée pour le moment.',
+  'review.emptyFor': 'Aucune réponse mal notée pour {university} pour le moment.',
+  'review.rated': '· notée le {date}',
+  'review.model': '· {model}',
+  'review.question': 'Question',
+  'review.questionMissing': '(question introuvable)',
+  'review.answer': 'Réponse',
+  'review.showFullAnswer': 'Afficher toute la réponse',
+  'review.showLess': 'Afficher moins',
+  'review.contextUsed': 'Données du campus utilisées',
+  'review.contextMissing': 'Non enregistrées pour cette réponse.',
+  'review.contextEmpty': 'Aucune donnée du campus ne correspondait à cette question.',
+  'review.score': 'score {score}',
+  'review.cited': 'citée',
+  'review.noMatches': 'aucun résultat',
+  'review.hours': 'Heures : {hours}',
+  'review.entryChanged': "(l'entrée a changé depuis cette réponse)",
+
+  // Progress panel
+  'stats.title': 'Progression',
+  'stats.currentLevel': 'Niveau actuel',
+  'stats.totalXp': 'XP total',
+  'stats.progressTo': 'Progression vers le niveau {level}',
+  'stats.achievements': 'Succès',
+  'stats.locked': 'Verrouillé : {condition}',
+  'chatError.label': 'Réponse impossible',
+  'chatError.rate_limited': "Vous envoyez des messages trop rapidement. Vous pourrez en envoyer de nouveau à la fin du compte à rebours.",
+  'chatError.quota_exceeded': "Vous avez atteint la limite quotidienne d'IA. Elle se réinitialise à minuit UTC.",
+  'chatError.provider_unavailable': "L'assistant n'a pas pu répondre pour le moment. Veuillez réessayer.",
+  'chatError.invalid_request': "Ce message n'a pas pu être envoyé. Essayez de le reformuler.",
+  'chatError.unauthorized': 'Votre session a expiré. Reconnectez-vous pour continuer la conversation.',
+  'chatError.retry': 'Réessayer',
+  'chatError.signIn': 'Se connecter',
+  'chatError.partial': "La réponse s'est arrêtée ici et n'a pas été enregistrée.",
+  'stats.quota.title': "Allocation d'IA du jour",
+  'stats.quota.remaining': 'Reste {percent} %',
+  'stats.quota.used': '{used} jetons utilisés sur {limit}',
+  'stats.quota.resets': 'Réinitialisation à {time}',
+  'stats.quota.exhausted': "Vous avez utilisé l'allocation du jour. Les onglets Événements, FAQ et Carte du campus restent disponibles.",
+  'badge.freshman.name': "Semaine d'orientation",
+  'badge.freshman.description': 'Posez votre première question.',
+  'badge.freshman.condition': 'Poser 1 question',
+  'badge.night_owl.name': 'Oiseau de nuit',
+  'badge.night_owl.description': 'Vous veillez tard (question posée après 22 h).',
+  'badge.night_owl.condition': 'Actif après 22 h',
+  'badge.explorer.name': 'Explorateur du campus',
+  'badge.explorer.description': 'Posez des questions sur 3 sujets différents (bibliothèques, nourriture, gyms...).',
+  'badge.explorer.condition': 'Explorer 3 sujets',
+  'badge.scholar.name': 'Bolé',
+  'badge.scholar.description': 'Atteignez le niveau 5 en étant un étudiant actif.',
+  'badge.scholar.condition': 'Atteindre le niveau 5',
+
+  // Report a problem
+  'report.title': 'Signaler un problème',
+  'report.email': 'Adresse courriel',
+  'report.emailPlaceholder': 'vous@courriel.com',
+  'report.message': 'Décrivez le problème',
+  'report.messagePlaceholder': "Décrivez ce qui s'est passé...",
+  'report.submit': 'Envoyer le signalement',
+  'report.sending': 'Envoi...',
+  'report.submitted': 'Signalement envoyé!',
+  'report.thanks': 'Merci de votre rétroaction! Nous allons examiner la situation.',
+  'report.failed': "Échec de l'envoi. Veuillez réessayer.",
+  'report.networkError': 'Erreur réseau. Veuillez réessayer.',
+
+  // About
+  'about.title': 'À propos de Campus Companion',
+  'about.intro': "Campus Companion est votre guide intelligent et interactif de la vie universitaire, alimenté par les données de VOTRE université. Plus besoin de fouiller des wikis périmés ou des fils Reddit sans fin : obtenez des réponses instantanées et exactes sur votre campus.",
+  'about.personas.title': 'Personnages IA',
+  'about.personas.body': 'Discutez avec des personnalités distinctes pour {universities}.',
+  'about.personas.universities': "UW, UofT, McMaster, Western, Queen's et TMU",
+  'about.gamification.title': 'Ludification',
+  'about.gamification.body': 'Gagnez des points, débloquez des badges (comme « Oiseau de nuit ») et montez de niveau en explorant les ressources du campus.',
+  'about.maps.title': 'Cartes interactives',
+  'about.maps.body': 'Demandez « Où est la bibliothèque? » et obtenez une carte interactive qui vous indique exactement où aller.',
+  'about.events.title': "Alertes d'événements",
+  'about.events.body': "Ouvrez l'onglet Événements pour voir les ateliers et activités à venir, résumés chaque semaine par l'IA.",
+  'about.multifaith.title': 'Espaces multiconfessionnels',
+  'about.multifaith.body': 'Trouvez des salles de prière, des espaces de méditation et des centres multiconfessionnels sur chaque campus.',
+  'about.campusMaps.title': 'Cartes du campus',
+  'about.campusMaps.body': 'Explorez des cartes interactives du campus avec les bâtiments, les restos, les bibliothèques et les repères importants.',
+  'about.howItWorks': 'Comment ça marche',
+  'about.howItWorksBody': "Campus Companion utilise le modèle {model} pour traiter les questions en langage naturel. Nous injectons des données structurées sur le campus (bibliothèques, heures, ressources) directement dans le contexte de l'IA, pour des réponses exactes sur un ton conversationnel.",
+  'about.model': 'Gemini 2.5 Flash de Google',
+  'about.builtWith': 'Conçu avec React, Tailwind CSS et Leaflet.',
+  'about.creators': '— étudiants en génie logiciel @ uwaterloo',
+  'about.gotIt': 'Compris',
+
+  // Sign in / sign up
+  'auth.tagline': 'Votre copilote IA pour la vie universitaire',
+  'auth.login': 'Connexion',
+  'auth.signup': 'Inscription',
+  'auth.fullName': 'Nom complet',
+  'auth.fullNamePlaceholder': 'Jean Tremblay',
+  'auth.email': 'Adresse courriel',
+  'auth.emailPlaceholder': 'etudiant@universite.ca',
+  'auth.password': 'Mot de passe',
+  'auth.passwordHint': '8 caractères min., majuscule, minuscule, caractère spécial (!@#$)',
+  'auth.passwordInvalid': 'Le mot de passe doit compter au moins 8 caractères et inclure une majuscule, une minuscule et un caractère spécial (!@#$%^&*).',
+  'auth.nameRequired': 'Veuillez entrer votre nom.',
+  'auth.genericError': "Une erreur s'est produite",
+  'auth.selectUniversity': 'Choisissez votre université',
+  'auth.welcomeBack': 'Se connecter',
+  'auth.createAccount': 'Créer un compte',
+  'auth.checkEmail': 'Vérifiez vos courriels!',
+  'auth.sentTo': 'Nous avons envoyé un lien de confirmation à :',
+  'auth.nextSteps': 'Prochaines étapes :',
+  'auth.step1': 'Ouvrez le courriel de UniPilot',
+  'auth.step2': 'Cliquez sur le lien de confirmation',
+  'auth.step3': 'Revenez ici et connectez-vous!',
+  'auth.spamHint': "Vous ne l'avez pas reçu? Vérifiez vos indésirables.",
+};
+
+export default fr;
@@ -0,0 +1,74 @@
+import { parseProviderName } from '../services/llm/index.js';
+import { LLM_TASKS, resolveModelChains } from '../services/llm/modelConfig.js';
+
+// Prints the model chain each task runs on (services/llm/modelConfig.ts, with LLM_MODEL / LLM_MODELS
+// applied) and, for Gemini, flags configured models the API key can't use.
+//
+//   npm run check-models
+//   LLM_MODELS='{"chat":["gemini-2.5-pro","gemini-2.5-flash"]}' npm run check-models
+
+const GEMINI_MODELS_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+// Models the key can call generateContent on, following pagination
+const listGeminiModels = async (apiKey: string): Promise<Set<string>> => {
+  const models = new Set<string>();
+  let pageToken = '';
+  do {
+    const response = await fetch(`${GEMINI_MODELS_URL}?key=${apiKey}&pageSize=1000${pageToken ? `&pageToken=${pageToken}` : ''}`);
+    const data = await response.json();
+    if (!response.ok || data.error) {
+      throw new Error(`Gemini API error ${response.status}: ${data.error?.message || response.statusText}`);
+    }
+    for (const model of data.models || []) {
+      if (model.supportedGenerationMethods?.includes('generateContent')) {
+        models.add(String(model.name).replace(/^models\//, ''));
+      }
+    }
+    pageToken = data.nextPageToken || '';
+  } while (pageToken);
+  return models;
+};
+
+const main = async () => {
+  const provider = parseProviderName(process.env.LLM_PROVIDER);
+  const chains = resolveModelChains(provider, { model: process.env.LLM_MODEL, models: process.env.LLM_MODELS });
+
+  const apiKey = process.env.GEMINI_API_KEY || process.env.VITE_GEMINI_API_KEY;
+  let available: Set<string> | null = null;
+  if (provider === 'gemini') {
+    if (apiKey) {
+      available = await listGeminiModels(apiKey);
+    } else {
+      console.error('GEMINI_API_KEY is not set; listing the configured chains without checking them.\n');
+    }
+  }
+
+  console.log(`Provider: ${provider}\n`);
+  let missing = 0;
+  for (const task of LLM_TASKS) {
+    console.log(`${task}:`);
+    for (const settings of chains[task]) {
+      const known = !available || available.has(settings.model);
+      if (!known) missing++;
+      const details = [
+        settings.temperature !== undefined ? `temperature ${settings.temperature}` : '',
+        settings.maxOutputTokens !== undefined ? `max ${settings.maxOutputTokens} tokens` : '',
+        settings.timeoutMs !== undefined ? `timeout ${settings.timeoutMs / 1000}s` : '',
+      ].filter(Boolean).join(', ');
+      console.log(`  ${known ? ' ' : '!'} ${settings.model}${details ? ` (${details})` : ''}${known ? '' : '  <- not available to this key'}`);
+    }
+  }
+
+  if (available) {
+    console.log(`\n${available.size} models available to this key.`);
+    if (missing > 0) {
+      console.error(`${missing} configured model(s) are not available.`);
+      process.exitCode = 1;
+    }
+  }
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,37 +0,0 @@
-import fs from 'fs';
-import path from 'path';
-
-// Load .env manually
-const envPath = path.resolve(process.cwd(), '.env');
-const envContent = fs.readFileSync(envPath, 'utf-8');
-const envVars = content => content.split('\n').reduce((acc, line) => {
-    const [key, val] = line.split('=');
-    if (key && val) acc[key.trim()] = val.trim();
-    return acc;
-}, {});
-
-const config = envVars(envContent);
-const apiKey = config.VITE_GEMINI_API_KEY;
-
-if (!apiKey) {
-    console.error("No API KEY found in .env");
-    process.exit(1);
-}
-
-console.log("Fetching models...");
-
-fetch(`https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`)
-    .then(res => res.json())
-    .then(data => {
-        if (data.error) {
-            console.error("API Error:", data.error);
-        } else {
-            console.log("\nAvailable Models:");
-            data.models.forEach(m => {
-                if (m.supportedGenerationMethods.includes("generateContent")) {
-                    console.log(`- ${m.name.replace('models/', '')}`);
-                }
-            });
-        }
-    })
-    .catch(err => console.error("Fetch Error:", err));
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import { createProvider, parseProviderName, LLMProvider } from '../services/llm/index.js';
+import { createRecordingEntry, LLMRecording, RecordingProvider, ReplayProvider } from '../services/llm/recordedProvider.js';
+import { compareEvalReports, EvalReport, formatEvalReport, runEvaluation } from '../services/evaluation.js';
+import { EVAL_QUESTIONS } from '../services/evalQuestions.js';
+
+// Command-line runner for the offline evaluation (services/evaluation.ts).
+//
+//   npm run eval -- --label before --out eval-before.json       run with LLM_PROVIDER (gemini | openai | mock)
+//   npm run eval -- --label live --record eval-recording.json   ...and keep every model reply
+//   npm run eval -- --replay eval-recording.json                score recorded replies, no network
+//   npm run eval -- --compare eval-before.json eval-after.json  markdown comparison of two reports
+//
+// --university uw,mac limits the run to those universities.
+
+const USAGE = 'Usage: npm run eval -- [--label name] [--out report.json] [--university id,...] [--record file | --replay file] | --compare base.json head.json';
+
+const parseArgs = (argv: string[]) => {
+  const options: Record<string, string[]> = {};
+  let current: string | null = null;
+  for (const arg of argv) {
+    if (arg.startsWith('--')) {
+      current = arg.slice(2);
+      options[current] = options[current] || [];
+    } else if (current) {
+      options[current].push(arg);
+    } else {
+      throw new Error(`Unexpected argument "${arg}"\n${USAGE}`);
+    }
+  }
+  return options;
+};
+
+const readJson = <T>(file: string): T => JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+// Same environment variables as the /api/chat route
+const getLiveProvider = () => {
+  const provider = parseProviderName(process.env.LLM_PROVIDER);
+  return createProvider({
+    provider,
+    apiKey: provider === 'openai' ? process.env.OPENAI_API_KEY : process.env.GEMINI_API_KEY,
+    baseUrl: process.env.OPENAI_BASE_URL,
+    model: process.env.LLM_MODEL,
+    models: process.env.LLM_MODELS,
+  });
+};
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.compare) {
+    if (args.compare.length !== 2) throw new Error(USAGE);
+    const [base, head] = args.compare.map(file => readJson<EvalReport>(file));
+    process.stdout.write(compareEvalReports(base, head));
+    return;
+  }
+
+  const universityIds = args.university?.flatMap(value => value.split(',')).filter(Boolean);
+  const unknown = universityIds?.filter(id => !EVAL_QUESTIONS[id]) || [];
+  if (unknown.length > 0) throw new Error(`No golden questions for: ${unknown.join(', ')}`);
+
+  const recordFile = args.record?.[0];
+  const replayFile = args.replay?.[0];
+  if (recordFile && replayFile) throw new Error('Use either --record or --replay, not both');
+
+  const replay = replayFile ? readJson<LLMRecording>(replayFile) : null;
+  const recording: LLMRecording = {};
+  const live: LLMProvider | null = replay ? null : getLiveProvider();
+
+  const getProvider = (question: { id: string }): LLMProvider => {
+    if (replay) return new ReplayProvider(replay[question.id] || createRecordingEntry());
+    if (recordFile) return new RecordingProvider(live!, (recording[question.id] = createRecordingEntry()));
+    return live!;
+  };
+
+  const report = await runEvaluation({
+    label: args.label?.[0] || 'current',
+    universityIds,
+    getProvider,
+    onResult: (result) => {
+      const status = result.error ? `error: ${result.error}` : `missing ${result.missingFacts.length}, pins ${result.pinScore ?? '-'}, ${result.wordCount} words`;
+      console.error(`${result.score.toFixed(3)}  ${result.id}  (${status})`);
+    },
+  });
+
+  if (recordFile) fs.writeFileSync(recordFile, `${JSON.stringify(recording, null, 2)}\n`);
+
+  const { summary } = report;
+  console.error(`\n${report.label}: score ${summary.score.toFixed(3)}, facts ${summary.factCoverage.toFixed(3)}, pins ${summary.pinScore?.toFixed(3) ?? '-'}, length ${summary.lengthOk.toFixed(3)}, errors ${summary.errors} (${summary.questions} questions, prompt ${report.promptFingerprint})`);
+
+  if (args.out?.[0]) {
+    fs.writeFileSync(args.out[0], formatEvalReport(report));
+    console.error(`Report written to ${args.out[0]}`);
+  }
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,107 +1,231 @@
 
-import { Message, CampusEvent } from '../types';
+import { ChatReply, ChatBranch, ChatImage, Language, UsageQuota, ApiErrorBody, ApiErrorCode } from '../types';
 import { API_BASE_URL } from '../constants';
 import { getToken } from './authService';
 
-const getHeaders = () => {
-  const token = getToken();
+const getHeaders = async () => {
+  const token = await getToken();
   return {
     'Content-Type': 'application/json',
     'Authorization': token ? `Bearer ${token}` : '',
   };
 };
 
-export const chatWithBackend = async (
+/**
+ * A failed API request, by its error code (see api/_lib/errors.ts), so the UI can show the matching state:
+ * a countdown, a retry button or a sign-in prompt
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly retryAfterSeconds?: number,
+    readonly text?: string // The server's own explanation for the student, when it sent one
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Deployments older than the error contract only send a status
+const CODE_BY_STATUS: Record<number, ApiErrorCode> = {
+  400: 'invalid_request',
+  401: 'unauthorized',
+  403: 'unauthorized',
+  429: 'rate_limited',
+};
+
+const toApiError = (body: Partial<ApiErrorBody>, status?: number, retryAfterHeader?: string | null) =>
+  new ApiError(
+    body.code || (status && CODE_BY_STATUS[status]) || 'provider_unavailable',
+    body.error || `API error: ${status}`,
+    Number(retryAfterHeader || body.retryAfter) || undefined,
+    body.text
+  );
+
+const readApiError = async (response: Response) =>
+  toApiError(await response.json().catch(() => ({})), response.status, response.headers.get('Retry-After'));
+
+/**
+ * Chat with Vercel API route (for secure production deployment)
+ * Uses relative path so it works in both dev and production.
+ * The route reads the student's progress itself, so no user context is sent.
+ * Aborting `signal` cancels the request, and the route stops generating without saving the turn.
+ */
+export const chatWithVercelAPI = async (
   universityId: string,
   userMessage: string,
-  history: Message[],
-  userContext: string,
-  sessionId: string | null
-): Promise<{ text: string; mapLocation?: { lat: number; lng: number; name: string } }> => {
+  history: { sender: string; text: string }[],
+  sessionId: string | null = null,
+  branch: ChatBranch = {},
+  language?: Language,
+  image?: ChatImage,
+  signal?: AbortSignal
+): Promise<ChatReply> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/chat`, {
+    const response = await fetch('/api/chat', {
       method: 'POST',
-      headers: getHeaders(),
+      signal,
+      headers: await getHeaders(),
       body: JSON.stringify({
         universityId,
         userMessage,
-        history,
-        userContext,
-        sessionId // Pass session ID for database persistence
+        history: history.map(m => ({ sender: m.sender, text: m.text })),
+        sessionId,
+        parentId: branch.parentId,
+        retryOfMessageId: branch.retryOfMessageId,
+        language,
+        image
       })
     });
 
-    if (response.status === 401) {
-        localStorage.removeItem('token');
-        window.location.reload();
-        throw new Error("Unauthorized");
-    }
-
     if (!response.ok) {
-      throw new Error('Backend error');
+      throw await readApiError(response);
     }
 
-    const data = await response.json();
-    return data;
+    return await response.json();
   } catch (error) {
-    console.error("API Error:", error);
+    if (!signal?.aborted) console.error("Vercel API Error:", error);
     throw error;
   }
 };
 
 /**
- * Chat with Vercel API route (for secure production deployment)
- * Uses relative path so it works in both dev and production
+ * Streaming variant of chatWithVercelAPI
+ * Reads Server-Sent Events from /api/chat, calling onDelta with the accumulated text as it arrives.
+ * Resolves with the final text and map pins once the `done` event is received; aborting `signal`
+ * cancels it like chatWithVercelAPI.
  */
-export const chatWithVercelAPI = async (
+export const chatWithVercelAPIStream = async (
   universityId: string,
   userMessage: string,
   history: { sender: string; text: string }[],
-  userContext: string
-): Promise<{ text: string; mapLocation?: { lat: number; lng: number; name: string } }> => {
+  sessionId: string | null,
+  branch: ChatBranch,
+  language: Language | undefined,
+  image: ChatImage | undefined,
+  onDelta: (textSoFar: string) => void,
+  signal?: AbortSignal
+): Promise<ChatReply> => {
   try {
     const response = await fetch('/api/chat', {
       method: 'POST',
+      signal,
       headers: {
-        'Content-Type': 'application/json',
+        ...await getHeaders(),
+        'Accept': 'text/event-stream',
       },
       body: JSON.stringify({
         universityId,
         userMessage,
         history: history.map(m => ({ sender: m.sender, text: m.text })),
-        userContext
+        sessionId,
+        parentId: branch.parentId,
+        retryOfMessageId: branch.retryOfMessageId,
+        language,
+        image,
+        stream: true
       })
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      if (errorData.text) {
-        return { text: errorData.text };
+      throw await readApiError(response);
+    }
+
+    // Older deployments (or proxies that buffer) may still answer with plain JSON
+    if (!response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+      return await response.json();
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE events are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        let eventName = 'message';
+        let data = '';
+        for (const line of rawEvent.split('\n')) {
+          if (line.startsWith('event:')) eventName = line.slice(6).trim();
+          else if (line.startsWith('data:')) data += line.slice(5).trim();
+        }
+        if (!data) continue;
+
+        const payload = JSON.parse(data);
+
+        if (eventName === 'delta') {
+          text += payload.text;
+          onDelta(text);
+        } else if (eventName === 'done') {
+          return {
+            text: payload.text || text,
+            sessionId: payload.sessionId,
+            sessionTitle: payload.sessionTitle,
+            userMessageId: payload.userMessageId,
+            aiMessageId: payload.aiMessageId,
+            mapLocations: payload.mapLocations,
+            route: payload.route || undefined,
+            contextEntries: payload.contextEntries,
+            toolCalls: payload.toolCalls,
+            citations: payload.citations,
+            followUps: payload.followUps,
+            model: payload.model
+          };
+        } else if (eventName === 'error') {
+          // The text streamed so far stays on screen in the error bubble
+          throw toApiError(payload);
+        }
       }
-      throw new Error(`API error: ${response.status}`);
     }
 
-    return await response.json();
+    // Stream closed without a `done` event: the turn fails (keeping the text on screen). The route may
+    // still have saved it - it saves before sending `done` - so retrying reloads the session first (App.tsx).
+    throw new ApiError('provider_unavailable', 'Response stream ended early');
   } catch (error) {
-    console.error("Vercel API Error:", error);
+    if (!signal?.aborted) console.error("Vercel API Stream Error:", error);
     throw error;
   }
 };
 
-export const summarizeEventsBackend = async (universityId: string, events: CampusEvent[]): Promise<string> => {
+/**
+ * The Events tab briefing from /api/events/summarize (the server reads the events itself).
+ * Throws an ApiError when the route refuses, e.g. over the daily quota.
+ */
+export const summarizeEventsBackend = async (universityId: string, language?: Language): Promise<string> => {
+    const response = await fetch(`${API_BASE_URL}/events/summarize`, {
+        method: 'POST',
+        headers: await getHeaders(),
+        body: JSON.stringify({ universityId, language })
+    });
+    if (!response.ok) {
+        throw await readApiError(response);
+    }
+    const data = await response.json();
+    return data.summary;
+};
+
+/**
+ * The signed-in user's AI allowance for today, or null when it can't be read
+ */
+export const getUsageQuota = async (): Promise<UsageQuota | null> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/events/summarize`, {
-            method: 'POST',
-            headers: getHeaders(),
-            body: JSON.stringify({
-                university_id: universityId,
-                events: events
-            })
-        });
-        const data = await response.json();
-        return data.summary;
+        const response = await fetch(`${API_BASE_URL}/usage`, { headers: await getHeaders() });
+        if (!response.ok) return null;
+        return await response.json();
     } catch (error) {
         console.error("API Error:", error);
-        return "Unable to generate summary via backend.";
+        return null;
     }
 };
@@ -662,6 +662,11 @@ export const DATA_UOFT: CampusData = {
       name: "Centre for Entrepreneurship",
       contact: "entrepreneurship@utoronto.ca",
       description: "Resources for student startups and business development."
+    },
+    {
+      name: "Health & Wellness Centre",
+      contact: "416-978-8030",
+      description: "214 College St. Medical and mental health appointments, with same-day appointments for urgent needs."
     }
   ],
   faq: [
@@ -1423,6 +1428,11 @@ export const DATA_WESTERN: CampusData = {
       name: "Chief AI Officer",
       contact: "caio@uwo.ca",
       description: "Resources and community of practice for AI in education."
+    },
+    {
+      name: "Student Health Services",
+      contact: "519-661-3030",
+      description: "UCC. Medical and mental health appointments, with walk-in hours."
     }
   ],
   faq: [
@@ -2080,6 +2090,11 @@ export const DATA_TMU: CampusData = {
       name: "TMSU (Student Union)",
       contact: "info@yourtmsu.ca",
       description: "Student government and advocacy services."
+    },
+    {
+      name: "Student Wellbeing",
+      contact: "416-979-5000",
+      description: "Health Services and mental health support. Book appointments through my.torontomu.ca."
     }
   ],
   faq: [
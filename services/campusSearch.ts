@@ -0,0 +1,193 @@
+import { CampusData, CampusEntryKind, CampusContextEntry } from '../types.js';
+
+// Local BM25 search over a university's CampusData.
+// Shared by the Vercel route and the client-side mode so the model only sees the entries
+// relevant to the current question instead of the whole JSON blob.
+
+interface IndexedDocument {
+  key: string; // e.g. "location:3" - kind plus position in the CampusData array
+  kind: CampusEntryKind;
+  title: string;
+  entry: unknown;
+  termFreqs: Map<string, number>;
+  length: number;
+}
+
+export interface CampusSearchHit extends CampusContextEntry {
+  entry: unknown;
+}
+
+interface CampusIndex {
+  documents: IndexedDocument[];
+  docFreqs: Map<string, number>;
+  avgLength: number;
+}
+
+// BM25 tuning - standard defaults work well for short, field-like documents
+const K1 = 1.2;
+const B = 0.75;
+
+// Weight of terms taken from earlier user turns relative to the current question
+const HISTORY_WEIGHT = 0.5;
+const HISTORY_TURNS = 2;
+
+const DEFAULT_TOP_K = 8;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'get', 'how',
+  'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'the', 'there', 'to', 'what', 'when', 'where',
+  'which', 'who', 'with', 'you', 'your', 'any', 'some', 'about', 'this', 'that', 'find', 'tell',
+]);
+
+// Extra terms attached to every entry of a kind so generic questions ("what's happening this week?")
+// still reach the right section of the data
+const KIND_TERMS: Record<CampusEntryKind, string> = {
+  location: 'place building spot',
+  faq: 'question',
+  resource: 'resource service office help contact support',
+  event: 'event happening week workshop activity',
+  multiFaithSpace: 'pray prayer faith multifaith meditation worship religious spiritual',
+};
+
+const stem = (token: string) => {
+  if (token.length > 4 && token.endsWith('ies')) return token.slice(0, -3) + 'y';
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+};
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+
+const buildDocument = (kind: CampusEntryKind, index: number, title: string, text: string, entry: unknown): IndexedDocument => {
+  // Titles are repeated so a name match outranks a passing mention in a description
+  const tokens = tokenize(`${title} ${title} ${text} ${KIND_TERMS[kind]}`);
+  const termFreqs = new Map<string, number>();
+  for (const token of tokens) {
+    termFreqs.set(token, (termFreqs.get(token) || 0) + 1);
+  }
+  return { key: `${kind}:${index}`, kind, title, entry, termFreqs, length: tokens.length };
+};
+
+const buildIndex = (campusData: CampusData): CampusIndex => {
+  const documents: IndexedDocument[] = [
+    ...campusData.locations.map((l, i) =>
+      buildDocument('location', i, l.name, `${l.type} ${l.description} ${l.features.join(' ')} ${l.hours || ''}`, l)),
+    ...campusData.faq.map((f, i) =>
+      buildDocument('faq', i, f.question, f.answer, f)),
+    ...campusData.resources.map((r, i) =>
+      buildDocument('resource', i, r.name, `${r.description} ${r.contact}`, r)),
+    ...campusData.events.map((e, i) =>
+      buildDocument('event', i, e.title, `${e.category} ${e.date} ${e.location} ${e.description}`, e)),
+    ...campusData.multiFaithSpaces.map((s, i) =>
+      buildDocument('multiFaithSpace', i, s.name, `${s.location} ${s.description} ${s.amenities.join(' ')} ${s.hours}`, s)),
+  ];
+
+  const docFreqs = new Map<string, number>();
+  for (const doc of documents) {
+    for (const term of doc.termFreqs.keys()) {
+      docFreqs.set(term, (docFreqs.get(term) || 0) + 1);
+    }
+  }
+
+  const totalLength = documents.reduce((sum, doc) => sum + doc.length, 0);
+
+  return {
+    documents,
+    docFreqs,
+    avgLength: documents.length > 0 ? totalLength / documents.length : 0,
+  };
+};
+
+// Indexes are built once per university and reused for the lifetime of the process / page
+const indexCache = new Map<string, { data: CampusData; index: CampusIndex }>();
+
+const getCampusIndex = (universityId: string, campusData: CampusData): CampusIndex => {
+  const cached = indexCache.get(universityId);
+  if (cached && cached.data === campusData) return cached.index;
+
+  const index = buildIndex(campusData);
+  indexCache.set(universityId, { data: campusData, index });
+  return index;
+};
+
+/**
+ * Rank campus entries for a question (plus recent user turns) and return the top-k hits
+ * Pass `kinds` to only search some sections of the data (e.g. just the FAQ).
+ */
+export const searchCampusData = (
+  universityId: string,
+  campusData: CampusData,
+  query: string,
+  history: { sender: string; text: string }[] = [],
+  topK: number = DEFAULT_TOP_K,
+  kinds?: CampusEntryKind[]
+): CampusSearchHit[] => {
+  const index = getCampusIndex(universityId, campusData);
+  const totalDocs = index.documents.length;
+  const documents = kinds ? index.documents.filter(doc => kinds.includes(doc.kind)) : index.documents;
+
+  // Weighted query terms: the current question counts fully, recent user turns add context
+  const queryWeights = new Map<string, number>();
+  for (const token of tokenize(query)) {
+    queryWeights.set(token, 1);
+  }
+  const recentUserTurns = history.filter(m => m.sender === 'user').slice(-HISTORY_TURNS);
+  for (const turn of recentUserTurns) {
+    for (const token of tokenize(turn.text)) {
+      if (!queryWeights.has(token)) queryWeights.set(token, HISTORY_WEIGHT);
+    }
+  }
+
+  const scored = documents.map(doc => {
+    let score = 0;
+    for (const [term, weight] of queryWeights) {
+      const tf = doc.termFreqs.get(term);
+      if (!tf) continue;
+      const df = index.docFreqs.get(term) || 0;
+      const idf = Math.log(1 + (totalDocs - df + 0.5) / (df + 0.5));
+      const norm = tf + K1 * (1 - B + B * (doc.length / index.avgLength));
+      score += weight * idf * ((tf * (K1 + 1)) / norm);
+    }
+    return { doc, score };
+  });
+
+  return scored
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(({ doc, score }) => ({
+      key: doc.key,
+      kind: doc.kind,
+      title: doc.title,
+      score: Math.round(score * 100) / 100,
+      entry: doc.entry,
+    }));
+};
+
+/**
+ * Format search hits as a compact knowledge-base block for the system prompt
+ */
+export const formatCampusContext = (hits: CampusSearchHit[]): string => {
+  if (hits.length === 0) {
+    return 'No matching campus entries were found for this question.';
+  }
+
+  const grouped: Partial<Record<CampusEntryKind, unknown[]>> = {};
+  for (const hit of hits) {
+    (grouped[hit.kind] ||= []).push(hit.entry);
+  }
+
+  return JSON.stringify(grouped, null, 2);
+};
+
+/**
+ * Strip the raw entries from hits so they can be returned to the client
+ */
+export const toContextEntries = (hits: CampusSearchHit[]): CampusContextEntry[] =>
+  hits.map(({ key, kind, title, score }) => ({ key, kind, title, score }));
@@ -0,0 +1,304 @@
+import { CampusData, CampusEntryRef, CampusEvent, MapPin, MapRoute } from '../types.js';
+import { LLMToolCall, LLMToolDeclaration, LLMToolResult } from './llm/types.js';
+import { searchCampusData } from './campusSearch.js';
+import { matchCampusLocation } from './mapValidation.js';
+
+// Tools the model can call to ground answers in campus data.
+// Every tool executes against the university's CampusData, never against model output,
+// so whatever comes back to the client has been verified.
+
+const EVENT_CATEGORIES: CampusEvent['category'][] = ['Academic', 'Social', 'Career', 'Wellness'];
+
+export const displayMapTool: LLMToolDeclaration = {
+  name: "display_map",
+  description: "Display an interactive map of a specific campus location.",
+  parameters: {
+    type: 'object',
+    properties: {
+      location_name: {
+        type: 'string',
+        description: "The name of the location to find on the map.",
+        nullable: false
+      }
+    },
+    required: ["location_name"]
+  }
+};
+
+export const showRouteTool: LLMToolDeclaration = {
+  name: "show_route",
+  description: "Draw a route on the map between campus locations, in the order given (start first).",
+  parameters: {
+    type: 'object',
+    properties: {
+      waypoints: {
+        type: 'array',
+        description: "Location names in travel order, at least a start and a destination.",
+        items: { type: 'string' },
+        nullable: false
+      }
+    },
+    required: ["waypoints"]
+  }
+};
+
+export const listEventsTool: LLMToolDeclaration = {
+  name: "list_events",
+  description: "List upcoming campus events, optionally filtered by date range and category.",
+  parameters: {
+    type: 'object',
+    properties: {
+      start_date: {
+        type: 'string',
+        description: "Earliest date to include, as YYYY-MM-DD. Omit for no lower bound.",
+      },
+      end_date: {
+        type: 'string',
+        description: "Latest date to include, as YYYY-MM-DD. Use the same value as start_date for a single day.",
+      },
+      category: {
+        type: 'string',
+        description: "Only include events of this category.",
+        enum: EVENT_CATEGORIES,
+      }
+    }
+  }
+};
+
+export const findMultiFaithSpaceTool: LLMToolDeclaration = {
+  name: "find_multifaith_space",
+  description: "Find prayer, meditation and multi-faith spaces on campus, optionally requiring an amenity.",
+  parameters: {
+    type: 'object',
+    properties: {
+      amenity: {
+        type: 'string',
+        description: "An amenity the space must have, e.g. 'wudhu', 'prayer mats', 'quiet'.",
+      }
+    }
+  }
+};
+
+export const searchFaqTool: LLMToolDeclaration = {
+  name: "search_faq",
+  description: "Search the university's frequently asked questions.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: "What the student wants to know.",
+        nullable: false
+      }
+    },
+    required: ["query"]
+  }
+};
+
+export const lookupResourceTool: LLMToolDeclaration = {
+  name: "lookup_resource",
+  description: "Look up a student service or office (contact details and description) by name or topic.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: "The service name or topic, e.g. 'registrar', 'counselling', 'co-op'.",
+        nullable: false
+      }
+    },
+    required: ["query"]
+  }
+};
+
+export const CAMPUS_TOOLS: LLMToolDeclaration[] = [
+  displayMapTool,
+  showRouteTool,
+  listEventsTool,
+  findMultiFaithSpaceTool,
+  searchFaqTool,
+  lookupResourceTool,
+];
+
+// Campus data describes some amenities differently from how students ask for them
+const AMENITY_SYNONYMS: Record<string, string[]> = {
+  wudhu: ['ablution', 'wudhu', 'wudu'],
+  wudu: ['ablution', 'wudhu', 'wudu'],
+  ablution: ['ablution', 'wudhu', 'wudu'],
+  quiet: ['quiet', 'silent'],
+};
+
+const MAX_EVENTS = 8;
+const MAX_SEARCH_RESULTS = 3;
+
+/**
+ * Resolve a display_map location name against the campus data, snapping near-misses to the closest name
+ */
+export const findMapLocation = (
+  campusData: CampusData,
+  locName: string
+): MapPin | null => {
+  const location = matchCampusLocation(campusData, locName)?.location;
+
+  if (!location || !location.coordinates) return null;
+
+  return {
+    lat: location.coordinates[0],
+    lng: location.coordinates[1],
+    name: location.name
+  };
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse CampusEvent.date strings such as "Jan 6, 2026", "Mar 6-8, 2026" or "Jan 14, 2026 onwards"
+ * into a UTC day range. Returns null for recurring or vague dates ("Fridays", "Exam Period").
+ */
+export const parseEventDateRange = (date: string): { start: number; end: number } | null => {
+  const match = date.toLowerCase().match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:\s*-\s*(\d{1,2}))?,?\s+(\d{4})(\s+onwards)?/);
+  if (!match) return null;
+
+  const month = MONTHS.indexOf(match[1]);
+  if (month === -1) return null;
+
+  const year = Number(match[4]);
+  const start = Date.UTC(year, month, Number(match[2]));
+  const end = match[5]
+    ? Number.POSITIVE_INFINITY
+    : Date.UTC(year, month, Number(match[3] || match[2]));
+
+  return { start, end };
+};
+
+const parseIsoDay = (value: unknown): number | null => {
+  if (typeof value !== 'string') return null;
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+};
+
+// Recurring events ("Fridays") match when the requested range contains that weekday
+const matchesRecurringDay = (date: string, from: number, to: number) => {
+  const weekday = WEEKDAYS.findIndex(day => date.toLowerCase().startsWith(day));
+  if (weekday === -1) return false;
+  for (let day = from; day <= to && day < from + 7 * DAY_MS; day += DAY_MS) {
+    if (new Date(day).getUTCDay() === weekday) return true;
+  }
+  return false;
+};
+
+const ref = (kind: CampusEntryRef['kind'], index: number, title: string): CampusEntryRef =>
+  ({ key: `${kind}:${index}`, kind, title });
+
+export interface CampusToolExecution {
+  toolResult: LLMToolResult;
+  matches: CampusEntryRef[];
+  mapLocation?: MapPin;
+  route?: MapRoute;
+}
+
+/**
+ * Execute a tool call from the model against the campus data
+ */
+export const executeCampusTool = (
+  universityId: string,
+  campusData: CampusData,
+  call: LLMToolCall
+): CampusToolExecution => {
+  const reply = (response: Record<string, unknown>, matches: CampusEntryRef[] = []): CampusToolExecution => ({
+    toolResult: { id: call.id, name: call.name, response },
+    matches,
+  });
+
+  switch (call.name) {
+    case 'display_map': {
+      const mapLocation = findMapLocation(campusData, String(call.args['location_name'] ?? ''));
+      if (!mapLocation) return reply({ result: 'Location not found.' });
+
+      const index = campusData.locations.findIndex(l => l.name === mapLocation.name);
+      const location = campusData.locations[index];
+      return {
+        ...reply(
+          { result: `Found: ${location.name}`, description: location.description, hours: location.hours || 'Not listed' },
+          [ref('location', index, location.name)]
+        ),
+        mapLocation,
+      };
+    }
+
+    case 'show_route': {
+      const names = Array.isArray(call.args['waypoints']) ? call.args['waypoints'].map(String) : [];
+      const resolved = names.map(name => ({ name, pin: findMapLocation(campusData, name) }));
+      const missing = resolved.filter(r => !r.pin).map(r => r.name);
+      const waypoints = resolved.flatMap(r => r.pin ? [r.pin] : []);
+
+      if (waypoints.length < 2) {
+        return reply({ result: 'Not enough known locations to draw a route.', notFound: missing });
+      }
+
+      const matches = waypoints.map(pin => {
+        const index = campusData.locations.findIndex(l => l.name === pin.name);
+        return ref('location', index, pin.name);
+      });
+      return {
+        ...reply({ result: `Route: ${waypoints.map(p => p.name).join(' → ')}`, notFound: missing }, matches),
+        route: { waypoints },
+      };
+    }
+
+    case 'list_events': {
+      const from = parseIsoDay(call.args['start_date']) ?? Number.NEGATIVE_INFINITY;
+      const to = parseIsoDay(call.args['end_date']) ?? Number.POSITIVE_INFINITY;
+      const category = call.args['category'];
+      const hasDateFilter = Number.isFinite(from) || Number.isFinite(to);
+
+      const events = campusData.events
+        .map((event, index) => ({ event, index }))
+        .filter(({ event }) => !category || event.category === category)
+        .filter(({ event }) => {
+          if (!hasDateFilter) return true;
+          const range = parseEventDateRange(event.date);
+          if (range) return range.start <= to && range.end >= from;
+          return Number.isFinite(from) && Number.isFinite(to) && matchesRecurringDay(event.date, from, to);
+        })
+        .slice(0, MAX_EVENTS);
+
+      return reply(
+        { events: events.map(({ event }) => event), count: events.length },
+        events.map(({ event, index }) => ref('event', index, event.title))
+      );
+    }
+
+    case 'find_multifaith_space': {
+      const amenity = String(call.args['amenity'] ?? '').toLowerCase().trim();
+      const terms = AMENITY_SYNONYMS[amenity] || [amenity];
+      const spaces = campusData.multiFaithSpaces
+        .map((space, index) => ({ space, index }))
+        .filter(({ space }) => !amenity || terms.some(term =>
+          space.amenities.some(a => a.toLowerCase().includes(term)) ||
+          space.description.toLowerCase().includes(term)));
+
+      return reply(
+        { spaces: spaces.map(({ space }) => space), count: spaces.length },
+        spaces.map(({ space, index }) => ref('multiFaithSpace', index, space.name))
+      );
+    }
+
+    case 'search_faq':
+    case 'lookup_resource': {
+      const kind = call.name === 'search_faq' ? 'faq' : 'resource';
+      const hits = searchCampusData(universityId, campusData, String(call.args['query'] ?? ''), [], MAX_SEARCH_RESULTS, [kind]);
+
+      return reply(
+        { results: hits.map(h => h.entry), count: hits.length },
+        hits.map(h => ({ key: h.key, kind: h.kind, title: h.title }))
+      );
+    }
+
+    default:
+      return reply({ error: `Unknown tool: ${call.name}` });
+  }
+};
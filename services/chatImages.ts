@@ -0,0 +1,34 @@
+import { ChatImage } from '../types.js';
+
+// Photos attached to questions, e.g. a room sign or building a student wants to find.
+// The browser downscales them before sending; /api/chat checks them again and they are
+// stored with the question (messages.image).
+
+export const CHAT_IMAGE_MIME_TYPES: ChatImage['mimeType'][] = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const MAX_CHAT_IMAGE_BYTES = 1024 * 1024; // Decoded size; the messages.image check allows the same once base64-encoded
+
+export const MAX_CHAT_IMAGE_DIMENSION = 1600; // Longest side in pixels after downscaling
+
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+// Decoded size of base64 data
+export const base64ByteLength = (data: string) =>
+  Math.floor((data.length * 3) / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+
+/**
+ * Why an image from a request can't be used, or null when it can
+ */
+export const getChatImageError = (value: unknown): string | null => {
+  if (!value || typeof value !== 'object') return 'Image must have a mimeType and data';
+  const { mimeType, data } = value as Record<string, unknown>;
+  if (!CHAT_IMAGE_MIME_TYPES.includes(mimeType as ChatImage['mimeType'])) {
+    return `Unsupported image type, expected one of ${CHAT_IMAGE_MIME_TYPES.join(', ')}`;
+  }
+  if (typeof data !== 'string' || !BASE64.test(data)) return 'Image data must be base64-encoded';
+  if (base64ByteLength(data) > MAX_CHAT_IMAGE_BYTES) return `Image is larger than ${MAX_CHAT_IMAGE_BYTES / (1024 * 1024)} MB`;
+  return null;
+};
+
+// data: URL for showing a stored image
+export const toImageSrc = (image: ChatImage) => `data:${image.mimeType};base64,${image.data}`;
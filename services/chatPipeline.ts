@@ -0,0 +1,145 @@
+import { CampusContextEntry, CampusEntryRef, CampusToolInvocation, ChatImage, Language, MapPin, MapRoute } from '../types.js';
+import { LLMProvider } from './llm/types.js';
+import { getUniversity, getCampusData } from './universityRegistry.js';
+import { searchCampusData, formatCampusContext, toContextEntries } from './campusSearch.js';
+import { buildSystemPrompt } from './promptBuilder.js';
+import { CAMPUS_TOOLS, executeCampusTool } from './campusTools.js';
+import { prepareHistory, SessionSummaryStore } from './historyManager.js';
+import { collectCitations } from './citations.js';
+import { suggestFollowUps } from './followUps.js';
+import { logRejectedMapPins, MapPinRejectionLog, validateMapData } from './mapValidation.js';
+import { resolveReplyLanguage } from './language.js';
+import { buildWellnessReply, classifyWellness } from './wellness.js';
+
+// One chat turn, independent of transport and LLM provider.
+// The /api/chat route and the client-side mode both run turns through here.
+
+// The model may chain tools (e.g. search_faq, then display_map); cap the rounds per turn
+const MAX_TOOL_ROUNDS = 4;
+
+export interface ChatTurnInput {
+  provider: LLMProvider;
+  universityId: string;
+  userMessage: string;
+  image?: ChatImage; // Photo attached to the question (checked with chatImages.getChatImageError)
+  history: { sender: string; text: string }[]; // Full session history - trimmed to the token budget here
+  sessionId?: string | null;
+  summaryStore?: SessionSummaryStore; // Where older turns are summarized per session
+  userContext?: string;
+  language?: Language; // The student's UI language; a question written in another language is answered in that one
+  rejectionLog?: MapPinRejectionLog; // Where map pins that fail validation are reported
+  onDelta?: (delta: string) => void; // Streams each new chunk of the reply
+  signal?: AbortSignal; // Cancels the model calls; the turn then rejects instead of returning
+}
+
+export interface ChatTurnOutput {
+  text: string;
+  mapLocations: MapPin[]; // Every display_map result that passed validation, in call order, without duplicates
+  route: MapRoute | null;
+  contextEntries: CampusContextEntry[];
+  toolCalls: CampusToolInvocation[];
+  citations: CampusEntryRef[]; // Entries the answer is grounded in (see citations.ts)
+  followUps: string[]; // Model-suggested next questions; empty when it had none (see followUps.ts)
+  model?: string; // The model that answered (see llm/modelConfig.ts); unset for the wellness reply
+}
+
+/**
+ * Run a chat turn: retrieve campus context, build the prompt, call the model and execute campus tools
+ */
+export const runChatTurn = async ({
+  provider,
+  universityId,
+  userMessage,
+  image,
+  history: fullHistory,
+  sessionId,
+  summaryStore,
+  userContext,
+  language: preferredLanguage,
+  rejectionLog,
+  onDelta,
+  signal,
+}: ChatTurnInput): Promise<ChatTurnOutput> => {
+  const university = getUniversity(universityId);
+  const campusData = getCampusData(universityId);
+  const language = resolveReplyLanguage(userMessage, preferredLanguage);
+
+  // A question signalling crisis or distress gets the fixed wellness reply, never the persona or the model
+  const wellness = classifyWellness(userMessage);
+  if (wellness) {
+    const reply = buildWellnessReply(university, campusData, wellness, language);
+    onDelta?.(reply.text);
+    return { text: reply.text, mapLocations: [], route: null, contextEntries: [], toolCalls: [], citations: reply.citations, followUps: [] };
+  }
+
+  const { history, summary } = await prepareHistory({ provider, history: fullHistory, sessionId, store: summaryStore, signal });
+
+  // Only the campus entries relevant to this question (and recent turns) go into the prompt
+  const hits = searchCampusData(universityId, campusData, userMessage, history);
+
+  const chat = provider.startChat({
+    systemInstruction: buildSystemPrompt({
+      university,
+      campusContext: formatCampusContext(hits),
+      userContext,
+      conversationSummary: summary,
+      today: new Date().toISOString().slice(0, 10),
+      language,
+      photoLocations: image ? campusData.locations.map(l => l.name) : undefined,
+    }),
+    history: history.map(m => ({ role: m.sender === 'user' ? 'user' : 'model', text: m.text })),
+    tools: CAMPUS_TOOLS,
+    task: 'chat',
+  });
+
+  // Not every provider notices a signal that was aborted before the request started
+  signal?.throwIfAborted();
+  let turn = await chat.send(image ? { text: userMessage, images: [image] } : userMessage, { onDelta, signal });
+  let text = turn.text;
+  const model = turn.model;
+  const mapLocations: MapPin[] = [];
+  let route: MapRoute | null = null;
+  const toolCalls: CampusToolInvocation[] = [];
+
+  for (let round = 0; turn.toolCalls.length > 0 && round < MAX_TOOL_ROUNDS; round++) {
+    const executions = turn.toolCalls.map(call => executeCampusTool(universityId, campusData, call));
+
+    executions.forEach((execution, i) => {
+      const call = turn.toolCalls[i];
+      toolCalls.push({ name: call.name, args: call.args, matches: execution.matches });
+      const pin = execution.mapLocation;
+      if (pin && !mapLocations.some(p => p.name === pin.name)) mapLocations.push(pin);
+      if (execution.route) route = execution.route;
+    });
+
+    turn = await chat.send(executions.map(e => e.toolResult), { onDelta, signal });
+    text += turn.text;
+  }
+
+  // Pins come from campus data, but a bad entry (or a fuzzy name match) must not put a pin off campus
+  const validated = validateMapData(university, campusData, mapLocations, route);
+  if (validated.rejected.length > 0) {
+    logRejectedMapPins(validated.rejected);
+    await rejectionLog?.record(validated.rejected).catch(error => {
+      console.error('Failed to record rejected map pins:', error);
+    });
+  }
+
+  const contextEntries = toContextEntries(hits);
+  const followUps = await suggestFollowUps({ provider, university, userMessage, answer: text, contextEntries, language, signal });
+
+  // Follow-ups swallow their errors, and a provider may finish a reply it was already sending, so a
+  // cancelled turn ends here rather than returning as if it had been answered
+  signal?.throwIfAborted();
+
+  return {
+    text,
+    mapLocations: validated.locations,
+    route: validated.route,
+    contextEntries,
+    toolCalls,
+    citations: collectCitations(campusData, text, contextEntries, toolCalls),
+    followUps,
+    model,
+  };
+};
@@ -1,8 +1,9 @@
 // src/services/chatService.ts
 
 import { supabase } from './supabaseClient';
-import { Message, ChatSession, Sender } from '../types';
+import { Message, ChatSession, Sender, MessageMapData, CampusEntryRef, MessageContext, ChatImage } from '../types';
 import { getUserId } from './authService';
+import type { SessionSummary, SessionSummaryStore } from './historyManager';
 
 /**
  * Create a new chat session
@@ -162,9 +163,10 @@ export const deleteChatSession = async (sessionId: string): Promise<void> => {
  * Get all messages for a session
  */
 export const getSessionMessages = async (sessionId: string): Promise<Message[]> => {
+    // RLS only returns the current user's own rating with each message
     const { data, error } = await supabase
         .from('messages')
-        .select('*')
+        .select('*, message_feedback(rating, reasons)')
         .eq('session_id', sessionId)
         .order('created_at', { ascending: true });
 
@@ -178,23 +180,52 @@ export const getSessionMessages = async (sessionId: string): Promise<Message[]>
         text: msg.text,
         sender: msg.sender as Sender,
         timestamp: new Date(msg.created_at),
+        parentId: msg.parent_id,
+        image: msg.image || undefined,
+        mapLocations: msg.map_data?.locations,
+        route: msg.map_data?.route,
+        citations: msg.citations || undefined,
+        model: msg.model || undefined,
+        cancelled: msg.cancelled || undefined,
+        feedback: msg.message_feedback?.[0]
+            ? { rating: msg.message_feedback[0].rating, reasons: msg.message_feedback[0].reasons || [] }
+            : undefined,
     }));
 };
 
 /**
- * Add a message to a session
+ * Add a message to a session, after details.parentId in the session's message tree (null for the first question)
  */
 export const addMessage = async (
     sessionId: string,
     text: string,
-    sender: Sender
+    sender: Sender,
+    details: {
+        parentId?: string | null;
+        image?: ChatImage; // Photo attached to a question
+        mapData?: MessageMapData;
+        citations?: CampusEntryRef[];
+        context?: MessageContext; // Campus data the AI answer was built from
+        model?: string; // The model that wrote the AI answer
+        cancelled?: boolean; // The student stopped the answer
+    } = {}
 ): Promise<Message | null> => {
+    const { parentId = null, image, mapData, citations, context, model, cancelled = false } = details;
+    const hasMapData = !!(mapData?.locations?.length || mapData?.route);
+
     const { data, error } = await supabase
         .from('messages')
         .insert({
             session_id: sessionId,
             text,
             sender,
+            image: image || null,
+            map_data: hasMapData ? mapData : null,
+            citations: citations?.length ? citations : null,
+            parent_id: parentId,
+            context: context || null,
+            model: model || null,
+            cancelled,
         })
         .select()
         .single();
@@ -215,6 +246,13 @@ export const addMessage = async (
         text: data.text,
         sender: data.sender as Sender,
         timestamp: new Date(data.created_at),
+        parentId: data.parent_id,
+        image: data.image || undefined,
+        mapLocations: data.map_data?.locations,
+        route: data.map_data?.route,
+        citations: data.citations || undefined,
+        model: data.model || undefined,
+        cancelled: data.cancelled || undefined,
     };
 };
 
@@ -233,6 +271,33 @@ export const deleteMessage = async (messageId: string): Promise<void> => {
     }
 };
 
+/**
+ * Rolling history summaries for the client-side AI mode (RLS limits this to the user's own sessions)
+ */
+export const sessionSummaryStore: SessionSummaryStore = {
+    async get(sessionId: string): Promise<SessionSummary | null> {
+        const { data, error } = await supabase
+            .from('chat_sessions')
+            .select('summary, summary_message_count, summary_fingerprint')
+            .eq('id', sessionId)
+            .maybeSingle();
+
+        if (error) throw new Error(error.message);
+        return data?.summary
+            ? { text: data.summary, messageCount: data.summary_message_count, fingerprint: data.summary_fingerprint || undefined }
+            : null;
+    },
+
+    async set(sessionId: string, summary: SessionSummary): Promise<void> {
+        const { error } = await supabase
+            .from('chat_sessions')
+            .update({ summary: summary.text, summary_message_count: summary.messageCount, summary_fingerprint: summary.fingerprint || null })
+            .eq('id', sessionId);
+
+        if (error) throw new Error(error.message);
+    },
+};
+
 /**
  * Generate a title for a chat session based on first message
  */
@@ -286,9 +351,11 @@ export const migrateLocalStorageToSupabase = async (): Promise<void> => {
 
             if (!newSession) continue;
 
-            // Add all messages
+            // Add all messages, each following the one before it
+            let parentId: string | null = null;
             for (const message of session.messages) {
-                await addMessage(newSession.id, message.text, message.sender);
+                const saved = await addMessage(newSession.id, message.text, message.sender, { parentId });
+                parentId = saved?.id ?? parentId;
             }
         }
 
@@ -0,0 +1,75 @@
+import { CampusData, CampusEntryRef, CampusToolInvocation } from '../types.js';
+import { tokenize } from './campusSearch.js';
+
+// Decides which campus data entries an answer is grounded in.
+// Candidates are the entries retrieved for the prompt and returned by tools; an entry is cited
+// when the answer actually uses it, so the chips never claim a source the answer ignored.
+
+// Tools whose matches are shown to the student directly, so they are always cited
+const ALWAYS_CITED_TOOLS = ['display_map', 'show_route', 'search_faq', 'lookup_resource'];
+
+// An FAQ is cited when most of its answer's distinct terms appear in the reply
+const FAQ_OVERLAP_THRESHOLD = 0.5;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "Davis Centre (DC) Library" can be mentioned as "Davis Centre Library" or just "DC"
+const nameVariants = (name: string) => {
+  // Only short single-word parentheticals are abbreviations ("(Dana Porter Library)" is a location note)
+  const abbreviations = [...name.matchAll(/\(([^)\s]{2,6})\)/g)].map(m => m[1]);
+  const withoutParens = name.replace(/\s*\([^)]*\)/g, '').replace(/\s+/g, ' ').trim();
+  return [name, withoutParens, ...abbreviations].filter(v => v.length >= 2);
+};
+
+const isNameMentioned = (name: string, text: string) =>
+  nameVariants(name).some(variant => new RegExp(`(^|[^\\w])${escapeRegExp(variant)}($|[^\\w])`, 'i').test(text));
+
+const getEntryText = (campusData: CampusData, ref: CampusEntryRef): string | null => {
+  const index = Number(ref.key.split(':')[1]);
+  switch (ref.kind) {
+    case 'location': return campusData.locations[index]?.name ?? null;
+    case 'resource': return campusData.resources[index]?.name ?? null;
+    case 'event': return campusData.events[index]?.title ?? null;
+    case 'multiFaithSpace': return campusData.multiFaithSpaces[index]?.name ?? null;
+    case 'faq': return campusData.faq[index]?.answer ?? null;
+  }
+};
+
+/**
+ * Pick the campus entries the reply is based on, in the order they were found
+ */
+export const collectCitations = (
+  campusData: CampusData,
+  text: string,
+  contextEntries: CampusEntryRef[],
+  toolCalls: CampusToolInvocation[]
+): CampusEntryRef[] => {
+  const citations = new Map<string, CampusEntryRef>();
+  const replyTokens = new Set(tokenize(text));
+
+  const cite = (ref: CampusEntryRef) => {
+    if (!citations.has(ref.key)) citations.set(ref.key, { key: ref.key, kind: ref.kind, title: ref.title });
+  };
+
+  for (const call of toolCalls) {
+    if (ALWAYS_CITED_TOOLS.includes(call.name)) call.matches.forEach(cite);
+  }
+
+  const candidates = [...toolCalls.flatMap(call => call.matches), ...contextEntries];
+  for (const ref of candidates) {
+    if (citations.has(ref.key)) continue;
+
+    const entryText = getEntryText(campusData, ref);
+    if (!entryText) continue;
+
+    if (ref.kind === 'faq') {
+      const answerTokens = new Set(tokenize(entryText));
+      const shared = [...answerTokens].filter(t => replyTokens.has(t)).length;
+      if (answerTokens.size > 0 && shared / answerTokens.size >= FAQ_OVERLAP_THRESHOLD) cite(ref);
+    } else if (isNameMentioned(entryText, text)) {
+      cite(ref);
+    }
+  }
+
+  return [...citations.values()];
+};
@@ -0,0 +1,178 @@
+// Golden questions for the offline evaluation (services/evaluation.ts, `npm run eval`).
+// Each question lists facts from campusData.ts that a good answer states, and the locations it
+// should pin on the map. Update them alongside the campus data they quote.
+
+export interface EvalQuestion {
+  id: string; // Stable across runs - reports are compared by id
+  question: string;
+  expectedFacts: (string | string[])[]; // Each must appear in the answer; an array accepts any of its variants
+  expectedPins?: string[]; // Campus location names to pin; [] expects no map, omitted skips the pin check
+  words?: { min: number; max: number }; // Answer length target; defaults to DEFAULT_WORD_RANGE
+}
+
+// The system prompt asks for 150-300 words on most answers; short factual ones may come in under that
+export const DEFAULT_WORD_RANGE = { min: 20, max: 300 };
+
+export const EVAL_QUESTIONS: Record<string, EvalQuestion[]> = {
+  uw: [
+    {
+      id: 'uw-late-study',
+      question: 'Where can I study late at night?',
+      expectedFacts: [['Student Life Centre', 'SLC'], '24/7', ['Davis Centre', 'DC Library']],
+      expectedPins: ['Student Life Centre (SLC)', 'Davis Centre (DC) Library'],
+    },
+    {
+      id: 'uw-dp-hours',
+      question: "What are Dana Porter Library's hours?",
+      expectedFacts: [['Dana Porter', 'DP'], '8am', '11pm'],
+      expectedPins: ['Dana Porter Library (DP)'],
+      words: { min: 10, max: 200 },
+    },
+    {
+      id: 'uw-gym',
+      question: "Where's the gym and when is it open?",
+      expectedFacts: [['Physical Activities Complex', 'PAC'], '6am', '11pm'],
+      expectedPins: ['Physical Activities Complex (PAC)'],
+    },
+    {
+      id: 'uw-wellness-contact',
+      question: 'How do I contact Campus Wellness?',
+      expectedFacts: ['519-888-4096', ['Health Services', 'Counselling']],
+      expectedPins: [],
+      words: { min: 10, max: 200 },
+    },
+    {
+      id: 'uw-coffee',
+      question: 'Where can I get coffee on campus?',
+      expectedFacts: ['Tim Hortons', 'Math C&D'],
+    },
+  ],
+  uoft: [
+    {
+      id: 'uoft-robarts',
+      question: 'Where is Robarts Library and when is it open?',
+      expectedFacts: ['Robarts', '24/5'],
+      expectedPins: ['Robarts Library'],
+    },
+    {
+      id: 'uoft-printing',
+      question: 'How do I print on campus?',
+      expectedFacts: ['UTORprint', 'TCard'],
+    },
+    {
+      id: 'uoft-gym',
+      question: 'Where can I work out on campus?',
+      expectedFacts: [['Athletic Centre', 'AC']],
+      expectedPins: ['Athletic Centre (AC)'],
+    },
+    {
+      id: 'uoft-health-contact',
+      question: 'How do I book an appointment at the Health & Wellness Centre?',
+      expectedFacts: ['416-978-8030', '214 College'],
+      expectedPins: [],
+      words: { min: 10, max: 200 },
+    },
+  ],
+  mac: [
+    {
+      id: 'mac-exam-study',
+      question: 'Where can I study around the clock during exams?',
+      expectedFacts: ['Thode', '24/7'],
+      expectedPins: ['Thode Library'],
+    },
+    {
+      id: 'mac-deer',
+      question: 'Where are the deer?',
+      expectedFacts: ['Cootes Paradise'],
+      words: { min: 10, max: 200 },
+    },
+    {
+      id: 'mac-gym',
+      question: 'Where is the gym?',
+      expectedFacts: [['Pulse', 'David Braley Athletic Centre']],
+      expectedPins: ['Pulse (David Braley Athletic Centre)'],
+    },
+    {
+      id: 'mac-hsr',
+      question: 'How do I take the HSR bus with my student card?',
+      expectedFacts: ['HSR', 'tap'],
+      expectedPins: [],
+    },
+  ],
+  western: [
+    {
+      id: 'western-bagel',
+      question: 'Where can I get the best bagel?',
+      expectedFacts: ['The Spoke', ['University Community Centre', 'UCC']],
+      expectedPins: ['The Spoke'],
+    },
+    {
+      id: 'western-corn-soup',
+      question: 'When are the corn soup lunches?',
+      expectedFacts: ['first Wednesday', 'Indigenous Student Centre'],
+      words: { min: 10, max: 200 },
+    },
+    {
+      id: 'western-weldon',
+      question: 'Where is Weldon Library?',
+      expectedFacts: ['Weldon'],
+      expectedPins: ['The D.B. Weldon Library'],
+    },
+    {
+      id: 'western-health-contact',
+      question: 'How do I reach Student Health Services?',
+      expectedFacts: ['519-661-3030'],
+      words: { min: 10, max: 200 },
+    },
+  ],
+  queens: [
+    {
+      id: 'queens-stauffer-hours',
+      question: 'What time does Stauffer Library close?',
+      expectedFacts: ['Stauffer', '2am'],
+      expectedPins: ['Stauffer Library'],
+      words: { min: 10, max: 200 },
+    },
+    {
+      id: 'queens-tam',
+      question: 'What is a Tam?',
+      expectedFacts: ['Scottish', ['pom-pom', 'pompom', 'pom pom']],
+      expectedPins: [],
+    },
+    {
+      id: 'queens-cheap-food',
+      question: 'Where is cheap food on campus?',
+      expectedFacts: [['Common Ground', 'CoGro']],
+    },
+    {
+      id: 'queens-doctor',
+      question: "How do I book a doctor's appointment?",
+      expectedFacts: ['Student Wellness Services', '613-533-2506'],
+    },
+  ],
+  tmu: [
+    {
+      id: 'tmu-library',
+      question: 'Where is the library?',
+      expectedFacts: [['Student Learning Centre', 'SLC'], 'bridge'],
+      expectedPins: ['Library Building'],
+    },
+    {
+      id: 'tmu-multifaith',
+      question: 'Where is the multi-faith room?',
+      expectedFacts: ['Oakham House', ['OAK-319', 'OAK 319']],
+    },
+    {
+      id: 'tmu-onecard',
+      question: 'How do I get my OneCard?',
+      expectedFacts: ['ServiceHub'],
+      expectedPins: [],
+    },
+    {
+      id: 'tmu-gym',
+      question: "Where's the gym?",
+      expectedFacts: [['Mattamy Athletic Centre', 'The MAC']],
+      expectedPins: ['Mattamy Athletic Centre (The MAC)'],
+    },
+  ],
+};
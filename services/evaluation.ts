@@ -0,0 +1,254 @@
+import { LLMProvider } from './llm/types.js';
+import { runChatTurn, ChatTurnOutput } from './chatPipeline.js';
+import { buildSystemPrompt } from './promptBuilder.js';
+import { getUniversity } from './universityRegistry.js';
+import { fnv1a } from './hash.js';
+import { DEFAULT_WORD_RANGE, EVAL_QUESTIONS, EvalQuestion } from './evalQuestions.js';
+
+// Offline evaluation of answer quality. Each golden question (evalQuestions.ts) is run through the
+// chat pipeline and scored on fact coverage, map pins and length. Reports are plain JSON with stable
+// ordering so two runs - e.g. before and after a system prompt change - can be diffed or compared
+// with compareEvalReports. `npm run eval` (scripts/eval.ts) is the command-line runner.
+
+export interface EvalResult {
+  id: string;
+  universityId: string;
+  question: string;
+  answer: string;
+  pins: string[]; // Pinned location names, map pins first then route waypoints
+  factCoverage: number; // Share of expected facts the answer states
+  missingFacts: string[];
+  pinScore: number | null; // Overlap of pinned and expected locations (Jaccard); null when not checked
+  missingPins: string[];
+  unexpectedPins: string[];
+  wordCount: number;
+  lengthOk: boolean;
+  score: number; // Mean of fact coverage, pin score (when checked) and length (1 or 0)
+  error?: string;
+}
+
+export interface EvalSummary {
+  questions: number;
+  score: number;
+  factCoverage: number;
+  pinScore: number | null;
+  lengthOk: number; // Share of answers within their length target
+  errors: number;
+}
+
+export interface EvalReport {
+  label: string; // e.g. a git ref or "prompt-v2"
+  provider: string;
+  promptFingerprint: string; // Changes whenever the system prompt template does
+  summary: EvalSummary;
+  universities: Record<string, EvalSummary>;
+  results: EvalResult[];
+}
+
+export interface EvalRunOptions {
+  label: string;
+  getProvider: (question: EvalQuestion) => LLMProvider; // Per question, so runs can be recorded or replayed
+  universityIds?: string[]; // Defaults to every university with golden questions
+  onResult?: (result: EvalResult) => void; // Progress reporting
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+// Compare facts loosely: case, markdown emphasis, periods and clock formats ("8:00 AM" = "8 a.m." = "8am")
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[*_`]/g, '')
+    .replace(/\./g, '')
+    .replace(/:00\b/g, '')
+    .replace(/(\d)\s*(am|pm)\b/g, '$1$2')
+    .replace(/\s+/g, ' ');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (answer: string, fact: string) =>
+  new RegExp(`(?<![a-z0-9])${escapeRegExp(normalize(fact).trim())}(?![a-z0-9])`).test(answer);
+
+const describeFact = (fact: string | string[]) => (Array.isArray(fact) ? fact.join(' | ') : fact);
+
+/**
+ * Score one answer against its golden question
+ */
+export const scoreAnswer = (question: EvalQuestion, universityId: string, output: Pick<ChatTurnOutput, 'text' | 'mapLocations' | 'route'>): EvalResult => {
+  const answer = normalize(output.text);
+  const missingFacts = question.expectedFacts
+    .filter(fact => !(Array.isArray(fact) ? fact : [fact]).some(variant => mentions(answer, variant)))
+    .map(describeFact);
+  const factCoverage = question.expectedFacts.length > 0 ? 1 - missingFacts.length / question.expectedFacts.length : 1;
+
+  const pins = [...new Set([...output.mapLocations, ...(output.route?.waypoints || [])].map(pin => pin.name))];
+  const expectedPins = question.expectedPins;
+  const missingPins = expectedPins ? expectedPins.filter(name => !pins.includes(name)) : [];
+  const unexpectedPins = expectedPins ? pins.filter(name => !expectedPins.includes(name)) : [];
+  const pinUnion = expectedPins ? new Set([...expectedPins, ...pins]).size : 0;
+  const pinScore = !expectedPins ? null : pinUnion === 0 ? 1 : (pinUnion - missingPins.length - unexpectedPins.length) / pinUnion;
+
+  const range = question.words || DEFAULT_WORD_RANGE;
+  const wordCount = output.text.split(/\s+/).filter(Boolean).length;
+  const lengthOk = wordCount >= range.min && wordCount <= range.max;
+
+  return {
+    id: question.id,
+    universityId,
+    question: question.question,
+    answer: output.text,
+    pins,
+    factCoverage: round(factCoverage),
+    missingFacts,
+    pinScore: pinScore === null ? null : round(pinScore),
+    missingPins,
+    unexpectedPins,
+    wordCount,
+    lengthOk,
+    score: round(mean([factCoverage, ...(pinScore === null ? [] : [pinScore]), lengthOk ? 1 : 0])),
+  };
+};
+
+const summarize = (results: EvalResult[]): EvalSummary => {
+  const pinScores = results.map(r => r.pinScore).filter((s): s is number => s !== null);
+  return {
+    questions: results.length,
+    score: round(mean(results.map(r => r.score))),
+    factCoverage: round(mean(results.map(r => r.factCoverage))),
+    pinScore: pinScores.length > 0 ? round(mean(pinScores)) : null,
+    lengthOk: round(mean(results.map(r => (r.lengthOk ? 1 : 0)))),
+    errors: results.filter(r => r.error).length,
+  };
+};
+
+// FNV-1a of the system prompt built from fixed inputs, so reports show whether the template differs
+const getPromptFingerprint = () => fnv1a(buildSystemPrompt({
+  university: getUniversity('uw'),
+  campusContext: '(campus context)',
+  today: '2000-01-01',
+}));
+
+/**
+ * Run the golden questions through the chat pipeline, one at a time, and score every answer
+ */
+export const runEvaluation = async ({ label, getProvider, universityIds = Object.keys(EVAL_QUESTIONS), onResult }: EvalRunOptions): Promise<EvalReport> => {
+  const results: EvalResult[] = [];
+  let providerName = '';
+
+  for (const universityId of universityIds) {
+    for (const question of EVAL_QUESTIONS[universityId] || []) {
+      const provider = getProvider(question);
+      providerName ||= provider.name;
+
+      let result: EvalResult;
+      try {
+        const output = await runChatTurn({ provider, universityId, userMessage: question.question, history: [], language: 'en' });
+        result = scoreAnswer(question, universityId, output);
+      } catch (error) {
+        result = {
+          ...scoreAnswer(question, universityId, { text: '', mapLocations: [], route: null }),
+          score: 0,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+
+      results.push(result);
+      onResult?.(result);
+    }
+  }
+
+  return {
+    label,
+    provider: providerName,
+    promptFingerprint: getPromptFingerprint(),
+    summary: summarize(results),
+    universities: Object.fromEntries(universityIds.map(id => [id, summarize(results.filter(r => r.universityId === id))])),
+    results,
+  };
+};
+
+/**
+ * Serialize a report for saving; key order and rounding are fixed so runs diff cleanly
+ */
+export const formatEvalReport = (report: EvalReport): string => `${JSON.stringify(report, null, 2)}\n`;
+
+const formatScore = (value: number | null | undefined) => (value === null || value === undefined ? '-' : value.toFixed(3));
+
+const formatDelta = (base: number | null | undefined, head: number | null | undefined) => {
+  if (base === null || base === undefined || head === null || head === undefined) return '-';
+  const delta = round(head - base);
+  return delta === 0 ? '0' : `${delta > 0 ? '+' : ''}${delta.toFixed(3)}`;
+};
+
+const listChange = (label: string, before: string[], after: string[]) => {
+  const added = after.filter(item => !before.includes(item));
+  const removed = before.filter(item => !after.includes(item));
+  return [
+    ...(added.length > 0 ? [`${label} +${added.join(', +')}`] : []),
+    ...(removed.length > 0 ? [`${label} -${removed.join(', -')}`] : []),
+  ];
+};
+
+/**
+ * Markdown comparison of two reports: overall and per-university scores, then every question whose
+ * score changed (regressions first) with what it gained or lost
+ */
+export const compareEvalReports = (base: EvalReport, head: EvalReport): string => {
+  const lines = [
+    `# Evaluation: ${base.label} → ${head.label}`,
+    '',
+    `Prompt ${base.promptFingerprint} → ${head.promptFingerprint}${base.promptFingerprint === head.promptFingerprint ? ' (unchanged)' : ''}; provider ${base.provider} → ${head.provider}`,
+    '',
+    `| | ${base.label} | ${head.label} | Δ |`,
+    '|---|---|---|---|',
+  ];
+
+  const summaryRow = (name: string, a: number | null | undefined, b: number | null | undefined) =>
+    `| ${name} | ${formatScore(a)} | ${formatScore(b)} | ${formatDelta(a, b)} |`;
+
+  lines.push(
+    summaryRow('**Score**', base.summary.score, head.summary.score),
+    summaryRow('Fact coverage', base.summary.factCoverage, head.summary.factCoverage),
+    summaryRow('Pin score', base.summary.pinScore, head.summary.pinScore),
+    summaryRow('Length on target', base.summary.lengthOk, head.summary.lengthOk),
+    `| Errors | ${base.summary.errors} | ${head.summary.errors} | ${head.summary.errors - base.summary.errors} |`,
+  );
+
+  const universityIds = [...new Set([...Object.keys(base.universities), ...Object.keys(head.universities)])];
+  for (const id of universityIds) {
+    lines.push(summaryRow(id, base.universities[id]?.score, head.universities[id]?.score));
+  }
+
+  const baseResults = new Map(base.results.map(r => [r.id, r]));
+  const headResults = new Map(head.results.map(r => [r.id, r]));
+  const changed = head.results
+    .filter(r => baseResults.has(r.id) && baseResults.get(r.id)!.score !== r.score)
+    .sort((a, b) => (a.score - baseResults.get(a.id)!.score) - (b.score - baseResults.get(b.id)!.score));
+
+  lines.push('', `## Changed questions (${changed.length})`, '');
+  if (changed.length === 0) {
+    lines.push('No question scored differently.');
+  } else {
+    lines.push('| Question | Before | After | Δ | Changes |', '|---|---|---|---|---|');
+    for (const result of changed) {
+      const before = baseResults.get(result.id)!;
+      const notes = [
+        ...listChange('missing', before.missingFacts, result.missingFacts),
+        ...listChange('pins', before.pins, result.pins),
+        ...(before.lengthOk !== result.lengthOk ? [`words ${before.wordCount} → ${result.wordCount}`] : []),
+        ...(result.error ? [`error: ${result.error}`] : []),
+      ];
+      lines.push(`| ${result.id} | ${formatScore(before.score)} | ${formatScore(result.score)} | ${formatDelta(before.score, result.score)} | ${notes.join('; ').replace(/\|/g, '\\|')} |`);
+    }
+  }
+
+  const added = head.results.filter(r => !baseResults.has(r.id)).map(r => r.id);
+  const removed = base.results.filter(r => !headResults.has(r.id)).map(r => r.id);
+  if (added.length > 0) lines.push('', `Only in ${head.label}: ${added.join(', ')}`);
+  if (removed.length > 0) lines.push('', `Only in ${base.label}: ${removed.join(', ')}`);
+
+  return `${lines.join('\n')}\n`;
+};
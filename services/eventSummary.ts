@@ -0,0 +1,42 @@
+import { CampusEvent, Language, UniversityProfile } from '../types.js';
+import { LLMProvider } from './llm/types.js';
+import { DEFAULT_LANGUAGE, LANGUAGE_NAMES } from './language.js';
+
+// The "Campus Pulse" briefing on the Events tab. /api/events/summarize and the client-side mode
+// both write it here, on the eventSummary model chain (see llm/modelConfig.ts).
+
+const buildEventSummaryPrompt = (university: UniversityProfile, events: CampusEvent[], language: Language) => `
+    You are ${university.personaName}, an enthusiastic guide for ${university.name}.
+
+    Task: Write a brief, exciting weekly briefing summarizing these campus events for a student.
+
+    Events List:
+    ${events.map(e => `- ${e.title} (${e.date}): ${e.description}`).join('\n')}
+
+    Style Guide: ${university.styleGuide}
+
+    Format:
+    ## 📅 Campus Pulse
+    [1 paragraph summary of vibes]
+
+    🔥 Highlights
+    - [Event 1]
+    - [Event 2]
+
+    Keep it under 150 words. Write it in ${LANGUAGE_NAMES[language]}, keeping event titles as they are.
+  `;
+
+/**
+ * Write the events briefing for a university
+ */
+export const summarizeEvents = ({
+  provider,
+  university,
+  events,
+  language = DEFAULT_LANGUAGE,
+}: {
+  provider: LLMProvider;
+  university: UniversityProfile;
+  events: CampusEvent[];
+  language?: Language;
+}): Promise<string> => provider.generateText(buildEventSummaryPrompt(university, events, language), { task: 'eventSummary' });
@@ -0,0 +1,123 @@
+// src/services/feedbackService.ts
+
+import { supabase } from './supabaseClient';
+import { CampusEntryRef, FeedbackRating, FeedbackReason, MessageContext, MessageFeedback } from '../types';
+import { getCurrentUser, getUserId } from './authService';
+
+// Thumbs up/down on AI answers (message_feedback table) and the admin review queue of low-rated answers
+
+export const FEEDBACK_REASONS: { id: FeedbackReason; label: string }[] = [
+    { id: 'wrong_location', label: 'Wrong location' },
+    { id: 'outdated_hours', label: 'Outdated hours' },
+    { id: 'incorrect_info', label: 'Incorrect info' },
+    { id: 'too_long', label: 'Too long' },
+    { id: 'not_helpful', label: 'Not helpful' },
+];
+
+// A low-rated answer as shown on the review page
+export interface FeedbackReviewItem {
+    feedbackId: string;
+    messageId: string;
+    universityId: string;
+    question: string | null; // The question the answer replied to
+    answer: string;
+    rating: FeedbackRating;
+    reasons: FeedbackReason[];
+    context: MessageContext | null; // Campus data the answer was built from (null for answers saved before it was recorded)
+    citations: CampusEntryRef[];
+    model: string | null; // The model that wrote the answer (null for answers saved before it was recorded)
+    answeredAt: Date;
+    ratedAt: Date;
+}
+
+/**
+ * Rate an AI answer, replacing the user's earlier rating of it
+ */
+export const submitFeedback = async (
+    messageId: string,
+    rating: FeedbackRating,
+    reasons: FeedbackReason[] = []
+): Promise<MessageFeedback> => {
+    const userId = await getUserId();
+    if (!userId) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+        .from('message_feedback')
+        .upsert({
+            message_id: messageId,
+            user_id: userId,
+            rating,
+            // Reasons only explain a thumbs down
+            reasons: rating < 0 ? reasons : [],
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'message_id,user_id' })
+        .select('rating, reasons')
+        .single();
+
+    if (error) {
+        console.error('Error saving feedback:', error);
+        throw new Error(error.message);
+    }
+
+    return { rating: data.rating, reasons: data.reasons || [] };
+};
+
+/**
+ * Remove the user's rating of an AI answer
+ */
+export const clearFeedback = async (messageId: string): Promise<void> => {
+    const userId = await getUserId();
+    if (!userId) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+        .from('message_feedback')
+        .delete()
+        .eq('message_id', messageId)
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('Error clearing feedback:', error);
+        throw new Error(error.message);
+    }
+};
+
+/**
+ * Whether the signed-in user may open the review queue (app_metadata.role, which only the service role can set)
+ */
+export const canReviewFeedback = async (): Promise<boolean> => {
+    const user = await getCurrentUser();
+    return user?.app_metadata?.role === 'admin';
+};
+
+/**
+ * Low-rated answers, most recently rated first (admins only - enforced by get_feedback_review_queue)
+ */
+export const getFeedbackReviewQueue = async (
+    universityId?: string,
+    limit: number = 50
+): Promise<FeedbackReviewItem[]> => {
+    const { data, error } = await supabase.rpc('get_feedback_review_queue', {
+        p_university_id: universityId || null,
+        p_limit: limit,
+    });
+
+    if (error) {
+        console.error('Error fetching feedback review queue:', error);
+        throw new Error(error.message);
+    }
+
+    return (data || []).map((row: any) => ({
+        feedbackId: row.feedback_id,
+        messageId: row.message_id,
+        universityId: row.university_id,
+        question: row.question,
+        answer: row.answer,
+        rating: row.rating,
+        reasons: row.reasons || [],
+        context: row.context,
+        citations: row.citations || [],
+        model: row.model,
+        answeredAt: new Date(row.answered_at),
+        ratedAt: new Date(row.rated_at),
+    }));
+};
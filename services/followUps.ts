@@ -0,0 +1,194 @@
+import { CampusContextEntry, CampusData, Language, UniversityProfile } from '../types.js';
+import { LLMProvider, LLMSchema } from './llm/types.js';
+import { DEFAULT_LANGUAGE, LANGUAGE_NAMES } from './language.js';
+
+// Follow-up questions shown as quick-reply chips under the latest answer.
+// The model suggests them from the answer and the campus entries it drew on; when it suggests
+// none, the client shows a fixed set for the university, the UI language and the student's time of day.
+
+const MIN_FOLLOW_UPS = 2;
+const MAX_FOLLOW_UPS = 4;
+const MAX_FOLLOW_UP_LENGTH = 80;
+const ANSWER_EXCERPT_LENGTH = 1500;
+
+const followUpSchema: LLMSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      description: "Follow-up questions, written as the student would ask them",
+      items: { type: 'string' }
+    }
+  },
+  required: ['questions']
+};
+
+const buildFollowUpPrompt = (
+  university: UniversityProfile,
+  userMessage: string,
+  answer: string,
+  contextEntries: CampusContextEntry[],
+  language: Language
+) => `Suggest what a ${university.shortName} student might ask next after this exchange with the campus assistant.
+
+STUDENT ASKED:
+${userMessage}
+
+ASSISTANT ANSWERED:
+${answer.slice(0, ANSWER_EXCERPT_LENGTH)}
+${contextEntries.length > 0 ? `\nCAMPUS INFO THE ASSISTANT CAN ANSWER FROM:\n${contextEntries.map(e => `- ${e.title}`).join('\n')}\n` : ''}
+Give ${MIN_FOLLOW_UPS} to ${MAX_FOLLOW_UPS} short questions (under 60 characters), in the student's voice, that build on the answer and can be answered from ${university.shortName} campus info. Don't repeat the question just asked. Write them in ${LANGUAGE_NAMES[language]}.`;
+
+// Drop empty, overlong and repeated suggestions; fewer than the minimum counts as none
+const cleanFollowUps = (questions: unknown, userMessage: string): string[] => {
+  if (!Array.isArray(questions)) return [];
+
+  const seen = new Set([userMessage.trim().toLowerCase()]);
+  const cleaned = questions
+    .map(q => String(q).replace(/^[\s\-*•\d.)"']+|["'\s]+$/g, '').trim())
+    .filter(q => q.length > 0 && q.length <= MAX_FOLLOW_UP_LENGTH)
+    .filter(q => {
+      const key = q.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_FOLLOW_UPS);
+
+  return cleaned.length >= MIN_FOLLOW_UPS ? cleaned : [];
+};
+
+/**
+ * Ask the model for follow-up questions to an answer; empty when it has none worth showing
+ */
+export const suggestFollowUps = async ({
+  provider,
+  university,
+  userMessage,
+  answer,
+  contextEntries,
+  language = DEFAULT_LANGUAGE,
+  signal,
+}: {
+  provider: LLMProvider;
+  university: UniversityProfile;
+  userMessage: string;
+  answer: string;
+  contextEntries: CampusContextEntry[];
+  language?: Language; // The answer's language
+  signal?: AbortSignal;
+}): Promise<string[]> => {
+  if (!answer.trim()) return [];
+
+  try {
+    const result = await provider.generateStructured<{ questions?: unknown }>(
+      buildFollowUpPrompt(university, userMessage, answer, contextEntries, language),
+      followUpSchema,
+      { task: 'followUps', signal }
+    );
+    return cleanFollowUps(result?.questions, userMessage);
+  } catch (error) {
+    if (!signal?.aborted) console.error('Failed to suggest follow-up questions:', error);
+    return [];
+  }
+};
+
+type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+const getTimeOfDay = (date: Date): TimeOfDay => {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 22) return 'evening';
+  return 'night';
+};
+
+// Short form of the first location of a type, e.g. "Dana Porter Library" for "Dana Porter Library (DP)"
+const findPlace = (campusData: CampusData, type: RegExp, fallback: string) => {
+  const location = campusData.locations.find(l => type.test(l.type));
+  return location ? location.name.replace(/\s*\([^)]*\)/g, '').trim() : fallback;
+};
+
+interface Places {
+  library: string;
+  gym: string;
+  studentCentre: string;
+}
+
+// Generic stand-ins for campuses without such a location (feminine in French, so "de"/"à" need no contraction)
+const PLACE_FALLBACKS: Record<Language, Places> = {
+  en: { library: 'the library', gym: 'the gym', studentCentre: 'campus' },
+  fr: { library: 'la bibliothèque', gym: 'la salle de sport', studentCentre: "l'université" },
+};
+
+const FALLBACK_FOLLOW_UPS: Record<Language, (places: Places) => Record<TimeOfDay, string[]>> = {
+  en: ({ library, gym, studentCentre }) => ({
+    morning: [
+      `When does ${library} open?`,
+      "Where can I grab breakfast?",
+      "What's happening on campus today?",
+      "Where do I go for academic advising?",
+    ],
+    afternoon: [
+      "Where can I study between classes?",
+      `Where can I get lunch near ${studentCentre}?`,
+      "Any events this week?",
+      `What are the hours at ${gym}?`,
+    ],
+    evening: [
+      "Where can I study late?",
+      "What food spots are open tonight?",
+      "Any social events tonight?",
+      `How do I get to ${gym}?`,
+    ],
+    night: [
+      "Which study spaces are open late?",
+      "Where can I get late-night food?",
+      "How do I get home safely from campus?",
+      "Who can I talk to if I'm stressed?",
+    ],
+  }),
+  fr: ({ library, gym, studentCentre }) => ({
+    morning: [
+      `À quelle heure ouvre ${library}?`,
+      "Où manger le matin?",
+      "Qu'est-ce qui se passe sur le campus aujourd'hui?",
+      "Où trouver un conseiller pédagogique?",
+    ],
+    afternoon: [
+      "Où étudier entre deux cours?",
+      `Où manger ce midi près de ${studentCentre}?`,
+      "Quels événements ont lieu cette semaine?",
+      `Quelles sont les heures de ${gym}?`,
+    ],
+    evening: [
+      "Où étudier tard le soir?",
+      "Quels restos sont ouverts ce soir?",
+      "Des activités sociales ce soir?",
+      `Comment me rendre à ${gym}?`,
+    ],
+    night: [
+      "Quels espaces d'étude sont ouverts tard?",
+      "Où manger tard le soir?",
+      "Comment rentrer chez moi en sécurité depuis le campus?",
+      "À qui parler si je suis stressé(e)?",
+    ],
+  }),
+};
+
+/**
+ * Fixed follow-ups for when the model suggests none: the same for a university, language and time of day
+ */
+export const getFallbackFollowUps = (
+  campusData: CampusData,
+  date: Date = new Date(),
+  language: Language = DEFAULT_LANGUAGE
+): string[] => {
+  const fallback = PLACE_FALLBACKS[language];
+  const places = {
+    library: findPlace(campusData, /library/i, fallback.library),
+    gym: findPlace(campusData, /gym|athletic|recreation/i, fallback.gym),
+    studentCentre: findPlace(campusData, /student centre/i, fallback.studentCentre),
+  };
+  return FALLBACK_FOLLOW_UPS[language](places)[getTimeOfDay(date)];
+};
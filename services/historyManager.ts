@@ -0,0 +1,124 @@
+import { LLMProvider } from './llm/types.js';
+import { fnv1a } from './hash.js';
+
+// Keeps chat history within a token budget for both chat paths.
+// Recent turns are sent verbatim; older turns are folded into a per-session summary that is
+// stored (see SessionSummaryStore) and extended a batch of messages at a time, never rebuilt
+// from scratch unless the history no longer lines up with it.
+
+export interface HistoryMessage {
+  sender: string;
+  text: string;
+}
+
+export interface SessionSummary {
+  text: string;
+  messageCount: number; // How many leading history messages the summary covers
+  fingerprint?: string; // Hash of those messages, so a summary of one branch isn't reused on another
+}
+
+export interface SessionSummaryStore {
+  get(sessionId: string): Promise<SessionSummary | null>;
+  set(sessionId: string, summary: SessionSummary): Promise<void>;
+}
+
+export interface PreparedHistory {
+  history: HistoryMessage[];
+  summary: string | null;
+}
+
+const HISTORY_TOKEN_BUDGET = 1500;
+const MIN_RECENT_MESSAGES = 4;
+const SUMMARY_BATCH_SIZE = 4; // Fold older turns in batches so one long answer doesn't trigger a summary every turn
+
+/**
+ * Rough token estimate (~4 characters per token for English)
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// FNV-1a over the messages' senders and text
+const fingerprintMessages = (messages: HistoryMessage[]) =>
+  fnv1a(JSON.stringify(messages.map(m => [m.sender, m.text])));
+
+const formatTranscript = (messages: HistoryMessage[]) =>
+  messages.map(m => `${m.sender === 'user' ? 'Student' : 'Assistant'}: ${m.text}`).join('\n\n');
+
+const buildSummaryPrompt = (previous: string | null, messages: HistoryMessage[]) => `You maintain a running summary of a conversation between a student and a campus assistant.
+${previous ? `\nCURRENT SUMMARY:\n${previous}\n` : ''}
+NEW MESSAGES:
+${formatTranscript(messages)}
+
+Write the updated summary in under 150 words. Keep facts about the student (program, year, residence, preferences, plans), what they asked and what was recommended, including specific places and times. Plain sentences, no preamble.`;
+
+// Index where the verbatim tail starts: as many recent messages as fit the budget, at least MIN_RECENT_MESSAGES
+const findRecentStart = (history: HistoryMessage[], budgetTokens: number) => {
+  let tokens = 0;
+  let start = history.length;
+  while (start > 0) {
+    const cost = estimateTokens(history[start - 1].text);
+    if (history.length - start >= MIN_RECENT_MESSAGES && tokens + cost > budgetTokens) break;
+    tokens += cost;
+    start--;
+  }
+  return start;
+};
+
+/**
+ * Fit a session's history into the prompt budget, folding older turns into the stored summary
+ */
+export const prepareHistory = async ({
+  provider,
+  history,
+  sessionId,
+  store,
+  budgetTokens = HISTORY_TOKEN_BUDGET,
+  signal,
+}: {
+  provider: LLMProvider;
+  history: HistoryMessage[];
+  sessionId?: string | null;
+  store?: SessionSummaryStore;
+  budgetTokens?: number;
+  signal?: AbortSignal;
+}): Promise<PreparedHistory> => {
+  // The conversation starts at the student's first message; a welcome bubble isn't part of it
+  const firstUser = history.findIndex(m => m.sender === 'user');
+  const conversation = firstUser === -1 ? [] : history.slice(firstUser);
+
+  const recentStart = findRecentStart(conversation, budgetTokens);
+  if (recentStart === 0) return { history: conversation, summary: null };
+
+  const stored = sessionId && store ? await store.get(sessionId).catch(error => {
+    console.error('Failed to load session summary:', error);
+    return null;
+  }) : null;
+
+  // A summary covering more than the older turns, or different ones, means the history changed
+  // underneath it (e.g. the student switched to another branch of the conversation)
+  const usable = stored && stored.messageCount <= recentStart &&
+    (!stored.fingerprint || stored.fingerprint === fingerprintMessages(conversation.slice(0, stored.messageCount)))
+    ? stored
+    : null;
+  const covered = usable?.messageCount || 0;
+  const pending = conversation.slice(covered, recentStart);
+
+  if (pending.length < SUMMARY_BATCH_SIZE && usable) {
+    return { history: conversation.slice(covered), summary: usable.text };
+  }
+
+  try {
+    const text = (await provider.generateText(buildSummaryPrompt(usable?.text || null, pending), { task: 'historySummary', signal })).trim();
+
+    if (sessionId && store) {
+      const summary = { text, messageCount: recentStart, fingerprint: fingerprintMessages(conversation.slice(0, recentStart)) };
+      await store.set(sessionId, summary).catch(error => {
+        console.error('Failed to save session summary:', error);
+      });
+    }
+    return { history: conversation.slice(recentStart), summary: text };
+  } catch (error) {
+    // Without a summary, fall back to the recent turns plus whatever was summarized before
+    if (!signal?.aborted) console.error('Failed to summarize history:', error);
+    return { history: conversation.slice(recentStart), summary: usable?.text || null };
+  }
+};
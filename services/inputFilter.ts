@@ -0,0 +1,86 @@
+import { Language } from '../types.js';
+import { DEFAULT_LANGUAGE } from './language.js';
+
+// Screens what a student sends before it reaches the model. /api/chat runs every request through
+// here: the question is checked for length and common prompt-injection phrasing, and the history
+// the client sends back is reduced to plain user/ai turns without chat-template or role markup.
+
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MAX_HISTORY_MESSAGES = 200; // Generous: older turns are folded into the session summary (historyManager)
+export const MAX_HISTORY_TEXT_LENGTH = 4000; // Per message; answers run longer than questions
+
+export type InputRejectionReason = 'too_long' | 'injection';
+
+export interface InputRejection {
+  reason: InputRejectionReason;
+  pattern?: string; // Name of the injection pattern that matched
+}
+
+export interface LoggedInputRejection extends InputRejection {
+  universityId: string;
+  userMessage: string;
+}
+
+// Where refused messages are recorded for review (the API route writes them to chat_input_rejections)
+export interface InputRejectionLog {
+  record(rejection: LoggedInputRejection): Promise<void>;
+}
+
+// Phrasings that try to replace the persona's rules, pull out the system prompt, or pose as another role.
+// Matching is deliberately narrow - an ordinary question that trips one of these gets a refusal.
+const INJECTION_PATTERNS: { name: string; pattern: RegExp }[] = [
+  { name: 'override_instructions', pattern: /\b(ignore|disregard|forget|override|bypass)\b[^.\n]{0,20}\b(your|previous|prior|above|earlier|all|any|system|initial|original)\b[^.\n]{0,20}\b(instructions?|rules|guidelines|prompts?|restrictions)\b/i },
+  { name: 'override_instructions_fr', pattern: /\b(ignore[rz]?|oublie[rz]?|contourne[rz]?)\b[^.\n]{0,20}\b(tes|vos|toutes|tous|les|précédentes|système)\b[^.\n]{0,20}\b(instructions?|consignes?|règles)\b/i },
+  { name: 'reveal_prompt', pattern: /\b(reveal|show|print|repeat|output|leak|tell me)\b[^.\n]{0,40}\b(system prompt|system message|hidden instructions|initial instructions|your (instructions|prompt|rules))\b/i },
+  { name: 'new_persona', pattern: /\byou are (now|no longer)\b|\bfrom now on,? you (are|will|must)\b|\bpretend (to be|you are)\b/i },
+  { name: 'jailbreak_mode', pattern: /\b(developer|god|dan|jailbreak|unrestricted) mode\b|\bdo anything now\b/i },
+  { name: 'chat_template', pattern: /<\|(im_start|im_end|system|assistant|user)\|>|\[\/?INST\]|<<\/?SYS>>|<\/?(start|end)_of_turn>/i },
+  { name: 'role_label', pattern: /^\s*#*\s*(system|assistant|developer)\s*(prompt|message)?\s*:/im },
+];
+
+// Markup that only means something to a model's chat template, and "role:" line prefixes
+const ROLE_MARKUP = /<\|[a-z_]+\|>(system|assistant|user)?|\[\/?INST\]|<<\/?SYS>>|<\/?(start|end)_of_turn>(user|model)?/gi;
+const ROLE_LABEL_LINE = /^\s*#*\s*(system|assistant|developer|user|model)\s*(prompt|message)?\s*:\s*/gim;
+
+const stripRoleMarkup = (text: string) => text.replace(ROLE_MARKUP, '').replace(ROLE_LABEL_LINE, '');
+
+/**
+ * Check a question before it is answered; null when it can go to the model
+ */
+export const screenChatInput = (userMessage: string): InputRejection | null => {
+  if (userMessage.length > MAX_MESSAGE_LENGTH) return { reason: 'too_long' };
+  const match = INJECTION_PATTERNS.find(({ pattern }) => pattern.test(userMessage));
+  return match ? { reason: 'injection', pattern: match.name } : null;
+};
+
+/**
+ * Keep only well-formed user/ai turns from a history, most recent last.
+ * Anything claiming another role is dropped, role markup inside the text is removed, and questions
+ * that screenChatInput would refuse as injection are left out.
+ */
+export const sanitizeHistory = (history: unknown): { sender: 'user' | 'ai'; text: string }[] => {
+  if (!Array.isArray(history)) return [];
+  return history
+    .filter((m): m is { sender: 'user' | 'ai'; text: string } =>
+      !!m && typeof m === 'object' && (m.sender === 'user' || m.sender === 'ai') && typeof m.text === 'string')
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(m => ({ sender: m.sender, text: stripRoleMarkup(m.text).slice(0, MAX_HISTORY_TEXT_LENGTH) }))
+    .filter(m => m.text.trim().length > 0 && !(m.sender === 'user' && screenChatInput(m.text)?.reason === 'injection'));
+};
+
+const REFUSALS: Record<Language, Record<InputRejectionReason, (universityName: string) => string>> = {
+  en: {
+    too_long: () => `That message is a bit long for me - please keep questions under ${MAX_MESSAGE_LENGTH.toLocaleString('en-CA')} characters.`,
+    injection: (universityName) => `Sorry, I can't change how I work or share my instructions. I'm here to help with life at ${universityName} - what would you like to know about campus?`,
+  },
+  fr: {
+    too_long: () => `Ce message est un peu long pour moi - merci de garder les questions sous ${MAX_MESSAGE_LENGTH.toLocaleString('fr-CA')} caractères.`,
+    injection: (universityName) => `Désolé, je ne peux pas changer ma façon de fonctionner ni partager mes instructions. Je suis là pour vous aider avec la vie à ${universityName} - que voulez-vous savoir sur le campus?`,
+  },
+};
+
+/**
+ * The reply a student sees when their message is refused
+ */
+export const refusalText = (rejection: InputRejection, universityName: string, language: Language = DEFAULT_LANGUAGE) =>
+  REFUSALS[language][rejection.reason](universityName);
@@ -0,0 +1,86 @@
+import { Language } from '../types.js';
+
+// Languages the UI is translated into and the persona is told to answer in.
+// The student picks a UI language; each question is also checked for its own language,
+// so a French question gets a French answer even with the UI in English (and vice versa).
+
+export const SUPPORTED_LANGUAGES: Language[] = ['en', 'fr'];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+// English names, for the system prompt
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  fr: 'French',
+};
+
+// Names in the language itself, for the language picker
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  en: 'English',
+  fr: 'Français',
+};
+
+// Canadian locales, so dates and times read the way they do in Ontario
+export const LANGUAGE_LOCALES: Record<Language, string> = {
+  en: 'en-CA',
+  fr: 'fr-CA',
+};
+
+/**
+ * A supported language from an untrusted value (request body, localStorage, navigator.language)
+ */
+export const parseLanguage = (value: unknown): Language | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const code = value.trim().toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LANGUAGES.find(language => language === code);
+};
+
+// Short words that are common in questions in one language and rare in the other.
+// Words shared by both (e.g. "a", "on", "me") are left out.
+const MARKERS: Record<Language, Set<string>> = {
+  en: new Set([
+    'the', 'is', 'are', 'was', 'where', 'what', 'when', 'how', 'which', 'who', 'why', 'can', 'could',
+    'do', 'does', 'did', 'i', 'my', 'to', 'of', 'and', 'in', 'for', 'with', 'there', 'any', 'it',
+    'you', 'your', 'get', 'find', 'open', 'near', 'best', 'from', 'at', 'this', 'that', 'have',
+  ]),
+  fr: new Set([
+    'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'est', 'sont', 'où', 'quand', 'comment',
+    'quel', 'quelle', 'quels', 'quelles', 'qui', 'pourquoi', 'je', 'tu', 'vous', 'nous', 'mon', 'ma',
+    'mes', 'ton', 'ta', 'et', 'pour', 'avec', 'dans', 'sur', 'au', 'aux', 'il', 'elle', 'y', 'ce',
+    'cette', 'peux', 'puis', 'peut', 'dois', 'trouver', 'ouvert', 'ouverte', 'près', 'meilleur', 'bonjour', 'salut', 'merci',
+  ]),
+};
+
+// Elided French articles and pronouns: l'entrée, d'inscription, j'ai, qu'est-ce
+const FRENCH_ELISION = /^(?:l|d|j|qu|n|s|c|m|t)['’]/;
+
+// Letters that only French uses among the supported languages
+const FRENCH_LETTERS = /[àâçéèêëîïôûùüÿœæ]/;
+
+/**
+ * The supported language a message is written in, or null when it's too short or mixed to tell
+ * (e.g. "DP hours?" or a bare building name)
+ */
+export const detectLanguage = (text: string): Language | null => {
+  const words = text.toLowerCase().match(/[\p{L}'’]+/gu) || [];
+  const scores: Record<Language, number> = { en: 0, fr: 0 };
+
+  for (const word of words) {
+    if (FRENCH_ELISION.test(word)) {
+      scores.fr++;
+      continue;
+    }
+    if (MARKERS.en.has(word)) scores.en++;
+    if (MARKERS.fr.has(word)) scores.fr++;
+    if (FRENCH_LETTERS.test(word)) scores.fr += 0.5;
+  }
+
+  if (scores.en === scores.fr || Math.max(scores.en, scores.fr) < 1) return null;
+  return scores.fr > scores.en ? 'fr' : 'en';
+};
+
+/**
+ * The language to answer a question in: its own language when detectable, else the student's UI language
+ */
+export const resolveReplyLanguage = (userMessage: string, preferred?: Language): Language =>
+  detectLanguage(userMessage) ?? preferred ?? DEFAULT_LANGUAGE;
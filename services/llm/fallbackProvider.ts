@@ -0,0 +1,170 @@
+import {
+  LLMProvider,
+  LLMChatOptions,
+  LLMChatSession,
+  LLMGenerationOptions,
+  LLMSchema,
+  LLMSendInput,
+  LLMSendOptions,
+  LLMTask,
+  LLMTurnResult,
+} from './types.js';
+import { ModelChains, ModelSettings } from './modelConfig.js';
+
+// Wraps a provider so every request runs on its task's model chain (modelConfig.ts): when a model
+// is rate limited, failing or times out before it starts answering, the next model in the chain
+// gets the same request. A model with another one behind it gets no rate-limit retries of its own,
+// so a 429 moves on at once; a timed-out request is aborted so it stops spending tokens. Other
+// errors (bad request, missing key) and cancelled requests are thrown straight away.
+
+const DEFAULT_TASK: LLMTask = 'chat';
+
+class ModelTimeoutError extends Error {
+  constructor(model: string, timeoutMs: number) {
+    super(`Model ${model} did not respond within ${timeoutMs}ms`);
+    this.name = 'ModelTimeoutError';
+  }
+}
+
+/**
+ * Whether an error is worth retrying on another model: 429/quota, 5xx, timeouts and network failures
+ */
+export const isFallbackError = (error: unknown): boolean => {
+  if (error instanceof ModelTimeoutError) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|5\d\d)\b|quota|overloaded|unavailable|timed? ?out|fetch failed|ECONNRESET|ETIMEDOUT/i.test(message);
+};
+
+// Run one attempt with the model's timeout, on its own signal: aborted when the caller's `signal` is,
+// or when the model times out. `started` reports whether output has begun, after which a slow stream
+// is left to finish - switching models then would repeat text the student already saw.
+const withTimeout = <T>(
+  settings: ModelSettings,
+  signal: AbortSignal | undefined,
+  run: (signal: AbortSignal) => Promise<T>,
+  started: () => boolean = () => false
+): Promise<T> => {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal!.reason);
+  if (signal?.aborted) forwardAbort();
+  else signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = settings.timeoutMs ? setTimeout(() => {
+      if (started()) return;
+      reject(new ModelTimeoutError(settings.model, settings.timeoutMs!));
+      controller.abort();
+    }, settings.timeoutMs) : undefined;
+    run(controller.signal).then(resolve, reject).finally(() => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    });
+  });
+};
+
+// `hasFallback`: another model can take over, so a rate limit shouldn't be retried on this one
+const toOptions = (settings: ModelSettings, hasFallback: boolean): LLMGenerationOptions => ({
+  model: settings.model,
+  temperature: settings.temperature,
+  maxOutputTokens: settings.maxOutputTokens,
+  rateLimitRetries: hasFallback ? 0 : undefined,
+});
+
+// Try each model in turn until one answers or an error isn't worth falling back on
+const runChain = async <T>(
+  chain: ModelSettings[],
+  attempt: (settings: ModelSettings, hasFallback: boolean) => Promise<T>,
+  canFallback: () => boolean = () => true
+): Promise<T> => {
+  let lastError: unknown;
+  for (const [index, settings] of chain.entries()) {
+    try {
+      return await attempt(settings, index < chain.length - 1);
+    } catch (error) {
+      lastError = error;
+      if (!isFallbackError(error) || !canFallback() || index === chain.length - 1) break;
+      console.warn(`[LLM] ${settings.model} failed (${error instanceof Error ? error.message : error}); falling back to ${chain[index + 1].model}`);
+    }
+  }
+  throw lastError;
+};
+
+// A chat keeps the model its first reply came from - later sends (tool results) must go to the
+// same conversation, so only the opening request falls back
+class FallbackChatSession implements LLMChatSession {
+  private session: LLMChatSession | null = null;
+  private settings: ModelSettings | null = null;
+
+  constructor(private inner: LLMProvider, private options: LLMChatOptions, private chain: ModelSettings[]) {}
+
+  async send(input: LLMSendInput, options: LLMSendOptions = {}): Promise<LLMTurnResult> {
+    if (this.session && this.settings) {
+      const result = await this.session.send(input, options);
+      return { ...result, model: this.settings.model };
+    }
+
+    // Text already shown can't be taken back, so a failure mid-stream isn't retried on another model,
+    // and nor is a request the caller cancelled.
+    // A model that timed out may still answer later; its chunks are dropped once the next one is tried.
+    let streamed = false;
+    let attempt = 0;
+
+    return runChain(this.chain, async (settings, hasFallback) => {
+      const current = ++attempt;
+      const { rateLimitRetries, ...chatOptions } = toOptions(settings, hasFallback);
+      const session = this.inner.startChat({ ...this.options, ...chatOptions });
+      const sendOptions: LLMSendOptions = {
+        ...options,
+        onDelta: options.onDelta && ((delta) => {
+          if (current !== attempt) return;
+          streamed = true;
+          options.onDelta!(delta);
+        }),
+      };
+
+      try {
+        const result = await withTimeout(settings, options.signal, signal => session.send(input, { ...sendOptions, signal, rateLimitRetries }), () => streamed);
+        this.session = session;
+        this.settings = settings;
+        return { ...result, model: settings.model };
+      } catch (error) {
+        if (current === attempt) attempt++;
+        throw error;
+      }
+    }, () => !streamed && !options.signal?.aborted);
+  }
+}
+
+export class FallbackProvider implements LLMProvider {
+  constructor(private inner: LLMProvider, private chains: ModelChains) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  // An explicit model skips the chain; otherwise the task's chain, with call-site settings filling gaps
+  private chainFor(options: LLMGenerationOptions): ModelSettings[] {
+    if (options.model) return [{ model: options.model, temperature: options.temperature, maxOutputTokens: options.maxOutputTokens }];
+    return this.chains[options.task || DEFAULT_TASK].map(settings => ({
+      ...settings,
+      temperature: settings.temperature ?? options.temperature,
+      maxOutputTokens: settings.maxOutputTokens ?? options.maxOutputTokens,
+    }));
+  }
+
+  startChat(options: LLMChatOptions): LLMChatSession {
+    return new FallbackChatSession(this.inner, options, this.chainFor({ ...options, task: options.task || 'chat' }));
+  }
+
+  async generateText(prompt: string, options: LLMGenerationOptions = {}): Promise<string> {
+    return runChain(this.chainFor(options), (settings, hasFallback) =>
+      withTimeout(settings, options.signal, signal => this.inner.generateText(prompt, { ...toOptions(settings, hasFallback), signal })),
+      () => !options.signal?.aborted);
+  }
+
+  async generateStructured<T>(prompt: string, schema: LLMSchema, options: LLMGenerationOptions = {}): Promise<T> {
+    return runChain(this.chainFor(options), (settings, hasFallback) =>
+      withTimeout(settings, options.signal, signal => this.inner.generateStructured<T>(prompt, schema, { ...toOptions(settings, hasFallback), signal })),
+      () => !options.signal?.aborted);
+  }
+}
@@ -0,0 +1,169 @@
+import {
+  GoogleGenerativeAI,
+  SchemaType,
+  type ChatSession,
+  type FunctionDeclarationSchema,
+  type Part,
+  type Schema,
+  type Tool,
+  type UsageMetadata,
+} from '@google/generative-ai';
+import {
+  LLMProvider,
+  LLMChatOptions,
+  LLMChatSession,
+  LLMGenerationOptions,
+  LLMSchema,
+  LLMSendInput,
+  LLMSendOptions,
+  LLMToolDeclaration,
+  LLMTurnResult,
+  LLMUsage,
+} from './types.js';
+import { retryWithBackoff } from './retry.js';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+// LLMSchema uses the same type strings as Gemini's SchemaType enum, but the SDK types each kind
+// separately (an enum is a string with format 'enum', objects and arrays need their members)
+const toGeminiSchema = (schema: LLMSchema): Schema => {
+  const base = { description: schema.description, nullable: schema.nullable };
+  switch (schema.type) {
+    case 'string':
+      return schema.enum
+        ? { ...base, type: SchemaType.STRING, format: 'enum', enum: schema.enum }
+        : { ...base, type: SchemaType.STRING };
+    case 'number': return { ...base, type: SchemaType.NUMBER };
+    case 'integer': return { ...base, type: SchemaType.INTEGER };
+    case 'boolean': return { ...base, type: SchemaType.BOOLEAN };
+    case 'array': return { ...base, type: SchemaType.ARRAY, items: toGeminiSchema(schema.items || { type: 'string' }) };
+    case 'object': return { ...base, type: SchemaType.OBJECT, properties: toGeminiProperties(schema), required: schema.required };
+  }
+};
+
+const toGeminiProperties = (schema: LLMSchema): Record<string, Schema> =>
+  Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, toGeminiSchema(value)]));
+
+// Tool parameters are always an object schema
+const toGeminiParameters = (schema: LLMSchema): FunctionDeclarationSchema => ({
+  type: SchemaType.OBJECT,
+  description: schema.description,
+  properties: toGeminiProperties(schema),
+  required: schema.required,
+});
+
+const toGeminiTools = (tools?: LLMToolDeclaration[]): Tool[] | undefined =>
+  tools && tools.length > 0
+    ? [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parameters: toGeminiParameters(t.parameters) })) }]
+    : undefined;
+
+const toParts = (input: LLMSendInput): string | Part[] => {
+  if (typeof input === 'string') return input;
+  if (Array.isArray(input)) {
+    return input.map(result => ({ functionResponse: { name: result.name, response: result.response } }));
+  }
+  return [{ text: input.text }, ...input.images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }))];
+};
+
+type UsageReporter = (usage: LLMUsage) => void;
+
+const reportUsage = (model: string, metadata: UsageMetadata | undefined, onUsage?: UsageReporter) => {
+  if (!onUsage || !metadata) return;
+  onUsage({ model, promptTokens: metadata.promptTokenCount || 0, responseTokens: metadata.candidatesTokenCount || 0 });
+};
+
+class GeminiChatSession implements LLMChatSession {
+  constructor(private chat: ChatSession, private model: string, private onUsage?: UsageReporter) {}
+
+  async send(input: LLMSendInput, options: LLMSendOptions = {}): Promise<LLMTurnResult> {
+    const request = toParts(input);
+    const requestOptions = { signal: options.signal };
+
+    if (!options.onDelta) {
+      const result = await retryWithBackoff(() => this.chat.sendMessage(request, requestOptions), options.signal, options.rateLimitRetries);
+      reportUsage(this.model, result.response.usageMetadata, this.onUsage);
+      return {
+        text: result.response.text(),
+        toolCalls: (result.response.functionCalls() || []).map(c => ({ name: c.name, args: c.args as Record<string, unknown> })),
+      };
+    }
+
+    // Only the initial request is retried - once chunks are flowing a retry would duplicate text
+    const result = await retryWithBackoff(() => this.chat.sendMessageStream(request, requestOptions), options.signal, options.rateLimitRetries);
+    let text = '';
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        text += delta;
+        options.onDelta(delta);
+      }
+    }
+
+    const response = await result.response;
+    reportUsage(this.model, response.usageMetadata, this.onUsage);
+    return {
+      text,
+      toolCalls: (response.functionCalls() || []).map(c => ({ name: c.name, args: c.args as Record<string, unknown> })),
+    };
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  private client: GoogleGenerativeAI;
+
+  constructor(apiKey: string, private defaultModel: string = DEFAULT_MODEL, private onUsage?: UsageReporter) {
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  startChat(options: LLMChatOptions): LLMChatSession {
+    const modelName = options.model || this.defaultModel;
+    const model = this.client.getGenerativeModel({
+      model: modelName,
+      systemInstruction: options.systemInstruction,
+      tools: toGeminiTools(options.tools),
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens,
+      },
+    });
+
+    // Gemini requires the history to start with a user turn
+    const history = options.history.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+    while (history.length > 0 && history[0].role === 'model') {
+      history.shift();
+    }
+
+    return new GeminiChatSession(model.startChat({ history }), modelName, this.onUsage);
+  }
+
+  async generateText(prompt: string, options: LLMGenerationOptions = {}): Promise<string> {
+    const modelName = options.model || this.defaultModel;
+    const model = this.client.getGenerativeModel({
+      model: modelName,
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens,
+      },
+    });
+    const result = await retryWithBackoff(() => model.generateContent(prompt, { signal: options.signal }), options.signal, options.rateLimitRetries);
+    reportUsage(modelName, result.response.usageMetadata, this.onUsage);
+    return result.response.text();
+  }
+
+  async generateStructured<T>(prompt: string, schema: LLMSchema, options: LLMGenerationOptions = {}): Promise<T> {
+    const modelName = options.model || this.defaultModel;
+    const model = this.client.getGenerativeModel({
+      model: modelName,
+      generationConfig: {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(schema),
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens,
+      },
+    });
+    const result = await retryWithBackoff(() => model.generateContent(prompt, { signal: options.signal }), options.signal, options.rateLimitRetries);
+    reportUsage(modelName, result.response.usageMetadata, this.onUsage);
+    return JSON.parse(result.response.text()) as T;
+  }
+}
@@ -0,0 +1,45 @@
+import { LLMProvider, LLMProviderConfig, LLMProviderName } from './types.js';
+import { GeminiProvider } from './geminiProvider.js';
+import { OpenAIProvider } from './openaiProvider.js';
+import { MockProvider } from './mockProvider.js';
+import { FallbackProvider } from './fallbackProvider.js';
+import { resolveModelChains } from './modelConfig.js';
+
+export * from './types.js';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['gemini', 'openai', 'mock'];
+
+/**
+ * Parse a provider name from environment config, defaulting to Gemini
+ */
+export const parseProviderName = (value: string | undefined): LLMProviderName => {
+  const name = (value || '').trim().toLowerCase() as LLMProviderName;
+  return PROVIDER_NAMES.includes(name) ? name : 'gemini';
+};
+
+// The provider's own client, before model chains are applied
+const createBaseProvider = (config: LLMProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'mock':
+      return new MockProvider();
+    case 'openai':
+      // Local OpenAI-compatible servers usually don't need a key
+      return new OpenAIProvider(config.apiKey, config.baseUrl, undefined, config.onUsage);
+    case 'gemini':
+    default:
+      if (!config.apiKey) {
+        throw new Error('GEMINI_API_KEY is not configured');
+      }
+      return new GeminiProvider(config.apiKey, undefined, config.onUsage);
+  }
+};
+
+/**
+ * Create an LLM provider from config, running each request on its task's model chain
+ * with fallback (see modelConfig.ts). Throws if a required API key is missing.
+ */
+export const createProvider = (config: LLMProviderConfig): LLMProvider =>
+  new FallbackProvider(
+    createBaseProvider(config),
+    resolveModelChains(config.provider, { model: config.model, models: config.models })
+  );
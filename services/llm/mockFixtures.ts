@@ -0,0 +1,44 @@
+import { LLMToolCall } from './types.js';
+
+// Canned responses for the mock provider. The first fixture whose `match` keywords all appear in
+// the user's message wins; a fixture with toolCalls returns them first and its text once the
+// tool results come back.
+
+export interface MockFixture {
+  match: string[]; // Lowercase keywords that must all appear in the message
+  text: string;
+  toolCalls?: LLMToolCall[];
+}
+
+export const DEFAULT_MOCK_FIXTURES: MockFixture[] = [
+  {
+    match: ['library'],
+    text: "The **Dana Porter Library** is the main arts library, with quiet floors upstairs and group rooms below. For engineering and math, head to the **Davis Centre Library**.",
+    toolCalls: [
+      { id: 'mock-call-1', name: 'display_map', args: { location_name: 'Dana Porter Library' } },
+      { id: 'mock-call-3', name: 'display_map', args: { location_name: 'Davis Centre' } },
+    ],
+  },
+  {
+    match: ['get', 'from'],
+    text: "From the **Davis Centre** it's about a 5-minute walk to the **Student Life Centre (SLC)** - head south along the ring road and it's on your right.",
+    toolCalls: [{ id: 'mock-call-4', name: 'show_route', args: { waypoints: ['Davis Centre', 'Student Life Centre'] } }],
+  },
+  {
+    match: ['study', 'late'],
+    text: "For late-night studying, the **Student Life Centre (SLC)** is open 24/7, and the **Davis Centre Library** stays open around the clock during exams.",
+  },
+  {
+    match: ['food'],
+    text: "Some student favourites:\n- **Lazeez Shawarma** - huge portions, open late\n- **Gol's Lanzhou Noodles** - hand-pulled noodles\n- **SLC Food Court** - quick options between classes",
+  },
+  {
+    match: ['event'],
+    text: "There's plenty on this week - check the events list for workshops and socials. [View Campus Events →](/events)",
+    toolCalls: [{ id: 'mock-call-2', name: 'list_events', args: {} }],
+  },
+];
+
+// Used when no fixture matches so the output is still deterministic
+export const mockFallbackText = (message: string) =>
+  `(mock) I received your question: "${message.trim()}". Configure a fixture in services/llm/mockFixtures.ts to script this answer.`;
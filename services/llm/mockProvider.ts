@@ -0,0 +1,94 @@
+import {
+  LLMProvider,
+  LLMChatOptions,
+  LLMChatSession,
+  LLMGenerationOptions,
+  LLMSchema,
+  LLMSendInput,
+  LLMSendOptions,
+  LLMTurnResult,
+} from './types.js';
+import { MockFixture, DEFAULT_MOCK_FIXTURES, mockFallbackText } from './mockFixtures.js';
+
+// Deterministic, offline provider for developing and testing the chat flow without a network
+// connection or API key. Responses come from fixtures; nothing is random or time-dependent.
+
+const findFixture = (fixtures: MockFixture[], message: string) => {
+  const lower = message.toLowerCase();
+  return fixtures.find(f => f.match.every(keyword => lower.includes(keyword)));
+};
+
+// Emit text word-by-word so streaming UIs behave like they do against a real model
+const emitDeltas = (text: string, onDelta?: (delta: string) => void) => {
+  if (!onDelta) return;
+  for (const piece of text.match(/\S+\s*/g) || []) {
+    onDelta(piece);
+  }
+};
+
+class MockChatSession implements LLMChatSession {
+  private pendingFixture: MockFixture | null = null;
+
+  constructor(private fixtures: MockFixture[]) {}
+
+  async send(input: LLMSendInput, options: LLMSendOptions = {}): Promise<LLMTurnResult> {
+    options.signal?.throwIfAborted();
+
+    // Tool results: answer with the fixture that requested them
+    if (Array.isArray(input)) {
+      const text = this.pendingFixture?.text || '';
+      this.pendingFixture = null;
+      emitDeltas(text, options.onDelta);
+      return { text, toolCalls: [] };
+    }
+
+    // Attached photos are ignored; fixtures match on the question text
+    const message = typeof input === 'string' ? input : input.text;
+    const fixture = findFixture(this.fixtures, message);
+
+    if (fixture?.toolCalls && fixture.toolCalls.length > 0) {
+      this.pendingFixture = fixture;
+      return { text: '', toolCalls: fixture.toolCalls };
+    }
+
+    const text = fixture ? fixture.text : mockFallbackText(message);
+    emitDeltas(text, options.onDelta);
+    return { text, toolCalls: [] };
+  }
+}
+
+// Produce a placeholder value that satisfies a schema
+const sampleFromSchema = (schema: LLMSchema): unknown => {
+  switch (schema.type) {
+    case 'string': return schema.enum?.[0] ?? '(mock)';
+    case 'number':
+    case 'integer': return 0;
+    case 'boolean': return false;
+    case 'array': return schema.items ? [sampleFromSchema(schema.items)] : [];
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, sampleFromSchema(value)])
+      );
+  }
+};
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+
+  constructor(private fixtures: MockFixture[] = DEFAULT_MOCK_FIXTURES) {}
+
+  startChat(_options: LLMChatOptions): LLMChatSession {
+    return new MockChatSession(this.fixtures);
+  }
+
+  async generateText(prompt: string, options: LLMGenerationOptions = {}): Promise<string> {
+    options.signal?.throwIfAborted();
+    const fixture = findFixture(this.fixtures, prompt);
+    return fixture ? fixture.text : mockFallbackText(prompt.slice(0, 80));
+  }
+
+  async generateStructured<T>(_prompt: string, schema: LLMSchema, options: LLMGenerationOptions = {}): Promise<T> {
+    options.signal?.throwIfAborted();
+    return sampleFromSchema(schema) as T;
+  }
+}
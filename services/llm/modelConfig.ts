@@ -0,0 +1,94 @@
+import { LLMProviderName, LLMTask } from './types.js';
+
+// Which models answer each kind of request, in fallback order, with their generation settings.
+// FallbackProvider (fallbackProvider.ts) tries the next model in a chain when one is rate limited,
+// failing (5xx) or too slow. Override per deployment with LLM_MODELS / VITE_LLM_MODELS, e.g.
+//   LLM_MODELS='{"chat":[{"model":"gemini-2.5-pro","temperature":0.7},"gemini-2.5-flash"]}'
+
+export interface ModelSettings {
+  model: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  timeoutMs?: number; // Give up on this model if it hasn't started answering by then
+}
+
+export type ModelChains = Record<LLMTask, ModelSettings[]>;
+
+export const LLM_TASKS: LLMTask[] = ['chat', 'eventSummary', 'title', 'followUps', 'historySummary'];
+
+// Settings shared by every model of a task, unless a chain entry sets its own
+const TASK_SETTINGS: Record<LLMTask, Omit<ModelSettings, 'model'>> = {
+  chat: { temperature: 0.8, maxOutputTokens: 1024, timeoutMs: 30_000 },
+  eventSummary: { temperature: 0.9, maxOutputTokens: 400, timeoutMs: 30_000 },
+  title: { temperature: 0.3, maxOutputTokens: 30, timeoutMs: 10_000 },
+  followUps: { temperature: 0.7, maxOutputTokens: 200, timeoutMs: 15_000 },
+  historySummary: { temperature: 0.2, maxOutputTokens: 300, timeoutMs: 20_000 },
+};
+
+const DEFAULT_MODELS: Record<LLMProviderName, Record<LLMTask, string[]>> = {
+  gemini: {
+    chat: ['gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+    eventSummary: ['gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+    title: ['gemini-2.5-flash-lite', 'gemini-2.5-flash'],
+    followUps: ['gemini-2.5-flash-lite', 'gemini-2.5-flash'],
+    historySummary: ['gemini-2.5-flash-lite', 'gemini-2.5-flash'],
+  },
+  openai: {
+    chat: ['gpt-4o-mini'],
+    eventSummary: ['gpt-4o-mini'],
+    title: ['gpt-4o-mini'],
+    followUps: ['gpt-4o-mini'],
+    historySummary: ['gpt-4o-mini'],
+  },
+  mock: {
+    chat: ['mock'],
+    eventSummary: ['mock'],
+    title: ['mock'],
+    followUps: ['mock'],
+    historySummary: ['mock'],
+  },
+  recorded: {
+    chat: ['recorded'],
+    eventSummary: ['recorded'],
+    title: ['recorded'],
+    followUps: ['recorded'],
+    historySummary: ['recorded'],
+  },
+};
+
+// A chain entry in LLM_MODELS: a bare model name or its settings
+type ModelOverride = string | ModelSettings;
+
+const parseOverrides = (value: string | undefined): Partial<Record<LLMTask, ModelOverride[]>> => {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    console.warn('[LLM] Ignoring LLM_MODELS: not valid JSON');
+    return {};
+  }
+};
+
+const toSettings = (task: LLMTask, entry: ModelOverride): ModelSettings | null => {
+  const settings = typeof entry === 'string' ? { model: entry } : entry;
+  return settings && typeof settings.model === 'string' && settings.model
+    ? { ...TASK_SETTINGS[task], ...settings }
+    : null;
+};
+
+/**
+ * Resolve the model chain for every task.
+ * `models` (JSON, per task) replaces a task's chain; `model` (LLM_MODEL) is tried first for every task.
+ */
+export const resolveModelChains = (provider: LLMProviderName, { model, models }: { model?: string; models?: string } = {}): ModelChains => {
+  const overrides = parseOverrides(models);
+
+  return Object.fromEntries(LLM_TASKS.map(task => {
+    const configured = Array.isArray(overrides[task]) ? overrides[task]! : DEFAULT_MODELS[provider][task];
+    const chain = configured.map(entry => toSettings(task, entry)).filter((s): s is ModelSettings => s !== null);
+    const primary = model ? [{ ...TASK_SETTINGS[task], model }] : [];
+    const resolved = [...primary, ...chain.filter(s => s.model !== model)];
+    return [task, resolved.length > 0 ? resolved : DEFAULT_MODELS[provider][task].map(name => ({ ...TASK_SETTINGS[task], model: name }))];
+  })) as ModelChains;
+};
@@ -0,0 +1,232 @@
+import {
+  LLMProvider,
+  LLMChatOptions,
+  LLMChatSession,
+  LLMGenerationOptions,
+  LLMSchema,
+  LLMSendInput,
+  LLMSendOptions,
+  LLMToolCall,
+  LLMTurnResult,
+  LLMUsage,
+} from './types.js';
+import { retryWithBackoff } from './retry.js';
+
+// Talks to any server implementing the OpenAI Chat Completions API
+// (OpenAI itself, or a local server such as Ollama, LM Studio or vLLM).
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+// Photos are sent inline as data: URLs
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+type OpenAIMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | OpenAIContentPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+const parseArgs = (raw: string): Record<string, unknown> => {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const toToolCalls = (calls: OpenAIToolCall[]): LLMToolCall[] =>
+  calls.map(c => ({ id: c.id, name: c.function.name, args: parseArgs(c.function.arguments) }));
+
+class OpenAIChatSession implements LLMChatSession {
+  private messages: OpenAIMessage[];
+
+  constructor(private provider: OpenAIProvider, private options: LLMChatOptions) {
+    this.messages = [
+      { role: 'system', content: options.systemInstruction },
+      ...options.history.map((m): OpenAIMessage => m.role === 'user'
+        ? { role: 'user', content: m.text }
+        : { role: 'assistant', content: m.text }),
+    ];
+  }
+
+  async send(input: LLMSendInput, options: LLMSendOptions = {}): Promise<LLMTurnResult> {
+    if (typeof input === 'string') {
+      this.messages.push({ role: 'user', content: input });
+    } else if (Array.isArray(input)) {
+      for (const result of input) {
+        this.messages.push({ role: 'tool', tool_call_id: result.id || result.name, content: JSON.stringify(result.response) });
+      }
+    } else {
+      this.messages.push({
+        role: 'user',
+        content: [
+          { type: 'text', text: input.text },
+          ...input.images.map((image): OpenAIContentPart => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+        ],
+      });
+    }
+
+    const model = this.options.model || this.provider.defaultModel;
+    const body = {
+      model,
+      messages: this.messages,
+      temperature: this.options.temperature,
+      max_tokens: this.options.maxOutputTokens,
+      tools: this.options.tools?.map(t => ({ type: 'function', function: t })),
+      stream: !!options.onDelta,
+      // Streams only report token counts when asked, in a final chunk
+      stream_options: options.onDelta ? { include_usage: true } : undefined,
+    };
+
+    const response = await retryWithBackoff(() => this.provider.request('/chat/completions', body, options.signal), options.signal, options.rateLimitRetries);
+
+    let text = '';
+    let rawCalls: OpenAIToolCall[] = [];
+    let usage: OpenAIUsage | undefined;
+
+    if (options.onDelta && response.body) {
+      ({ text, rawCalls, usage } = await readCompletionStream(response.body, options.onDelta));
+    } else {
+      const data = await response.json();
+      const message = data.choices?.[0]?.message || {};
+      text = message.content || '';
+      rawCalls = message.tool_calls || [];
+      usage = data.usage;
+    }
+    this.provider.reportUsage(model, usage);
+
+    this.messages.push({ role: 'assistant', content: text || null, tool_calls: rawCalls.length > 0 ? rawCalls : undefined });
+
+    return { text, toolCalls: toToolCalls(rawCalls) };
+  }
+}
+
+// Accumulate streamed `data:` chunks into the final text and tool calls
+const readCompletionStream = async (
+  body: ReadableStream<Uint8Array>,
+  onDelta: (delta: string) => void
+): Promise<{ text: string; rawCalls: OpenAIToolCall[]; usage?: OpenAIUsage }> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  const rawCalls: OpenAIToolCall[] = [];
+  let usage: OpenAIUsage | undefined;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+
+      const data = trimmed.slice(5).trim();
+      if (!data || data === '[DONE]') continue;
+
+      const chunk = JSON.parse(data);
+      if (chunk.usage) usage = chunk.usage;
+      const delta = chunk.choices?.[0]?.delta || {};
+      if (delta.content) {
+        text += delta.content;
+        onDelta(delta.content);
+      }
+      for (const call of delta.tool_calls || []) {
+        const existing = rawCalls[call.index] ||= { id: call.id || '', type: 'function', function: { name: '', arguments: '' } };
+        if (call.id) existing.id = call.id;
+        if (call.function?.name) existing.function.name += call.function.name;
+        if (call.function?.arguments) existing.function.arguments += call.function.arguments;
+      }
+    }
+  }
+
+  return { text, rawCalls: rawCalls.filter(Boolean), usage };
+};
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private apiKey: string | undefined,
+    private baseUrl: string = DEFAULT_BASE_URL,
+    readonly defaultModel: string = DEFAULT_MODEL,
+    private onUsage?: (usage: LLMUsage) => void
+  ) {}
+
+  // Local servers don't always report token counts; those responses aren't counted
+  reportUsage(model: string, usage: OpenAIUsage | undefined) {
+    if (!this.onUsage || !usage) return;
+    this.onUsage({ model, promptTokens: usage.prompt_tokens || 0, responseTokens: usage.completion_tokens || 0 });
+  }
+
+  async request(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`[OpenAI-compatible] ${response.status} ${detail}`.trim());
+    }
+
+    return response;
+  }
+
+  startChat(options: LLMChatOptions): LLMChatSession {
+    return new OpenAIChatSession(this, options);
+  }
+
+  async generateText(prompt: string, options: LLMGenerationOptions = {}): Promise<string> {
+    const model = options.model || this.defaultModel;
+    const response = await retryWithBackoff(() => this.request('/chat/completions', {
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: options.temperature,
+      max_tokens: options.maxOutputTokens,
+    }, options.signal), options.signal, options.rateLimitRetries);
+    const data = await response.json();
+    this.reportUsage(model, data.usage);
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  async generateStructured<T>(prompt: string, schema: LLMSchema, options: LLMGenerationOptions = {}): Promise<T> {
+    const model = options.model || this.defaultModel;
+    const response = await retryWithBackoff(() => this.request('/chat/completions', {
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: options.temperature,
+      max_tokens: options.maxOutputTokens,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema },
+      },
+    }, options.signal), options.signal, options.rateLimitRetries);
+    const data = await response.json();
+    this.reportUsage(model, data.usage);
+    return JSON.parse(data.choices?.[0]?.message?.content || '{}') as T;
+  }
+}
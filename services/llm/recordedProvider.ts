@@ -0,0 +1,103 @@
+import {
+  LLMProvider,
+  LLMChatOptions,
+  LLMChatSession,
+  LLMGenerationOptions,
+  LLMSchema,
+  LLMSendInput,
+  LLMSendOptions,
+  LLMTurnResult,
+} from './types.js';
+
+// Record-and-replay for the offline evaluation (services/evaluation.ts). RecordingProvider wraps a
+// live provider and keeps every reply; ReplayProvider answers from those replies in the same order,
+// with no network or key, so scoring changes can be checked against the answers of an earlier run.
+
+// Everything a provider returned while answering one question, in call order
+export interface LLMRecordingEntry {
+  chats: LLMTurnResult[][]; // One list per chat session, one result per send
+  texts: string[];
+  structured: unknown[];
+}
+
+// Recordings keyed by evaluation question id
+export type LLMRecording = Record<string, LLMRecordingEntry>;
+
+export const createRecordingEntry = (): LLMRecordingEntry => ({ chats: [], texts: [], structured: [] });
+
+class RecordingChatSession implements LLMChatSession {
+  constructor(private inner: LLMChatSession, private results: LLMTurnResult[]) {}
+
+  async send(input: LLMSendInput, options?: LLMSendOptions): Promise<LLMTurnResult> {
+    const result = await this.inner.send(input, options);
+    this.results.push(result);
+    return result;
+  }
+}
+
+export class RecordingProvider implements LLMProvider {
+  constructor(private inner: LLMProvider, private entry: LLMRecordingEntry) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  startChat(options: LLMChatOptions): LLMChatSession {
+    const results: LLMTurnResult[] = [];
+    this.entry.chats.push(results);
+    return new RecordingChatSession(this.inner.startChat(options), results);
+  }
+
+  async generateText(prompt: string, options?: LLMGenerationOptions): Promise<string> {
+    const text = await this.inner.generateText(prompt, options);
+    this.entry.texts.push(text);
+    return text;
+  }
+
+  async generateStructured<T>(prompt: string, schema: LLMSchema, options?: LLMGenerationOptions): Promise<T> {
+    const value = await this.inner.generateStructured<T>(prompt, schema, options);
+    this.entry.structured.push(value);
+    return value;
+  }
+}
+
+// Take the next recorded value, or fail loudly - a replay that runs out no longer matches the recording
+const next = <T>(values: T[] | undefined, index: number, what: string): T => {
+  if (!values || index >= values.length) {
+    throw new Error(`Recording has no ${what} #${index + 1}; record this question again`);
+  }
+  return values[index];
+};
+
+class ReplayChatSession implements LLMChatSession {
+  private sent = 0;
+
+  constructor(private results: LLMTurnResult[] | undefined) {}
+
+  async send(_input: LLMSendInput, options: LLMSendOptions = {}): Promise<LLMTurnResult> {
+    const result = next(this.results, this.sent++, 'chat reply');
+    if (result.text) options.onDelta?.(result.text);
+    return result;
+  }
+}
+
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'recorded' as const;
+  private chats = 0;
+  private texts = 0;
+  private structured = 0;
+
+  constructor(private entry: LLMRecordingEntry) {}
+
+  startChat(_options: LLMChatOptions): LLMChatSession {
+    return new ReplayChatSession(this.entry.chats[this.chats++]);
+  }
+
+  async generateText(): Promise<string> {
+    return next(this.entry.texts, this.texts++, 'text reply');
+  }
+
+  async generateStructured<T>(): Promise<T> {
+    return next(this.entry.structured, this.structured++, 'structured reply') as T;
+  }
+}
@@ -0,0 +1,37 @@
+// Retry utility with exponential backoff for 429 / quota errors.
+// Aborting `signal` cuts the wait short and stops further attempts.
+export const retryWithBackoff = async <T>(
+  operation: () => Promise<T>,
+  signal?: AbortSignal,
+  retries: number = 3,
+  delay: number = 1000
+): Promise<T> => {
+  try {
+    return await operation();
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    const isQuotaError = errorMsg.includes('429') || errorMsg.includes('quota');
+
+    if (isQuotaError && retries > 0 && !signal?.aborted) {
+      console.warn(`[LLM] Rate limit hit. Retrying in ${delay}ms... (${retries} retries left)`);
+      await sleep(delay, signal);
+      return retryWithBackoff(operation, signal, retries - 1, delay * 2);
+    }
+
+    throw error;
+  }
+};
+
+// Wait `ms`, rejecting with the abort reason as soon as `signal` is aborted
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
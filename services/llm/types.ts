@@ -0,0 +1,111 @@
+// Provider-neutral types for talking to an LLM.
+// Every provider (Gemini, OpenAI-compatible, mock) implements LLMProvider so the chat flow
+// never depends on a specific SDK.
+
+export type LLMProviderName = 'gemini' | 'openai' | 'mock' | 'recorded'; // 'recorded' replays an evaluation run (recordedProvider.ts)
+
+// JSON-schema subset understood by every provider (Gemini's SchemaType values are the same strings)
+export interface LLMSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  properties?: Record<string, LLMSchema>;
+  items?: LLMSchema;
+  required?: string[];
+}
+
+export interface LLMToolDeclaration {
+  name: string;
+  description: string;
+  parameters: LLMSchema;
+}
+
+export interface LLMToolCall {
+  id?: string; // OpenAI-compatible APIs pair results with calls by ID
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LLMToolResult {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface LLMImage {
+  mimeType: string;
+  data: string; // base64, without a data: prefix
+}
+
+// A question with photos attached. Only the current question carries images - history is text.
+export interface LLMUserInput {
+  text: string;
+  images: LLMImage[];
+}
+
+export type LLMSendInput = string | LLMUserInput | LLMToolResult[];
+
+// Kinds of request, each with its own model chain and settings (see modelConfig.ts)
+export type LLMTask = 'chat' | 'eventSummary' | 'title' | 'followUps' | 'historySummary';
+
+export interface LLMGenerationOptions {
+  task?: LLMTask; // Picks the model chain and settings; an explicit model bypasses the chain
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  signal?: AbortSignal; // Cancels the request (the student pressed Stop or left the chat)
+  rateLimitRetries?: number; // 429 retries inside the provider (default 3); 0 when a fallback model can answer instead
+}
+
+// A chat's requests are cancelled and retried per send (LLMSendOptions)
+export interface LLMChatOptions extends Omit<LLMGenerationOptions, 'signal' | 'rateLimitRetries'> {
+  systemInstruction: string;
+  history: LLMMessage[];
+  tools?: LLMToolDeclaration[];
+}
+
+export interface LLMTurnResult {
+  text: string;
+  toolCalls: LLMToolCall[];
+  model?: string; // The model that produced this turn (set by FallbackProvider)
+}
+
+// Token counts of one model response, as reported by the provider's API
+export interface LLMUsage {
+  model: string;
+  promptTokens: number;
+  responseTokens: number;
+}
+
+export interface LLMSendOptions {
+  onDelta?: (delta: string) => void; // Called with each new chunk of text when streaming
+  signal?: AbortSignal; // Cancels the request (the student pressed Stop or left the chat)
+  rateLimitRetries?: number; // As in LLMGenerationOptions
+}
+
+// A multi-turn conversation. Tool results are sent back through the same session.
+export interface LLMChatSession {
+  send(input: LLMSendInput, options?: LLMSendOptions): Promise<LLMTurnResult>;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  startChat(options: LLMChatOptions): LLMChatSession;
+  generateText(prompt: string, options?: LLMGenerationOptions): Promise<string>;
+  generateStructured<T>(prompt: string, schema: LLMSchema, options?: LLMGenerationOptions): Promise<T>;
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible servers, e.g. http://localhost:11434/v1 for Ollama
+  model?: string; // Tried first for every task
+  models?: string; // JSON model chains per task (see modelConfig.ts)
+  onUsage?: (usage: LLMUsage) => void; // Called after every model response (not by the mock provider)
+}
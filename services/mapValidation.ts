@@ -0,0 +1,177 @@
+import { CampusData, MapPin, MapRoute, UniversityProfile } from '../types.js';
+
+// Checks map pins against the university's campus before they are shown or saved.
+// A pin whose name matches a known location (exactly or fuzzily) is snapped to that location's
+// coordinates from CampusData. A pin that matches nothing keeps its own coordinates only if they
+// fall on campus, marked unverified. Anything else is rejected and reported for the content team.
+
+// Every known location is within ~1.2 km of its campus centre; this leaves room for outlying buildings
+export const CAMPUS_RADIUS_KM = 3;
+
+// Minimum name similarity (0-1) for a fuzzy match to count
+const FUZZY_MATCH_THRESHOLD = 0.6;
+
+const EARTH_RADIUS_KM = 6371;
+
+export type MapPinRejectionReason = 'invalid_coordinates' | 'outside_campus';
+
+export interface RejectedMapPin {
+  universityId: string;
+  pin: MapPin;
+  reason: MapPinRejectionReason;
+  distanceKm: number | null; // From the campus centre, when the coordinates are usable
+  matchedLocation: string | null; // Set when the campus data entry itself has the bad coordinates
+}
+
+// Where rejected pins are recorded (the API route writes them to map_pin_rejections)
+export interface MapPinRejectionLog {
+  record(rejections: RejectedMapPin[]): Promise<void>;
+}
+
+export interface ValidatedMapData {
+  locations: MapPin[];
+  route: MapRoute | null;
+  rejected: RejectedMapPin[];
+}
+
+type CampusLocation = CampusData['locations'][number];
+
+/**
+ * Great-circle distance between two [lat, lng] points in kilometres
+ */
+export const distanceKm = ([lat1, lng1]: [number, number], [lat2, lng2]: [number, number]): number => {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const bigrams = (text: string) => {
+  const compact = text.replace(/ /g, '');
+  const pairs = new Set<string>();
+  for (let i = 0; i < compact.length - 1; i++) pairs.add(compact.slice(i, i + 2));
+  return pairs;
+};
+
+// Dice coefficient over character bigrams - tolerant of typos ("Center"/"Centre") and missing words
+const nameSimilarity = (a: string, b: string) => {
+  const pairsA = bigrams(a);
+  const pairsB = bigrams(b);
+  if (pairsA.size === 0 || pairsB.size === 0) return 0;
+  const shared = [...pairsA].filter(p => pairsB.has(p)).length;
+  return (2 * shared) / (pairsA.size + pairsB.size);
+};
+
+// "Davis Centre (DC) Library" is compared as written, as "Davis Centre Library", and word by word
+// in runs as long as the query, so "Davis Center" can match its first two words
+const comparableNames = (name: string, wordCount: number) => {
+  const full = [name, name.replace(/\s*\([^)]*\)/g, '')].map(normalizeName);
+  const words = full[1].split(' ');
+  const runs = words.slice(0, Math.max(words.length - wordCount + 1, 0)).map((_, i) => words.slice(i, i + wordCount).join(' '));
+  return [...full, ...runs];
+};
+
+/**
+ * Find the campus location a name refers to: a whole-word match first, then the closest fuzzy match
+ */
+export const matchCampusLocation = (
+  campusData: CampusData,
+  name: string
+): { location: CampusLocation; index: number; exact: boolean } | null => {
+  const query = normalizeName(name);
+  if (!query) return null;
+
+  // Whole words only, so "DC" finds "Davis Centre (DC) Library" but "foo" doesn't find "Food Court"
+  const index = campusData.locations.findIndex(l => {
+    const known = normalizeName(l.name);
+    return ` ${known} `.includes(` ${query} `) || ` ${query} `.includes(` ${known} `);
+  });
+  if (index !== -1) return { location: campusData.locations[index], index, exact: true };
+
+  const wordCount = query.split(' ').length;
+  let bestIndex = -1;
+  let bestScore = 0;
+  campusData.locations.forEach((location, i) => {
+    const score = Math.max(...comparableNames(location.name, wordCount).map(n => nameSimilarity(query, n)));
+    if (score >= FUZZY_MATCH_THRESHOLD && score > bestScore) {
+      bestIndex = i;
+      bestScore = score;
+    }
+  });
+
+  return bestIndex === -1 ? null : { location: campusData.locations[bestIndex], index: bestIndex, exact: false };
+};
+
+const hasValidCoordinates = (pin: MapPin) =>
+  Number.isFinite(pin.lat) && Number.isFinite(pin.lng) && Math.abs(pin.lat) <= 90 && Math.abs(pin.lng) <= 180;
+
+/**
+ * Snap a pin to a known campus location, or keep it as unverified if it is on campus; null when rejected
+ */
+export const validateMapPin = (
+  university: UniversityProfile,
+  campusData: CampusData,
+  pin: MapPin
+): { pin: MapPin | null; rejection: RejectedMapPin | null } => {
+  const reject = (reason: MapPinRejectionReason, distance: number | null, matchedLocation: string | null = null) => ({
+    pin: null,
+    rejection: { universityId: university.id, pin, reason, distanceKm: distance, matchedLocation },
+  });
+
+  const match = matchCampusLocation(campusData, pin.name);
+  const coordinates = match?.location.coordinates;
+  if (match && coordinates) {
+    const distance = distanceKm(university.campusCoordinates, coordinates);
+    if (distance > CAMPUS_RADIUS_KM) return reject('outside_campus', distance, match.location.name);
+    return { pin: { lat: coordinates[0], lng: coordinates[1], name: match.location.name }, rejection: null };
+  }
+
+  if (!hasValidCoordinates(pin)) return reject('invalid_coordinates', null);
+
+  const distance = distanceKm(university.campusCoordinates, [pin.lat, pin.lng]);
+  if (distance > CAMPUS_RADIUS_KM) return reject('outside_campus', distance);
+
+  return { pin: { lat: pin.lat, lng: pin.lng, name: match?.location.name || pin.name, verified: false }, rejection: null };
+};
+
+/**
+ * Validate a message's pins and route; a route is dropped when fewer than two stops survive
+ */
+export const validateMapData = (
+  university: UniversityProfile,
+  campusData: CampusData,
+  locations: MapPin[],
+  route: MapRoute | null
+): ValidatedMapData => {
+  const rejected: RejectedMapPin[] = [];
+  const validate = (pins: MapPin[]) => pins.flatMap(pin => {
+    const result = validateMapPin(university, campusData, pin);
+    if (result.rejection) rejected.push(result.rejection);
+    return result.pin ? [result.pin] : [];
+  });
+
+  const validLocations = validate(locations)
+    .filter((pin, i, all) => all.findIndex(p => p.name === pin.name) === i);
+  const waypoints = route ? validate(route.waypoints) : [];
+
+  return {
+    locations: validLocations,
+    route: waypoints.length > 1 ? { waypoints } : null,
+    rejected,
+  };
+};
+
+/**
+ * Log rejected pins to the console in a greppable form
+ */
+export const logRejectedMapPins = (rejected: RejectedMapPin[]) => {
+  rejected.forEach(r => console.warn(
+    `[map-validation] Rejected pin "${r.pin.name}" (${r.pin.lat}, ${r.pin.lng}) for ${r.universityId}: ${r.reason}` +
+    (r.distanceKm !== null ? `, ${r.distanceKm.toFixed(2)} km from campus` : '') +
+    (r.matchedLocation ? `, campus data entry "${r.matchedLocation}"` : '')
+  ));
+};
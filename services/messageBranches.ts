@@ -0,0 +1,46 @@
+import { Message } from '../types';
+
+// A chat session is a tree of messages: each message points at the one it follows (parentId).
+// Editing a question or regenerating an answer adds a sibling instead of replacing history,
+// and the chat view shows one path through the tree - a branch - at a time.
+
+const byTime = (a: Message, b: Message) => a.timestamp.getTime() - b.timestamp.getTime();
+
+const sameParent = (a: Message, b: Message) => (a.parentId ?? null) === (b.parentId ?? null);
+
+/**
+ * The versions of a message (itself included): messages that follow the same parent, oldest first
+ */
+export const getSiblings = (tree: Message[], message: Message): Message[] =>
+  tree.filter(m => sameParent(m, message)).sort(byTime);
+
+/**
+ * Walk down from a message to the end of its branch, taking the most recent reply at each step
+ */
+export const getLatestLeaf = (tree: Message[], message: Message): Message => {
+  let current = message;
+  for (let depth = 0; depth < tree.length; depth++) {
+    const children = tree.filter(m => m.parentId === current.id).sort(byTime);
+    if (children.length === 0) break;
+    current = children[children.length - 1];
+  }
+  return current;
+};
+
+/**
+ * The conversation from the session's first question down to leaf
+ */
+export const getBranchPath = (tree: Message[], leaf: Message | undefined): Message[] => {
+  const byId = new Map(tree.map(m => [m.id, m]));
+  const path: Message[] = [];
+  for (let current = leaf; current && path.length < tree.length; current = current.parentId ? byId.get(current.parentId) : undefined) {
+    path.unshift(current);
+  }
+  return path;
+};
+
+/**
+ * The branch a session opens on: the one holding its most recent message
+ */
+export const getActiveBranch = (tree: Message[]): Message[] =>
+  getBranchPath(tree, [...tree].sort(byTime).pop());
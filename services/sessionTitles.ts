@@ -0,0 +1,51 @@
+import { Language } from '../types.js';
+import { LLMProvider } from './llm/types.js';
+import { DEFAULT_LANGUAGE, LANGUAGE_NAMES } from './language.js';
+
+// Titles for the chat history list. /api/chat asks the title model chain (llm/modelConfig.ts) for a
+// short one while the first answer is generated; the truncated question is used when that fails.
+
+const FALLBACK_TITLE_LENGTH = 30;
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * The first question, truncated - used when no model title is available
+ */
+export const fallbackSessionTitle = (userMessage: string): string =>
+  userMessage.slice(0, FALLBACK_TITLE_LENGTH) + (userMessage.length > FALLBACK_TITLE_LENGTH ? '...' : '');
+
+const buildTitlePrompt = (userMessage: string, language: Language) => `Write a title of at most 6 words for a campus chat that starts with this student question. Reply with the title only, in ${LANGUAGE_NAMES[language]}, without quotes or a trailing period.
+
+QUESTION:
+${userMessage.slice(0, 500)}`;
+
+// Models sometimes wrap the title in quotes or markdown, or add a label
+const cleanTitle = (text: string) =>
+  text
+    .split('\n')[0]
+    .replace(/^\s*(title|titre)\s*:\s*/i, '')
+    .replace(/^[\s"'“”«»*#]+|[\s"'“”«»*.]+$/g, '')
+    .trim();
+
+/**
+ * Ask the model for a session title; falls back to the truncated question, so it never throws
+ */
+export const suggestSessionTitle = async ({
+  provider,
+  userMessage,
+  language = DEFAULT_LANGUAGE,
+  signal,
+}: {
+  provider: LLMProvider;
+  userMessage: string;
+  language?: Language;
+  signal?: AbortSignal;
+}): Promise<string> => {
+  try {
+    const title = cleanTitle(await provider.generateText(buildTitlePrompt(userMessage, language), { task: 'title', signal }));
+    if (title.length > 0 && title.length <= MAX_TITLE_LENGTH) return title;
+  } catch (error) {
+    if (!signal?.aborted) console.error('Failed to suggest a session title:', error);
+  }
+  return fallbackSessionTitle(userMessage);
+};
@@ -4,6 +4,7 @@ import { supabase } from './supabaseClient';
 import { UserStats, Badge } from '../types';
 import { getUserId } from './authService';
 import { INITIAL_BADGES } from '../constants';
+import { formatUserContext } from './userContext';
 
 /**
  * Get user stats from Supabase
@@ -308,15 +309,7 @@ export const processUserInteraction = async (
  */
 export const generateUserContextSummary = async (): Promise<string> => {
     const stats = await getUserStats();
-
-    const summary = `
-User Level: ${stats.level}
-Total Messages: ${stats.messagesCount}
-Topics Explored: ${stats.topicsExplored.join(', ') || 'None yet'}
-Unlocked Badges: ${stats.badges.filter((b) => b.unlocked).map((b) => b.name).join(', ') || 'None yet'}
-  `.trim();
-
-    return summary;
+    return formatUserContext(stats);
 };
 
 /**
@@ -1,6 +1,7 @@
 // src/services/supabaseClient.ts
 
 import { createClient } from '@supabase/supabase-js';
+import type { MessageMapData, CampusEntryRef, MessageContext, FeedbackRating, FeedbackReason, ChatImage } from '../types';
 
 // Get environment variables
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -62,6 +63,9 @@ export type Database = {
                     title: string;
                     created_at: string;
                     last_modified: string;
+                    summary: string | null;
+                    summary_message_count: number;
+                    summary_fingerprint: string | null;
                 };
                 Insert: {
                     id?: string;
@@ -70,6 +74,9 @@ export type Database = {
                     title?: string;
                     created_at?: string;
                     last_modified?: string;
+                    summary?: string | null;
+                    summary_message_count?: number;
+                    summary_fingerprint?: string | null;
                 };
                 Update: {
                     id?: string;
@@ -78,6 +85,9 @@ export type Database = {
                     title?: string;
                     created_at?: string;
                     last_modified?: string;
+                    summary?: string | null;
+                    summary_message_count?: number;
+                    summary_fingerprint?: string | null;
                 };
             };
             messages: {
@@ -87,6 +97,14 @@ export type Database = {
                     text: string;
                     sender: 'user' | 'ai';
                     created_at: string;
+                    map_data: MessageMapData | null; // JSONB
+                    citations: CampusEntryRef[] | null; // JSONB
+                    parent_id: string | null;
+                    context: MessageContext | null; // JSONB
+                    image: ChatImage | null; // JSONB
+                    model: string | null;
+                    cancelled: boolean;
+                    server_written: boolean; // Set by a trigger: saved by /api/chat rather than the browser
                 };
                 Insert: {
                     id?: string;
@@ -94,6 +112,13 @@ export type Database = {
                     text: string;
                     sender: 'user' | 'ai';
                     created_at?: string;
+                    map_data?: MessageMapData | null; // JSONB
+                    citations?: CampusEntryRef[] | null; // JSONB
+                    parent_id?: string | null;
+                    context?: MessageContext | null; // JSONB
+                    image?: ChatImage | null; // JSONB
+                    model?: string | null;
+                    cancelled?: boolean;
                 };
                 Update: {
                     id?: string;
@@ -101,6 +126,42 @@ export type Database = {
                     text?: string;
                     sender?: 'user' | 'ai';
                     created_at?: string;
+                    map_data?: MessageMapData | null; // JSONB
+                    citations?: CampusEntryRef[] | null; // JSONB
+                    parent_id?: string | null;
+                    context?: MessageContext | null; // JSONB
+                    image?: ChatImage | null; // JSONB
+                    model?: string | null;
+                    cancelled?: boolean;
+                };
+            };
+            message_feedback: {
+                Row: {
+                    id: string;
+                    message_id: string;
+                    user_id: string;
+                    rating: FeedbackRating;
+                    reasons: FeedbackReason[];
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    message_id: string;
+                    user_id: string;
+                    rating: FeedbackRating;
+                    reasons?: FeedbackReason[];
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    message_id?: string;
+                    user_id?: string;
+                    rating?: FeedbackRating;
+                    reasons?: FeedbackReason[];
+                    created_at?: string;
+                    updated_at?: string;
                 };
             };
             user_stats: {
@@ -0,0 +1,52 @@
+import { UniversityProfile, CampusData } from '../types.js';
+import { UNIVERSITIES, DEFAULT_UNIVERSITY_ID } from '../constants.js';
+import { fnv1a } from './hash.js';
+import { DATA_UW, DATA_UOFT, DATA_MAC, DATA_WESTERN, DATA_QUEENS, DATA_TMU } from './campusData.js';
+
+// Single lookup for university personas and campus data.
+// Used by the UI, the client-side AI mode and the /api/chat route alike.
+
+const CAMPUS_DATA: Record<string, CampusData> = {
+  uw: DATA_UW,
+  uoft: DATA_UOFT,
+  mac: DATA_MAC,
+  western: DATA_WESTERN,
+  queens: DATA_QUEENS,
+  tmu: DATA_TMU,
+};
+
+/**
+ * Check whether an ID belongs to a supported university
+ */
+export const isKnownUniversity = (universityId: string): boolean =>
+  UNIVERSITIES.some(u => u.id === universityId);
+
+/**
+ * Get a university profile, falling back to the default university for unknown IDs
+ */
+export const getUniversity = (universityId: string): UniversityProfile =>
+  UNIVERSITIES.find(u => u.id === universityId) ||
+  UNIVERSITIES.find(u => u.id === DEFAULT_UNIVERSITY_ID)!;
+
+/**
+ * Get the campus data for a university, falling back to the default university for unknown IDs
+ */
+export const getCampusData = (universityId: string): CampusData =>
+  CAMPUS_DATA[universityId] || CAMPUS_DATA[DEFAULT_UNIVERSITY_ID];
+
+const versionCache = new Map<string, string>();
+
+/**
+ * Content hash of a university's profile and campus data (FNV-1a, hex).
+ * Changes whenever either is edited, so caches keyed on it invalidate themselves.
+ */
+export const getCampusDataVersion = (universityId: string): string => {
+  const university = getUniversity(universityId);
+  const cached = versionCache.get(university.id);
+  if (cached) return cached;
+
+  const content = JSON.stringify({ university, campusData: getCampusData(university.id) });
+  const version = fnv1a(content);
+  versionCache.set(university.id, version);
+  return version;
+};
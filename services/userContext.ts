@@ -0,0 +1,14 @@
+import { UserStats } from '../types.js';
+
+// The USER CONTEXT block of the chat system prompt, from the student's progress.
+// /api/chat reads the stats itself (api/_lib/userContext.ts) rather than taking this from the request.
+
+/**
+ * Summarize level, activity and badges for the prompt
+ */
+export const formatUserContext = (stats: Pick<UserStats, 'level' | 'messagesCount' | 'topicsExplored' | 'badges'>): string => [
+  `User Level: ${stats.level}`,
+  `Total Messages: ${stats.messagesCount}`,
+  `Topics Explored: ${stats.topicsExplored?.join(', ') || 'None yet'}`,
+  `Unlocked Badges: ${stats.badges.filter((b) => b.unlocked).map((b) => b.name).join(', ') || 'None yet'}`,
+].join('\n');
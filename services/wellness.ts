@@ -0,0 +1,117 @@
+import { CampusData, CampusEntryRef, Language, UniversityProfile } from '../types.js';
+import { DEFAULT_LANGUAGE } from './language.js';
+
+// Crisis and wellness escalation. A question that signals distress is classified here, before any
+// model call, and answered with a fixed, calm reply (no persona, no jokes) that lists the campus
+// wellness resources and 24/7 crisis lines. The chat pins a help card for the session and no XP is
+// awarded for the message. Classification is deterministic so the client and /api/chat always agree.
+
+export type WellnessLevel = 'crisis' | 'distress';
+
+export interface WellnessSignal {
+  level: WellnessLevel;
+  pattern: string; // Name of the phrase group that matched
+}
+
+export interface CrisisLine {
+  name: string;
+  contact: string;
+  note?: string;
+}
+
+// Crisis first: a message matching both gets the crisis reply
+const SIGNALS: { level: WellnessLevel; name: string; pattern: RegExp }[] = [
+  { level: 'crisis', name: 'suicide', pattern: /\bsuicid(e|al)\b|\b(kill|killing|hang|hanging)\s+myself\b|\bend(ing)?\s+(it all|my life)\b|\btake my (own )?life\b/i },
+  { level: 'crisis', name: 'want_to_die', pattern: /\b(want|wanna|ready)\s+to\s+die\b|\bbetter off dead\b|\b(don['’]?t|do not)\s+want\s+to\s+(live|be alive|exist|wake up)\b|\bno reason to live\b/i },
+  { level: 'crisis', name: 'self_harm', pattern: /\bself[- ]?harm(ing)?\b|\b(hurt|hurting|cut|cutting|harm|harming)\s+myself\b|\boverdos(e|ing)\b/i },
+  { level: 'crisis', name: 'suicide_fr', pattern: /\bsuicid(e|er|aire)\b|\bme\s+(tuer|suicider)\b|\b(veux|vais)\s+en\s+finir\b|\bmettre\s+fin\s+à\s+(mes\s+jours|ma\s+vie)\b|\b(envie\s+de|veux)\s+mourir\b/i },
+  { level: 'crisis', name: 'self_harm_fr', pattern: /\bme\s+(faire\s+du\s+mal|scarifier|mutiler)\b|\bautomutilation\b/i },
+  { level: 'distress', name: 'cant_cope', pattern: /\bcan['’]?t\s+(cope|go on|take (it|this) anymore|handle (it|this|anything) anymore)\b|\b(mental|nervous)\s+breakdown\b|\bbreaking down\b/i },
+  { level: 'distress', name: 'panic', pattern: /\b(panic|anxiety)\s+attacks?\b|\bhaving\s+a\s+panic\b/i },
+  { level: 'distress', name: 'low_mood', pattern: /\b(i['’]?m|i am|i feel|feeling|i['’]ve been feeling)\s+(so\s+|really\s+|very\s+|completely\s+)?(hopeless|worthless|depressed|empty|numb|overwhelmed|miserable)\b/i },
+  { level: 'distress', name: 'lonely', pattern: /\b(i feel|feeling|i['’]ve been feeling)\s+(so\s+|really\s+|very\s+|completely\s+)?(alone|lonely|isolated)\b|\b(i['’]?m|i am)\s+(so|really|very)\s+(alone|lonely)\b/i },
+  { level: 'distress', name: 'distress_fr', pattern: /\bje\s+n['’]?en\s+peux\s+plus\b|\bj['’]?en\s+peux\s+plus\b|\bcrise\s+(d['’]angoisse|de\s+panique)\b|\bje\s+me\s+sens\s+(tellement\s+|si\s+|très\s+)?(seule?|désespérée?|déprimée?|vide|inutile|submergée?)/i },
+];
+
+// Resources whose name or description mark them as health, counselling or wellbeing services
+const WELLNESS_RESOURCE = /wellness|wellbeing|well-being|mental health|counselling services|health services/i;
+
+// Every university in the registry is in Ontario, so the provincial student line is listed too
+const CRISIS_LINES: Record<Language, CrisisLine[]> = {
+  en: [
+    { name: '9-8-8 Suicide Crisis Helpline', contact: 'Call or text 988', note: '24/7' },
+    { name: 'Good2Talk', contact: '1-866-925-5454, or text GOOD2TALKON to 686868', note: 'Ontario post-secondary students, 24/7' },
+    { name: 'Emergency', contact: '911', note: 'If you are in immediate danger' },
+  ],
+  fr: [
+    { name: 'Ligne 9-8-8 de prévention du suicide', contact: 'Appel ou texto au 988', note: '24 h/24, 7 j/7' },
+    { name: 'Good2Talk', contact: '1-866-925-5454', note: 'Étudiants du postsecondaire en Ontario, service en français, 24 h/24' },
+    { name: 'Urgence', contact: '911', note: 'Si vous êtes en danger immédiat' },
+  ],
+};
+
+/**
+ * Check a question for signs of crisis or distress; null for everything else
+ */
+export const classifyWellness = (text: string): WellnessSignal | null => {
+  const match = SIGNALS.find(({ pattern }) => pattern.test(text));
+  return match ? { level: match.level, pattern: match.name } : null;
+};
+
+export const getCrisisLines = (language: Language = DEFAULT_LANGUAGE): CrisisLine[] => CRISIS_LINES[language];
+
+/**
+ * The university's wellness entries from CampusData.resources, as citations
+ */
+export const getWellnessResources = (campusData: CampusData): CampusEntryRef[] =>
+  campusData.resources
+    .map((resource, index) => ({ resource, index }))
+    .filter(({ resource }) => WELLNESS_RESOURCE.test(`${resource.name} ${resource.description}`))
+    .map(({ resource, index }) => ({ key: `resource:${index}`, kind: 'resource' as const, title: resource.name }));
+
+const REPLY_TEXT = {
+  en: {
+    crisis: "I'm really sorry you're going through this. You don't have to face it alone, and you deserve support right now.",
+    distress: "That sounds really hard, and I'm glad you said something. You don't have to carry this on your own.",
+    danger: "**If you might act on thoughts of harming yourself, or you're in danger, call 911 or go to the nearest emergency department.**",
+    lines: '**Talk to someone now (free and confidential)**',
+    campus: (shortName: string) => `**Support at ${shortName}**`,
+    closing: "I'm a campus guide, not a counsellor, but I can help you find any of these places or get in touch with them.",
+  },
+  fr: {
+    crisis: "Je suis vraiment désolé que vous traversiez cela. Vous n'avez pas à y faire face sans aide, et vous méritez du soutien dès maintenant.",
+    distress: "Cela a l'air vraiment difficile, et c'est bien d'en parler. Vous n'avez pas à porter cela sans aide.",
+    danger: "**Si vous risquez de passer à l'acte ou si vous êtes en danger, appelez le 911 ou rendez-vous aux urgences les plus proches.**",
+    lines: '**Parler à quelqu\'un maintenant (gratuit et confidentiel)**',
+    campus: (shortName: string) => `**Soutien à ${shortName}**`,
+    closing: "Je suis un guide du campus, pas un conseiller, mais je peux vous aider à trouver ces services ou à les contacter.",
+  },
+};
+
+/**
+ * The fixed reply for a flagged question, with the wellness resources it lists as citations
+ */
+export const buildWellnessReply = (
+  university: UniversityProfile,
+  campusData: CampusData,
+  signal: WellnessSignal,
+  language: Language = DEFAULT_LANGUAGE
+): { text: string; citations: CampusEntryRef[] } => {
+  const copy = REPLY_TEXT[language];
+  const citations = getWellnessResources(campusData);
+  const lines = getCrisisLines(language).map(line => `- **${line.name}** - ${line.contact}${line.note ? ` (${line.note})` : ''}`);
+  const resources = citations.map(ref => {
+    const resource = campusData.resources[Number(ref.key.split(':')[1])];
+    return `- **${resource.name}** - ${resource.contact}: ${resource.description}`;
+  });
+
+  const text = [
+    signal.level === 'crisis' ? copy.crisis : copy.distress,
+    ...(signal.level === 'crisis' ? [copy.danger] : []),
+    [copy.lines, ...lines].join('\n'),
+    ...(resources.length > 0 ? [[copy.campus(university.shortName), ...resources].join('\n')] : []),
+    copy.closing,
+  ].join('\n\n');
+
+  return { text, citations };
+};
@@ -0,0 +1,3 @@
+-- Map pins and route returned with an AI answer: { "locations": [{ lat, lng, name }], "route": { "waypoints": [...] } }
+alter table public.messages
+  add column if not exists map_data jsonb;
@@ -0,0 +1,43 @@
+-- Token buckets for the /api/chat rate limiter (RATE_LIMIT_STORE=postgres).
+-- Keys look like "user:<uuid>" or "ip:<address>".
+create table if not exists public.rate_limit_buckets (
+  key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+-- No policies: only the service role used by the API can read or write buckets
+alter table public.rate_limit_buckets enable row level security;
+
+-- Refill the bucket for the time elapsed, then take one token if available.
+-- The upsert locks the row, so concurrent requests for the same key are serialized.
+create or replace function public.take_rate_limit_token(
+  p_key text,
+  p_capacity double precision,
+  p_refill_per_second double precision
+)
+returns table (allowed boolean, remaining double precision, retry_after_seconds double precision)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_tokens double precision;
+begin
+  insert into rate_limit_buckets as b (key, tokens, updated_at)
+  values (p_key, p_capacity, now())
+  on conflict (key) do update
+    set tokens = least(p_capacity, b.tokens + extract(epoch from (now() - b.updated_at)) * p_refill_per_second),
+        updated_at = now()
+  returning b.tokens into v_tokens;
+
+  if v_tokens >= 1 then
+    update rate_limit_buckets set tokens = v_tokens - 1 where key = p_key;
+    return query select true, v_tokens - 1, 0::double precision;
+  else
+    return query select false, v_tokens, (1 - v_tokens) / p_refill_per_second;
+  end if;
+end;
+$$;
+
+revoke execute on function public.take_rate_limit_token(text, double precision, double precision) from public, anon, authenticated;
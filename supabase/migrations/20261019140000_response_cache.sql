@@ -0,0 +1,18 @@
+-- Cached first-turn answers for /api/chat (RESPONSE_CACHE_STORE=postgres).
+-- campus_version is a hash of the university's campus data; rows for an old version are
+-- deleted the next time an answer is cached for that university.
+create table if not exists public.response_cache (
+  key text primary key,
+  university_id text not null,
+  campus_version text not null,
+  question text not null,
+  response jsonb not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists response_cache_university_idx on public.response_cache (university_id, campus_version);
+create index if not exists response_cache_expires_idx on public.response_cache (expires_at);
+
+-- No policies: only the service role used by the API can read or write the cache
+alter table public.response_cache enable row level security;
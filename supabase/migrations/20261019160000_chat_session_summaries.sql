@@ -0,0 +1,5 @@
+-- Rolling summary of older turns, maintained by services/historyManager.ts.
+-- summary_message_count is how many leading messages (from the student's first question) it covers.
+alter table public.chat_sessions
+  add column if not exists summary text,
+  add column if not exists summary_message_count integer not null default 0;
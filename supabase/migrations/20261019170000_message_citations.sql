@@ -0,0 +1,57 @@
+-- Campus data entries an AI answer is grounded in: [{ "key": "location:2", "kind": "location", "title": "..." }]
+alter table public.messages
+  add column if not exists citations jsonb;
+
+-- save_chat_turn gains the citations of the AI message
+drop function if exists public.save_chat_turn(uuid, uuid, text, text, text, text, jsonb);
+
+create or replace function public.save_chat_turn(
+  p_user_id uuid,
+  p_session_id uuid,
+  p_university_id text,
+  p_title text,
+  p_user_text text,
+  p_ai_text text,
+  p_map_data jsonb,
+  p_citations jsonb
+)
+returns table (session_id uuid, user_message_id uuid, ai_message_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_session_id uuid;
+  v_user_message_id uuid;
+  v_ai_message_id uuid;
+begin
+  if p_session_id is not null then
+    select id into v_session_id
+    from chat_sessions
+    where id = p_session_id and user_id = p_user_id
+    for update;
+  end if;
+
+  if v_session_id is null then
+    insert into chat_sessions (user_id, university_id, title)
+    values (p_user_id, p_university_id, p_title)
+    returning id into v_session_id;
+  end if;
+
+  -- clock_timestamp() rather than now(), so the AI reply sorts after the question
+  insert into messages (session_id, text, sender, created_at)
+  values (v_session_id, p_user_text, 'user', clock_timestamp())
+  returning id into v_user_message_id;
+
+  insert into messages (session_id, text, sender, map_data, citations, created_at)
+  values (v_session_id, p_ai_text, 'ai', p_map_data, p_citations, clock_timestamp())
+  returning id into v_ai_message_id;
+
+  update chat_sessions set last_modified = now() where id = v_session_id;
+
+  return query select v_session_id, v_user_message_id, v_ai_message_id;
+end;
+$$;
+
+revoke execute on function public.save_chat_turn(uuid, uuid, text, text, text, text, jsonb, jsonb) from public, anon, authenticated;
@@ -0,0 +1,20 @@
+-- Map pins /api/chat refused to show because they fall outside the campus radius or have unusable
+-- coordinates (see services/mapValidation.ts). matched_location is set when the campus data entry
+-- itself has the bad coordinates, so the content team knows which entry to fix.
+create table if not exists public.map_pin_rejections (
+  id uuid primary key default gen_random_uuid(),
+  university_id text not null,
+  name text not null,
+  lat double precision,
+  lng double precision,
+  reason text not null check (reason in ('invalid_coordinates', 'outside_campus')),
+  distance_km double precision,
+  matched_location text,
+  user_id uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists map_pin_rejections_university_idx on public.map_pin_rejections (university_id, created_at desc);
+
+-- No policies: written by the API with the service role, reviewed from the Supabase dashboard
+alter table public.map_pin_rejections enable row level security;
@@ -0,0 +1,105 @@
+-- Sessions become trees of messages: each message points at the message it follows.
+-- Editing a question or regenerating an answer adds a sibling under the same parent instead of
+-- replacing history; the client shows one path through the tree at a time.
+alter table public.messages
+  add column if not exists parent_id uuid references public.messages (id) on delete cascade;
+
+create index if not exists messages_parent_id_idx on public.messages (parent_id);
+
+-- Existing sessions are linear: each message follows the one saved before it
+update public.messages m
+set parent_id = ordered.previous_id
+from (
+  select id, lag(id) over (partition by session_id order by created_at, id) as previous_id
+  from public.messages
+) ordered
+where m.id = ordered.id
+  and m.parent_id is null
+  and ordered.previous_id is not null;
+
+-- Identifies the messages a rolling summary covers, so a summary of one branch isn't reused on another
+alter table public.chat_sessions
+  add column if not exists summary_fingerprint text;
+
+-- save_chat_turn places the turn in the tree: the new question follows p_parent_id, or with
+-- p_user_message_id an existing question is answered again (regenerate) and no question is added
+drop function if exists public.save_chat_turn(uuid, uuid, text, text, text, text, jsonb, jsonb);
+
+create or replace function public.save_chat_turn(
+  p_user_id uuid,
+  p_session_id uuid,
+  p_university_id text,
+  p_title text,
+  p_user_text text,
+  p_ai_text text,
+  p_map_data jsonb,
+  p_citations jsonb,
+  p_parent_id uuid,
+  p_user_message_id uuid
+)
+returns table (session_id uuid, user_message_id uuid, ai_message_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_session_id uuid;
+  v_parent_id uuid;
+  v_user_message_id uuid;
+  v_ai_message_id uuid;
+begin
+  if p_session_id is not null then
+    select id into v_session_id
+    from chat_sessions
+    where id = p_session_id and user_id = p_user_id
+    for update;
+  end if;
+
+  if v_session_id is null then
+    insert into chat_sessions (user_id, university_id, title)
+    values (p_user_id, p_university_id, p_title)
+    returning id into v_session_id;
+  end if;
+
+  if p_user_message_id is not null then
+    select id into v_user_message_id
+    from messages
+    where id = p_user_message_id and session_id = v_session_id and sender = 'user';
+
+    if v_user_message_id is null then
+      raise exception 'Message % is not a question in session %', p_user_message_id, v_session_id;
+    end if;
+  else
+    if p_parent_id is not null then
+      select id into v_parent_id
+      from messages
+      where id = p_parent_id and session_id = v_session_id;
+
+      -- A parent that was never saved (e.g. its turn failed to persist) falls back to the latest message
+      if v_parent_id is null then
+        select id into v_parent_id
+        from messages
+        where session_id = v_session_id
+        order by created_at desc
+        limit 1;
+      end if;
+    end if;
+
+    -- clock_timestamp() rather than now(), so the AI reply sorts after the question
+    insert into messages (session_id, text, sender, parent_id, created_at)
+    values (v_session_id, p_user_text, 'user', v_parent_id, clock_timestamp())
+    returning id into v_user_message_id;
+  end if;
+
+  insert into messages (session_id, text, sender, map_data, citations, parent_id, created_at)
+  values (v_session_id, p_ai_text, 'ai', p_map_data, p_citations, v_user_message_id, clock_timestamp())
+  returning id into v_ai_message_id;
+
+  update chat_sessions set last_modified = now() where id = v_session_id;
+
+  return query select v_session_id, v_user_message_id, v_ai_message_id;
+end;
+$$;
+
+revoke execute on function public.save_chat_turn(uuid, uuid, text, text, text, text, jsonb, jsonb, uuid, uuid) from public, anon, authenticated;
@@ -0,0 +1,92 @@
+-- Photo attached to a question: { "mimeType": "image/jpeg", "data": "<base64>" }.
+-- The data limit is MAX_CHAT_IMAGE_BYTES (1 MB, services/chatImages.ts) once base64-encoded.
+alter table public.messages
+  add column if not exists image jsonb
+    check (image is null or (
+      image ->> 'mimeType' in ('image/jpeg', 'image/png', 'image/webp')
+      and octet_length(image ->> 'data') <= 1398104
+    ));
+
+-- save_chat_turn also stores the question's photo
+drop function if exists public.save_chat_turn(uuid, uuid, text, text, text, text, jsonb, jsonb, uuid, uuid, jsonb);
+
+create or replace function public.save_chat_turn(
+  p_user_id uuid,
+  p_session_id uuid,
+  p_university_id text,
+  p_title text,
+  p_user_text text,
+  p_ai_text text,
+  p_map_data jsonb,
+  p_citations jsonb,
+  p_parent_id uuid,
+  p_user_message_id uuid,
+  p_context jsonb,
+  p_user_image jsonb
+)
+returns table (session_id uuid, user_message_id uuid, ai_message_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_session_id uuid;
+  v_parent_id uuid;
+  v_user_message_id uuid;
+  v_ai_message_id uuid;
+begin
+  if p_session_id is not null then
+    select id into v_session_id
+    from chat_sessions
+    where id = p_session_id and user_id = p_user_id
+    for update;
+  end if;
+
+  if v_session_id is null then
+    insert into chat_sessions (user_id, university_id, title)
+    values (p_user_id, p_university_id, p_title)
+    returning id into v_session_id;
+  end if;
+
+  if p_user_message_id is not null then
+    select id into v_user_message_id
+    from messages
+    where id = p_user_message_id and session_id = v_session_id and sender = 'user';
+
+    if v_user_message_id is null then
+      raise exception 'Message % is not a question in session %', p_user_message_id, v_session_id;
+    end if;
+  else
+    if p_parent_id is not null then
+      select id into v_parent_id
+      from messages
+      where id = p_parent_id and session_id = v_session_id;
+
+      -- A parent that was never saved (e.g. its turn failed to persist) falls back to the latest message
+      if v_parent_id is null then
+        select id into v_parent_id
+        from messages
+        where session_id = v_session_id
+        order by created_at desc
+        limit 1;
+      end if;
+    end if;
+
+    -- clock_timestamp() rather than now(), so the AI reply sorts after the question
+    insert into messages (session_id, text, sender, image, parent_id, created_at)
+    values (v_session_id, p_user_text, 'user', p_user_image, v_parent_id, clock_timestamp())
+    returning id into v_user_message_id;
+  end if;
+
+  insert into messages (session_id, text, sender, map_data, citations, context, parent_id, created_at)
+  values (v_session_id, p_ai_text, 'ai', p_map_data, p_citations, p_context, v_user_message_id, clock_timestamp())
+  returning id into v_ai_message_id;
+
+  update chat_sessions set last_modified = now() where id = v_session_id;
+
+  return query select v_session_id, v_user_message_id, v_ai_message_id;
+end;
+$$;
+
+revoke execute on function public.save_chat_turn(uuid, uuid, text, text, text, text, jsonb, jsonb, uuid, uuid, jsonb, jsonb) from public, anon, authenticated;
@@ -0,0 +1,18 @@
+-- Chat messages /api/chat refused before they reached the model: over the length limit, or matching a
+-- prompt-injection pattern (see services/inputFilter.ts). pattern names the rule that matched, so
+-- false positives can be traced back to it; only the start of the message is kept.
+create table if not exists public.chat_input_rejections (
+  id uuid primary key default gen_random_uuid(),
+  university_id text not null,
+  reason text not null check (reason in ('too_long', 'injection')),
+  pattern text,
+  message_excerpt text not null,
+  message_length integer not null,
+  user_id uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists chat_input_rejections_university_idx on public.chat_input_rejections (university_id, created_at desc);
+
+-- No policies: written by the API with the service role, reviewed from the Supabase dashboard
+alter table public.chat_input_rejections enable row level security;
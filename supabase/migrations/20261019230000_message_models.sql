@@ -0,0 +1,135 @@
+-- The model that wrote an AI message (after any fallback, see services/llm/modelConfig.ts).
+-- Null for questions, for fixed replies that never reach a model, and for messages saved before this.
+alter table public.messages
+  add column if not exists model text;
+
+-- save_chat_turn also stores the answer's model
+drop function if exists public.save_chat_turn(uuid, uuid, text, text, text, text, jsonb, jsonb, uuid, uuid, jsonb, jsonb);
+
+create or replace function public.save_chat_turn(
+  p_user_id uuid,
+  p_session_id uuid,
+  p_university_id text,
+  p_title text,
+  p_user_text text,
+  p_ai_text text,
+  p_map_data jsonb,
+  p_citations jsonb,
+  p_parent_id uuid,
+  p_user_message_id uuid,
+  p_context jsonb,
+  p_user_image jsonb,
+  p_model text
+)
+returns table (session_id uuid, user_message_id uuid, ai_message_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_session_id uuid;
+  v_parent_id uuid;
+  v_user_message_id uuid;
+  v_ai_message_id uuid;
+begin
+  if p_session_id is not null then
+    select id into v_session_id
+    from chat_sessions
+    where id = p_session_id and user_id = p_user_id
+    for update;
+  end if;
+
+  if v_session_id is null then
+    insert into chat_sessions (user_id, university_id, title)
+    values (p_user_id, p_university_id, p_title)
+    returning id into v_session_id;
+  end if;
+
+  if p_user_message_id is not null then
+    select id into v_user_message_id
+    from messages
+    where id = p_user_message_id and session_id = v_session_id and sender = 'user';
+
+    if v_user_message_id is null then
+      raise exception 'Message % is not a question in session %', p_user_message_id, v_session_id;
+    end if;
+  else
+    if p_parent_id is not null then
+      select id into v_parent_id
+      from messages
+      where id = p_parent_id and session_id = v_session_id;
+
+      -- A parent that was never saved (e.g. its turn failed to persist) falls back to the latest message
+      if v_parent_id is null then
+        select id into v_parent_id
+        from messages
+        where session_id = v_session_id
+        order by created_at desc
+        limit 1;
+      end if;
+    end if;
+
+    -- clock_timestamp() rather than now(), so the AI reply sorts after the question
+    insert into messages (session_id, text, sender, image, parent_id, created_at)
+    values (v_session_id, p_user_text, 'user', p_user_image, v_parent_id, clock_timestamp())
+    returning id into v_user_message_id;
+  end if;
+
+  insert into messages (session_id, text, sender, map_data, citations, context, model, parent_id, created_at)
+  values (v_session_id, p_ai_text, 'ai', p_map_data, p_citations, p_context, p_model, v_user_message_id, clock_timestamp())
+  returning id into v_ai_message_id;
+
+  update chat_sessions set last_modified = now() where id = v_session_id;
+
+  return query select v_session_id, v_user_message_id, v_ai_message_id;
+end;
+$$;
+
+revoke execute on function public.save_chat_turn(uuid, uuid, text, text, text, text, jsonb, jsonb, uuid, uuid, jsonb, jsonb, text) from public, anon, authenticated;
+
+-- The review queue shows which model wrote each low-rated answer (a new result column needs a drop)
+drop function if exists public.get_feedback_review_queue(text, integer);
+
+create or replace function public.get_feedback_review_queue(
+  p_university_id text default null,
+  p_limit integer default 50
+)
+returns table (
+  feedback_id uuid,
+  message_id uuid,
+  university_id text,
+  question text,
+  answer text,
+  rating smallint,
+  reasons text[],
+  context jsonb,
+  citations jsonb,
+  model text,
+  answered_at timestamptz,
+  rated_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') <> 'admin' then
+    raise exception 'Only admins can review feedback' using errcode = '42501';
+  end if;
+
+  return query
+  select f.id, m.id, s.university_id, q.text, m.text, f.rating, f.reasons, m.context, m.citations, m.model, m.created_at, f.updated_at
+  from message_feedback f
+  join messages m on m.id = f.message_id
+  join chat_sessions s on s.id = m.session_id
+  left join messages q on q.id = m.parent_id
+  where f.rating < 0
+    and (p_university_id is null or s.university_id = p_university_id)
+  order by f.updated_at desc
+  limit least(greatest(p_limit, 1), 200);
+end;
+$$;
+revoke execute on function public.get_feedback_review_queue(text, integer) from public, anon;
+grant execute on function public.get_feedback_review_queue(text, integer) to authenticated;
@@ -0,0 +1,36 @@
+-- One row per AI request served by the API (/api/chat answers and event summaries): the tokens every
+-- model call in it used, the model that answered and how long it took. Cached answers are recorded
+-- with no tokens. Daily quotas (api/_lib/usage.ts) are checked against the sum since midnight UTC.
+create table if not exists public.ai_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  university_id text not null,
+  kind text not null check (kind in ('chat', 'eventSummary')),
+  model text,
+  prompt_tokens integer not null default 0,
+  response_tokens integer not null default 0,
+  latency_ms integer not null,
+  cached boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_usage_user_idx on public.ai_usage (user_id, created_at desc);
+create index if not exists ai_usage_university_idx on public.ai_usage (university_id, created_at desc);
+
+-- No policies: written by the API with the service role, reviewed from the Supabase dashboard
+alter table public.ai_usage enable row level security;
+
+-- Tokens a user has used since p_since, for the daily quota
+create or replace function public.get_ai_usage_total(p_user_id uuid, p_since timestamptz)
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(prompt_tokens + response_tokens), 0)::bigint
+  from ai_usage
+  where user_id = p_user_id and created_at >= p_since;
+$$;
+
+revoke execute on function public.get_ai_usage_total(uuid, timestamptz) from public, anon, authenticated;
@@ -0,0 +1,4 @@
+-- AI answers the student stopped mid-generation. The text is whatever had arrived (possibly empty);
+-- the browser saves these itself, since /api/chat saves nothing for a cancelled turn.
+alter table public.messages
+  add column if not exists cancelled boolean not null default false;
@@ -0,0 +1,26 @@
+-- Whether a message was written by the server (save_chat_turn) rather than by the browser, which saves
+-- stopped turns and client-mode chats itself. /api/chat only rebuilds history from AI replies the server
+-- wrote, so a client can't put words in the model's mouth. Set by the trigger below, never by the
+-- caller; messages saved before this count as browser-written.
+alter table public.messages
+  add column if not exists server_written boolean not null default false;
+
+create or replace function public.set_message_server_written()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    new.server_written := old.server_written;
+  else
+    -- Not security definer, so this is the caller's role: the browser's, or the owner inside save_chat_turn
+    new.server_written := current_user not in ('anon', 'authenticated');
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_server_written on public.messages;
+create trigger messages_server_written
+  before insert or update on public.messages
+  for each row execute function public.set_message_server_written();
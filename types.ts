@@ -1,19 +1,53 @@
 
+// UI and reply languages (see services/language.ts)
+export type Language = 'en' | 'fr';
+
 export enum Sender {
   USER = 'user',
   AI = 'ai'
 }
 
+export interface MapPin {
+  lat: number;
+  lng: number;
+  name: string;
+  verified?: boolean; // false when the pin couldn't be matched to a known campus location (see services/mapValidation.ts)
+}
+
+// Ordered walking route between campus locations
+export interface MapRoute {
+  waypoints: MapPin[];
+}
+
+// Map pins and route stored with an AI message (messages.map_data)
+export interface MessageMapData {
+  locations?: MapPin[];
+  route?: MapRoute;
+}
+
+// A photo attached to a question, base64-encoded without the data: prefix (limits in services/chatImages.ts)
+export interface ChatImage {
+  mimeType: 'image/jpeg' | 'image/png' | 'image/webp';
+  data: string;
+}
+
 export interface Message {
   id: string;
   text: string;
   sender: Sender;
   timestamp: Date;
-  mapLocation?: {
-    lat: number;
-    lng: number;
-    name: string;
-  };
+  image?: ChatImage; // User messages: the photo the question is about
+  parentId?: string | null; // The message this one follows; null for a session's first question (see services/messageBranches.ts)
+  mapLocation?: MapPin; // Legacy single pin (messages saved before mapLocations existed)
+  mapLocations?: MapPin[];
+  route?: MapRoute;
+  citations?: CampusEntryRef[]; // Campus data entries the answer is based on
+  followUps?: string[]; // Suggested next questions (not saved; older answers fall back to the fixed set)
+  feedback?: MessageFeedback; // The student's rating of an AI answer
+  error?: ChatError; // Set on the bubble of a turn that failed; such bubbles are never saved
+  cancelled?: boolean; // An AI answer the student stopped; `text` is what had arrived by then
+  model?: string; // AI messages: the model that wrote the answer
+  isStreaming?: boolean; // True while the AI response is still arriving
 }
 
 export interface ChatSession {
@@ -35,6 +69,7 @@ export interface UniversityProfile {
   logoPath: string; // Path to logo image
   auroraColors: string[]; // Array of 3 hex colors for Aurora background
   welcomeMessage: string;
+  welcomeMessages?: Partial<Record<Language, string>>; // welcomeMessage in other UI languages
   styleGuide: string; // Specific instruction for the AI persona tone
   campusName: string; // e.g. "St. George Campus", "Main Campus"
   campusCoordinates: [number, number]; // [lat, lng] for campus center
@@ -82,6 +117,93 @@ export interface CampusData {
   multiFaithSpaces: MultiFaithSpace[];
 }
 
+export type CampusEntryKind = 'location' | 'faq' | 'resource' | 'event' | 'multiFaithSpace';
+
+// Reference to a single entry in a university's CampusData
+export interface CampusEntryRef {
+  key: string; // `${kind}:${index}` into the university's CampusData arrays
+  kind: CampusEntryKind;
+  title: string;
+}
+
+// A campus data entry that was selected as context for an AI answer
+export interface CampusContextEntry extends CampusEntryRef {
+  score: number;
+}
+
+// A campus tool the model called while answering, with the entries it actually matched
+export interface CampusToolInvocation {
+  name: string;
+  args: Record<string, unknown>;
+  matches: CampusEntryRef[];
+}
+
+// Campus data an AI answer was built from, saved with the message for answer review (messages.context)
+export interface MessageContext {
+  entries: CampusContextEntry[];
+  toolCalls: CampusToolInvocation[];
+}
+
+export type FeedbackRating = 1 | -1;
+
+// Reason tags a student can add to a rating (message_feedback.reasons)
+export type FeedbackReason = 'wrong_location' | 'outdated_hours' | 'too_long' | 'incorrect_info' | 'not_helpful';
+
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  reasons: FeedbackReason[];
+}
+
+// Where a new chat turn attaches in the session's message tree
+export interface ChatBranch {
+  parentId?: string | null;  // Message the new question follows (null starts the session)
+  retryOfMessageId?: string; // Answer this saved question again instead of sending a new one
+}
+
+// Chat response contract shared by /api/chat and the client-side mode
+export interface ChatReply {
+  text: string;
+  sessionId?: string;      // Set when /api/chat saved the turn (creating the session if needed)
+  sessionTitle?: string;   // Title /api/chat gave a session it created
+  userMessageId?: string;
+  aiMessageId?: string;
+  mapLocations?: MapPin[];
+  route?: MapRoute;
+  contextEntries?: CampusContextEntry[];
+  toolCalls?: CampusToolInvocation[];
+  citations?: CampusEntryRef[];
+  followUps?: string[];
+  model?: string;          // The model that answered, after any fallback
+}
+
+// Why an API request failed. Every error response from /api routes carries one (see api/_lib/errors.ts),
+// and the client shows each as its own state: countdown, retry button or sign-in prompt.
+export type ApiErrorCode = 'rate_limited' | 'quota_exceeded' | 'provider_unavailable' | 'invalid_request' | 'unauthorized';
+
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  error: string;        // Short description for logs; never a raw provider or database error
+  retryAfter?: number;  // Seconds until retrying can succeed; absent when retrying won't help
+  text?: string;        // The server's own explanation for the student (input refusals, quota), localized
+  reason?: string;      // invalid_request: what was wrong (e.g. 'too_long', 'injection')
+  quota?: UsageQuota;   // quota_exceeded: the spent allowance
+}
+
+// A failed chat turn, as shown in its error bubble
+export interface ChatError {
+  code: ApiErrorCode;
+  retryAfter?: number;
+  text?: string;
+}
+
+// A signed-in user's daily AI allowance in tokens, from /api/usage (see api/_lib/usage.ts)
+export interface UsageQuota {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string; // ISO time of the next reset, midnight UTC
+}
+
 export interface Badge {
   id: string;
   name: string;